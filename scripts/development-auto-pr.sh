@@ -3,6 +3,10 @@
 set -euo pipefail
 
 SCRIPT_DIR=$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)
+# shellcheck source=lib/events.sh
+source "$SCRIPT_DIR/lib/events.sh"
+# shellcheck source=lib/agent.sh
+source "$SCRIPT_DIR/lib/agent.sh"
 DEFAULT_CONFIG="$HOME/.opencode-loop.conf"
 CONFIG_FILE="$DEFAULT_CONFIG"
 
@@ -15,58 +19,12 @@ DEFAULT_MODEL_PR="github-copilot/gemini-3-flash-preview"
 DEFAULT_MODEL_BRANCH="github-copilot/gemini-3-flash-preview"
 
 SUPPORTED_MODELS=()
-
-# Hard-coded paid-plan multipliers (synced from scripts/cost)
-COST_MODELS=(
-  "Claude Haiku 4.5"
-  "Claude Opus 4.5"
-  "Claude Opus 4.6"
-  "Claude Opus 4.6 (fast mode) (preview)"
-  "Claude Sonnet 4"
-  "Claude Sonnet 4.5"
-  "Claude Sonnet 4.6"
-  "Gemini 2.5 Pro"
-  "Gemini 3 Flash"
-  "Gemini 3 Pro"
-  "Gemini 3.1 Pro"
-  "GPT-4.1"
-  "GPT-4o"
-  "GPT-5 mini"
-  "GPT-5.1"
-  "GPT-5.1-Codex"
-  "GPT-5.1-Codex-Mini"
-  "GPT-5.1-Codex-Max"
-  "GPT-5.2"
-  "GPT-5.2-Codex"
-  "GPT-5.3-Codex"
-  "Grok Code Fast 1"
-  "Raptor mini"
-)
-COST_PAID_MULTIPLIERS=(
-  "0.33"
-  "3"
-  "3"
-  "30"
-  "1"
-  "1"
-  "1"
-  "1"
-  "0.33"
-  "1"
-  "1"
-  "0"
-  "0"
-  "0"
-  "1"
-  "1"
-  "0.33"
-  "1"
-  "1"
-  "1"
-  "1"
-  "0.25"
-  "0"
-)
+MODEL_SLOTS=(PLAN IMPLEMENT REVIEW FIX COMMIT PR BRANCH)
+# Seconds to wait for the app to answer a model fallback request.
+MODEL_FALLBACK_TIMEOUT=300
+# Seconds to wait for the plan to be approved before the PLAN phase fails.
+PLAN_APPROVAL_TIMEOUT="${OPENCODE_LOOP_PLAN_APPROVAL_TIMEOUT:-86400}"
+MODEL_CHOICES_FILE=""
 
 RUN_MODE="bg"
 DO_INIT=0
@@ -78,10 +36,17 @@ PLAN_TEXT=""
 PLAN_FILE_PATH=""
 PLAN_RUNTIME_DIR="${OPENCODE_LOOP_PLAN_DIR:-$HOME/.opencode-loop/plans}"
 PLAN_FILE_USED=""
+RESUME_FROM=""
+REVIEW_TEXT=""
+ISSUE_NUMBER=""
 REPO_DIR=""
 USER_PROMPT=""
 AUTO_APPROVE_EXTERNAL_DIRECTORY="false"
 OPENCODE_RUNTIME_CONFIG_HOME=""
+AGENT_BACKEND="opencode"
+AGENT_COMMAND=""
+AGENT_ARGS=()
+MODEL_PROVIDERS=()
 
 REPO_ROOT=""
 REPO=""
@@ -91,6 +56,7 @@ ORIGIN_OWNER=""
 PUSH_TARGET=""
 PUSH_BRANCH_OWNER=""
 MAIN_BRANCH=""
+BASE_BRANCH=""
 BRANCH_NAME=""
 TARGET_DIR=""
 LOG_FILE=""
@@ -112,6 +78,13 @@ log() {
   echo "[$ts] [$step] $*"
 }
 
+log_error() {
+  local step="$1"
+  shift
+  emit_event error phase "$step" message "$*"
+  log "$step" "Error: $*"
+}
+
 usage() {
   cat <<'EOF'
 Usage:
@@ -131,13 +104,27 @@ Options:
   -h, --help          Show this help
 
 Environment variable overrides (take precedence over config file):
-  OPENCODE_LOOP_WORKSPACE_ROOT, OPENCODE_LOOP_MODEL_PLAN,
+  OPENCODE_LOOP_WORKSPACE_ROOT, OPENCODE_LOOP_WORKSPACE_STRATEGY (clone,
+  worktree or mirror), OPENCODE_LOOP_MODEL_PLAN,
   OPENCODE_LOOP_MODEL_IMPLEMENT, OPENCODE_LOOP_MODEL_REVIEW,
   OPENCODE_LOOP_MODEL_FIX, OPENCODE_LOOP_MODEL_COMMIT,
   OPENCODE_LOOP_MODEL_PR, OPENCODE_LOOP_MODEL_BRANCH,
-  OPENCODE_LOOP_MAX_RETRIES, OPENCODE_LOOP_NOTIFICATION_SOUND,
+  OPENCODE_LOOP_MAX_RETRIES, OPENCODE_LOOP_MAX_REVIEW_ITERATIONS,
+  OPENCODE_LOOP_MAX_VERIFY_ATTEMPTS, OPENCODE_LOOP_VERIFY_COMMANDS (one per line),
+  OPENCODE_LOOP_NOTIFICATION_SOUND,
   OPENCODE_LOOP_AUTO_APPROVE_EXTERNAL_DIRECTORY,
-  OPENCODE_LOOP_BRANCH_PREFIX, OPENCODE_LOOP_SKIP_PR
+  OPENCODE_LOOP_BRANCH_PREFIX, OPENCODE_LOOP_BRANCH_SUFFIX (appended to the
+  generated branch name), OPENCODE_LOOP_SKIP_PR,
+  OPENCODE_LOOP_RESUME_FROM (with OPENCODE_LOOP_BRANCH_NAME; reuses that
+  branch's workspace and skips earlier phases), OPENCODE_LOOP_REVIEW_TEXT,
+  OPENCODE_LOOP_ISSUE_NUMBER (adds "Closes #<number>" to the PR body),
+  OPENCODE_LOOP_BASE_BRANCH (branch to start from and open the PR against
+  instead of the default branch, for stacked PRs),
+  OPENCODE_LOOP_KEEP_WORKSPACE (keep the workspace after the PR is opened),
+  OPENCODE_LOOP_AGENT_BACKEND (opencode or command), OPENCODE_LOOP_AGENT_COMMAND
+  and OPENCODE_LOOP_AGENT_ARGS (one per line; {model}, {prompt} and
+  {promptFile} are substituted, else the prompt goes to stdin) for the command backend, OPENCODE_LOOP_MODEL_PROVIDERS (OpenCode
+  providers whose models may be used, one per line)
 EOF
 }
 
@@ -153,6 +140,9 @@ init_config() {
 #!/usr/bin/env bash
 
 WORKSPACE_ROOT="$HOME/codeloop-workspaces"
+# clone: full clone per run; worktree: git worktree of the local repository;
+# mirror: clone that borrows objects from a shared bare mirror in $WORKSPACE_ROOT/.mirrors
+WORKSPACE_STRATEGY="clone"
 
 MODEL_PLAN="$DEFAULT_MODEL_PLAN"
 MODEL_IMPLEMENT="$DEFAULT_MODEL_IMPLEMENT"
@@ -162,6 +152,19 @@ MODEL_COMMIT="$DEFAULT_MODEL_COMMIT"
 MODEL_PR="$DEFAULT_MODEL_PR"
 MODEL_BRANCH="$DEFAULT_MODEL_BRANCH"
 
+# opencode: OpenCode CLI; command: AGENT_COMMAND with AGENT_ARGS, where {model}, {prompt} and
+# {promptFile} are substituted; without either prompt argument the prompt goes to stdin, and
+# attachments are appended to it
+AGENT_BACKEND="opencode"
+AGENT_COMMAND=""
+if ! declare -p AGENT_ARGS >/dev/null 2>&1; then
+  AGENT_ARGS=(--model "{model}")
+fi
+# OpenCode providers whose models may be used
+if ! declare -p MODEL_PROVIDERS >/dev/null 2>&1; then
+  MODEL_PROVIDERS=("github-copilot")
+fi
+
 if ! declare -p POST_CLONE_COMMANDS >/dev/null 2>&1; then
   POST_CLONE_COMMANDS=("pnpm i")
 fi
@@ -170,6 +173,12 @@ MAX_RETRIES=3
 if ! declare -p RETRY_DELAYS >/dev/null 2>&1; then
   RETRY_DELAYS=(10 30 60)
 fi
+MAX_REVIEW_ITERATIONS=3
+
+if ! declare -p VERIFY_COMMANDS >/dev/null 2>&1; then
+  VERIFY_COMMANDS=()
+fi
+MAX_VERIFY_ATTEMPTS=3
 
 NOTIFICATION_SOUND=true
 AUTO_APPROVE_EXTERNAL_DIRECTORY=false
@@ -190,13 +199,16 @@ load_config() {
   fi
 
   # Ensure values from config file take precedence over pre-exported shell env vars.
-  unset WORKSPACE_ROOT MODEL_PLAN MODEL_IMPLEMENT MODEL_REVIEW MODEL_FIX MODEL_COMMIT MODEL_PR MODEL_BRANCH MAX_RETRIES NOTIFICATION_SOUND AUTO_APPROVE_EXTERNAL_DIRECTORY
-  unset POST_CLONE_COMMANDS RETRY_DELAYS
+  unset WORKSPACE_ROOT WORKSPACE_STRATEGY AGENT_BACKEND AGENT_COMMAND MODEL_PLAN MODEL_IMPLEMENT MODEL_REVIEW MODEL_FIX MODEL_COMMIT MODEL_PR MODEL_BRANCH MAX_RETRIES MAX_REVIEW_ITERATIONS MAX_VERIFY_ATTEMPTS NOTIFICATION_SOUND AUTO_APPROVE_EXTERNAL_DIRECTORY
+  unset POST_CLONE_COMMANDS VERIFY_COMMANDS RETRY_DELAYS AGENT_ARGS MODEL_PROVIDERS
 
   # shellcheck disable=SC1090
   source "$CONFIG_FILE"
 
   WORKSPACE_ROOT="${WORKSPACE_ROOT:-$HOME/codeloop-workspaces}"
+  WORKSPACE_STRATEGY="${WORKSPACE_STRATEGY:-clone}"
+  AGENT_BACKEND="${AGENT_BACKEND:-opencode}"
+  AGENT_COMMAND="${AGENT_COMMAND:-}"
   MODEL_PLAN="${MODEL_PLAN:-$DEFAULT_MODEL_PLAN}"
   MODEL_IMPLEMENT="${MODEL_IMPLEMENT:-$DEFAULT_MODEL_IMPLEMENT}"
   MODEL_REVIEW="${MODEL_REVIEW:-$DEFAULT_MODEL_REVIEW}"
@@ -205,6 +217,8 @@ load_config() {
   MODEL_PR="${MODEL_PR:-$DEFAULT_MODEL_PR}"
   MODEL_BRANCH="${MODEL_BRANCH:-$DEFAULT_MODEL_BRANCH}"
   MAX_RETRIES="${MAX_RETRIES:-3}"
+  MAX_REVIEW_ITERATIONS="${MAX_REVIEW_ITERATIONS:-3}"
+  MAX_VERIFY_ATTEMPTS="${MAX_VERIFY_ATTEMPTS:-3}"
   NOTIFICATION_SOUND="${NOTIFICATION_SOUND:-true}"
   AUTO_APPROVE_EXTERNAL_DIRECTORY="${AUTO_APPROVE_EXTERNAL_DIRECTORY:-false}"
 
@@ -222,12 +236,43 @@ load_config() {
     POST_CLONE_COMMANDS=("pnpm i")
   fi
 
+  if ! declare -p VERIFY_COMMANDS >/dev/null 2>&1; then
+    VERIFY_COMMANDS=()
+  fi
+
   if ! declare -p RETRY_DELAYS >/dev/null 2>&1; then
     RETRY_DELAYS=(10 30 60)
   fi
 
+  if ! declare -p AGENT_ARGS >/dev/null 2>&1; then
+    AGENT_ARGS=(--model "{model}")
+  fi
+
+  if ! declare -p MODEL_PROVIDERS >/dev/null 2>&1; then
+    MODEL_PROVIDERS=("github-copilot")
+  fi
+
   # Environment variable overrides (for Electron app integration)
   [ -n "${OPENCODE_LOOP_WORKSPACE_ROOT:-}" ] && WORKSPACE_ROOT="$OPENCODE_LOOP_WORKSPACE_ROOT"
+  [ -n "${OPENCODE_LOOP_WORKSPACE_STRATEGY:-}" ] && WORKSPACE_STRATEGY="$OPENCODE_LOOP_WORKSPACE_STRATEGY"
+  [ -n "${OPENCODE_LOOP_AGENT_BACKEND:-}" ] && AGENT_BACKEND="$OPENCODE_LOOP_AGENT_BACKEND"
+  [ -n "${OPENCODE_LOOP_AGENT_COMMAND:-}" ] && AGENT_COMMAND="$OPENCODE_LOOP_AGENT_COMMAND"
+  if [ -n "${OPENCODE_LOOP_AGENT_ARGS+x}" ]; then
+    # One argument per line.
+    AGENT_ARGS=()
+    local agent_arg
+    while IFS= read -r agent_arg; do
+      [ -n "$agent_arg" ] && AGENT_ARGS+=("$agent_arg")
+    done <<< "$OPENCODE_LOOP_AGENT_ARGS"
+  fi
+  if [ -n "${OPENCODE_LOOP_MODEL_PROVIDERS:-}" ]; then
+    # One provider per line.
+    MODEL_PROVIDERS=()
+    local model_provider
+    while IFS= read -r model_provider; do
+      [ -n "$model_provider" ] && MODEL_PROVIDERS+=("$model_provider")
+    done <<< "$OPENCODE_LOOP_MODEL_PROVIDERS"
+  fi
   [ -n "${OPENCODE_LOOP_MODEL_PLAN:-}" ] && MODEL_PLAN="$OPENCODE_LOOP_MODEL_PLAN"
   [ -n "${OPENCODE_LOOP_MODEL_IMPLEMENT:-}" ] && MODEL_IMPLEMENT="$OPENCODE_LOOP_MODEL_IMPLEMENT"
   [ -n "${OPENCODE_LOOP_MODEL_REVIEW:-}" ] && MODEL_REVIEW="$OPENCODE_LOOP_MODEL_REVIEW"
@@ -236,11 +281,44 @@ load_config() {
   [ -n "${OPENCODE_LOOP_MODEL_PR:-}" ] && MODEL_PR="$OPENCODE_LOOP_MODEL_PR"
   [ -n "${OPENCODE_LOOP_MODEL_BRANCH:-}" ] && MODEL_BRANCH="$OPENCODE_LOOP_MODEL_BRANCH"
   [ -n "${OPENCODE_LOOP_MAX_RETRIES:-}" ] && MAX_RETRIES="$OPENCODE_LOOP_MAX_RETRIES"
+  [ -n "${OPENCODE_LOOP_MAX_REVIEW_ITERATIONS:-}" ] && MAX_REVIEW_ITERATIONS="$OPENCODE_LOOP_MAX_REVIEW_ITERATIONS"
+  [ -n "${OPENCODE_LOOP_MAX_VERIFY_ATTEMPTS:-}" ] && MAX_VERIFY_ATTEMPTS="$OPENCODE_LOOP_MAX_VERIFY_ATTEMPTS"
+  if [ -n "${OPENCODE_LOOP_VERIFY_COMMANDS+x}" ]; then
+    # One command per line.
+    VERIFY_COMMANDS=()
+    local verify_line
+    while IFS= read -r verify_line; do
+      [ -n "$verify_line" ] && VERIFY_COMMANDS+=("$verify_line")
+    done <<< "$OPENCODE_LOOP_VERIFY_COMMANDS"
+  fi
   [ -n "${OPENCODE_LOOP_NOTIFICATION_SOUND:-}" ] && NOTIFICATION_SOUND="$OPENCODE_LOOP_NOTIFICATION_SOUND"
   [ -n "${OPENCODE_LOOP_AUTO_APPROVE_EXTERNAL_DIRECTORY:-}" ] && AUTO_APPROVE_EXTERNAL_DIRECTORY="$OPENCODE_LOOP_AUTO_APPROVE_EXTERNAL_DIRECTORY"
   [ -n "${OPENCODE_LOOP_LOG_OPENCODE_DETAIL:-}" ] && LOG_OPENCODE_DETAIL="$OPENCODE_LOOP_LOG_OPENCODE_DETAIL"
   [ -n "${OPENCODE_LOOP_BRANCH_PREFIX:-}" ] && BRANCH_PREFIX="$OPENCODE_LOOP_BRANCH_PREFIX"
   [ -n "${OPENCODE_LOOP_SKIP_PR:-}" ] && SKIP_PR="$OPENCODE_LOOP_SKIP_PR"
+  [ -n "${OPENCODE_LOOP_BASE_BRANCH:-}" ] && BASE_BRANCH="$OPENCODE_LOOP_BASE_BRANCH"
+
+  case "$WORKSPACE_STRATEGY" in
+    clone|worktree|mirror) ;;
+    *)
+      echo "Error: WORKSPACE_STRATEGY must be clone, worktree or mirror (got '$WORKSPACE_STRATEGY')"
+      exit 1
+      ;;
+  esac
+
+  case "$AGENT_BACKEND" in
+    opencode) ;;
+    command)
+      if [ -z "$AGENT_COMMAND" ]; then
+        echo "Error: AGENT_COMMAND is required when AGENT_BACKEND is command"
+        exit 1
+      fi
+      ;;
+    *)
+      echo "Error: AGENT_BACKEND must be opencode or command (got '$AGENT_BACKEND')"
+      exit 1
+      ;;
+  esac
 
   case "$(printf '%s' "${LOG_OPENCODE_DETAIL:-}" | tr '[:upper:]' '[:lower:]')" in
     1|true|yes|on)
@@ -262,6 +340,20 @@ load_config() {
 
   BRANCH_PREFIX="${BRANCH_PREFIX:-codeloop}"
 
+  if ! [[ "$MAX_REVIEW_ITERATIONS" =~ ^[0-9]+$ ]] || [ "$MAX_REVIEW_ITERATIONS" -lt 1 ]; then
+    MAX_REVIEW_ITERATIONS=1
+  fi
+  if [ "$MAX_REVIEW_ITERATIONS" -gt 10 ]; then
+    MAX_REVIEW_ITERATIONS=10
+  fi
+
+  if ! [[ "$MAX_VERIFY_ATTEMPTS" =~ ^[0-9]+$ ]] || [ "$MAX_VERIFY_ATTEMPTS" -lt 1 ]; then
+    MAX_VERIFY_ATTEMPTS=1
+  fi
+  if [ "$MAX_VERIFY_ATTEMPTS" -gt 10 ]; then
+    MAX_VERIFY_ATTEMPTS=10
+  fi
+
   case "$(printf '%s' "${SKIP_PR:-}" | tr '[:upper:]' '[:lower:]')" in
     1|true|yes|on)
       SKIP_PR=1
@@ -273,20 +365,38 @@ load_config() {
 }
 
 refresh_supported_models() {
+  local provider
   local models_raw
+  local provider_models
+  local all_models=""
   local line
-  models_raw=$(retry_with_backoff opencode models github-copilot 2>/dev/null || true)
 
-  if [ -z "$(echo "$models_raw" | grep '^github-copilot/' || true)" ]; then
+  if [ "${#MODEL_PROVIDERS[@]}" -eq 0 ]; then
+    echo "Error: MODEL_PROVIDERS is empty; enable at least one OpenCode provider."
+    exit 1
+  fi
+
+  for provider in "${MODEL_PROVIDERS[@]}"; do
+    models_raw=$(retry_with_backoff opencode models "$provider" 2>/dev/null || true)
+    provider_models=$(echo "$models_raw" | awk -v prefix="$provider/" 'index($0, prefix) == 1' || true)
+    if [ -z "$provider_models" ]; then
+      # One unreachable provider (e.g. a local model server that is down) should not stop runs on the others.
+      echo "Warning: Could not list models for OpenCode provider '$provider'. Run manually: opencode models $provider"
+      continue
+    fi
+    all_models+="$provider_models"$'\n'
+  done
+
+  if [ -z "$all_models" ]; then
     echo "Error: Could not determine supported models from OpenCode CLI."
-    echo "Run manually: opencode models github-copilot"
+    echo "Run manually: opencode models ${MODEL_PROVIDERS[0]}"
     exit 1
   fi
 
   SUPPORTED_MODELS=()
   while IFS= read -r line; do
     [ -n "$line" ] && SUPPORTED_MODELS+=("$line")
-  done < <(echo "$models_raw" | grep '^github-copilot/' | sort -u)
+  done < <(printf '%s' "$all_models" | sort -u)
 }
 
 model_is_supported() {
@@ -302,53 +412,26 @@ model_is_supported() {
   return 1
 }
 
-pick_supported_fallback() {
-  local preferred="$1"
-
-  if model_is_supported "$preferred"; then
-    echo "$preferred"
-    return 0
-  fi
-
-  if [ "${#SUPPORTED_MODELS[@]}" -gt 0 ]; then
-    echo "${SUPPORTED_MODELS[0]}"
-    return 0
-  fi
-
-  return 1
-}
-
-ensure_supported_model() {
-  local var_name="$1"
-  local current_value="$2"
-  local preferred_default="$3"
-
-  if model_is_supported "$current_value"; then
-    return 0
-  fi
-
-  local fallback
-  fallback=$(pick_supported_fallback "$preferred_default") || {
-    echo "Error: No supported OpenCode models are available."
-    exit 1
-  }
-
-  echo "Warning: $var_name model '$current_value' is not supported by OpenCode; using '$fallback' instead."
-  printf -v "$var_name" '%s' "$fallback"
-}
-
+# Asks the app for a fallback for every slot whose model OpenCode does not list.
 validate_configured_models() {
-  ensure_supported_model MODEL_PLAN "$MODEL_PLAN" "$DEFAULT_MODEL_PLAN"
-  ensure_supported_model MODEL_IMPLEMENT "$MODEL_IMPLEMENT" "$DEFAULT_MODEL_IMPLEMENT"
-  ensure_supported_model MODEL_REVIEW "$MODEL_REVIEW" "$DEFAULT_MODEL_REVIEW"
-  ensure_supported_model MODEL_FIX "$MODEL_FIX" "$DEFAULT_MODEL_FIX"
-  ensure_supported_model MODEL_COMMIT "$MODEL_COMMIT" "$DEFAULT_MODEL_COMMIT"
-  ensure_supported_model MODEL_PR "$MODEL_PR" "$DEFAULT_MODEL_PR"
-  ensure_supported_model MODEL_BRANCH "$MODEL_BRANCH" "$DEFAULT_MODEL_BRANCH"
+  local slot model
+
+  for slot in "${MODEL_SLOTS[@]}"; do
+    model=$(current_model "$slot")
+    while ! model_is_supported "$model"; do
+      if ! request_model_fallback "$slot" "$model" unsupported; then
+        echo "Error: MODEL_$slot model '$model' is not supported by OpenCode."
+        exit 1
+      fi
+      model=$(current_model "$slot")
+    done
+  done
 }
 
 preflight_checks() {
-  for cmd in git gh opencode jq nohup; do
+  local agent_cmd="opencode"
+  [ "$AGENT_BACKEND" = "command" ] && agent_cmd="$AGENT_COMMAND"
+  for cmd in git gh "$agent_cmd" jq nohup; do
     if ! command -v "$cmd" >/dev/null 2>&1; then
       echo "Error: $cmd is not installed."
       exit 1
@@ -376,8 +459,11 @@ preflight_checks() {
     log "PRECHECK" "gh auth status returned non-zero, but active account is present; continuing."
   fi
 
-  refresh_supported_models
-  validate_configured_models
+  # Only OpenCode can list its models; other CLIs get the configured models as they are.
+  if [ "$AGENT_BACKEND" = "opencode" ]; then
+    refresh_supported_models
+    validate_configured_models
+  fi
 
   if ! git rev-parse --is-inside-work-tree >/dev/null 2>&1; then
     echo "Error: Not a git repository."
@@ -400,21 +486,21 @@ retry_with_backoff() {
   local attempt=1
   local output
   local status
-  local is_opencode_run=0
+  local is_agent_run=0
   local streamed_output=0
 
-  if [ "${1:-}" = "opencode" ] && [ "${2:-}" = "run" ]; then
-    is_opencode_run=1
+  if [ "${1:-}" = "agent_run" ]; then
+    is_agent_run=1
   fi
 
   while [ "$attempt" -le "$MAX_RETRIES" ]; do
     status=0
 
-    if [ "$LOG_OPENCODE_DETAIL" -eq 1 ] && [ "$is_opencode_run" -eq 1 ]; then
+    if [ "$LOG_OPENCODE_DETAIL" -eq 1 ] && [ "$is_agent_run" -eq 1 ]; then
       local stream_file
       stream_file=$(mktemp)
 
-      # Stream opencode output live to stderr (so callers using command substitution still show logs)
+      # Stream agent output live to stderr (so callers using command substitution still show logs)
       # while also capturing full output for downstream parsing.
       "$@" > >(tee "$stream_file" >&2) 2> >(tee -a "$stream_file" >&2) || status=$?
       output=$(cat "$stream_file")
@@ -430,6 +516,9 @@ retry_with_backoff() {
       return 0
     fi
 
+    # Lets agent_call see why the call failed.
+    [ -n "${AGENT_FAILURE_FILE:-}" ] && printf '%s\n' "$output" > "$AGENT_FAILURE_FILE"
+
     if [ "$streamed_output" -ne 1 ]; then
       echo "$output" >&2
     fi
@@ -453,6 +542,34 @@ retry_with_backoff() {
   return 1
 }
 
+# Runs a prompt with the model of a slot and moves on to the fallbacks the app picks when the
+# model fails: agent_call <slot> [--agent <name>] [-f <file>]... -- <prompt>
+agent_call() {
+  local slot="$1"
+  shift
+  local model output status failure_file started
+  failure_file=$(mktemp)
+
+  while true; do
+    model=$(current_model "$slot")
+    status=0
+    started=$SECONDS
+    output=$(AGENT_FAILURE_FILE="$failure_file" retry_with_backoff agent_run -m "$model" "$@") || status=$?
+    if [ "$status" -eq 0 ]; then
+      report_agent_usage "$slot" "$model" completed "$((SECONDS - started))" "$output"
+      rm -f "$failure_file"
+      echo "$output"
+      return 0
+    fi
+    report_agent_usage "$slot" "$model" failed "$((SECONDS - started))" "$(cat "$failure_file")"
+
+    if ! request_model_fallback "$slot" "$model" "$(classify_agent_failure "$(cat "$failure_file")")"; then
+      rm -f "$failure_file"
+      return "$status"
+    fi
+  done
+}
+
 cleanup_text_output() {
   echo "$1" | strip_ansi | grep -v '^>' | sed '/^$/d' | trim
 }
@@ -599,6 +716,7 @@ detect_repo_context() {
     MAIN_BRANCH="main"
     git show-ref --verify --quiet refs/heads/main || MAIN_BRANCH="master"
   fi
+  [ -n "$BASE_BRANCH" ] || BASE_BRANCH="$MAIN_BRANCH"
 
   if [ -z "$REPO" ] && [ -n "$ORIGIN_REPO" ]; then
     REPO="$ORIGIN_REPO"
@@ -615,7 +733,7 @@ generate_branch_name() {
   branch_prompt="Generate a short kebab-case slug with exactly 2-3 concise words (no dates, no prefixes, no extra text) summarizing this task: $USER_PROMPT"
 
   local raw
-  raw=$(retry_with_backoff opencode run -m "$MODEL_BRANCH" -- "$branch_prompt" || true)
+  raw=$(agent_call BRANCH -- "$branch_prompt" || true)
   local cleaned
   cleaned=$(cleanup_text_output "$raw" | head -n 1 | tr '[:upper:]' '[:lower:]' | sed 's/[^a-z0-9-]/-/g' | sed 's/--*/-/g' | sed 's/^-*//' | sed 's/-*$//')
 
@@ -657,6 +775,29 @@ setup_target_paths() {
   LOG_FILE="$TARGET_DIR/opencode-loop.log"
 }
 
+# Claims the workspace directory of a new run. While the directory, or for a worktree the local
+# branch, already exists, another run holds it and the branch name gets a numeric suffix. The
+# directory is created here, so two runs starting at once cannot claim the same one.
+claim_target_paths() {
+  local base_name="$BRANCH_NAME"
+  local attempt=1
+
+  mkdir -p "$WORKSPACE_ROOT"
+  while true; do
+    setup_target_paths
+    if ! { [ "$WORKSPACE_STRATEGY" = "worktree" ] && git -C "$REPO_ROOT" show-ref --verify --quiet "refs/heads/$BRANCH_NAME"; } \
+      && mkdir "$TARGET_DIR" 2>/dev/null; then
+      return 0
+    fi
+    if [ "$attempt" -ge 100 ]; then
+      log_error "INIT" "No free workspace directory for $base_name in $WORKSPACE_ROOT"
+      return 1
+    fi
+    attempt=$((attempt + 1))
+    BRANCH_NAME="$base_name-$attempt"
+  done
+}
+
 setup_logging() {
   mkdir -p "$TARGET_DIR"
   touch "$LOG_FILE"
@@ -679,149 +820,28 @@ notify_error() {
   fi
 }
 
-normalize_model_for_cost_file() {
-  local raw_model="$1"
-  local lowered
-  lowered=$(echo "$raw_model" | tr '[:upper:]' '[:lower:]')
-
-  case "$lowered" in
-    *claude-opus-4.6*fast*|*claude-opus-4-6*fast*|*claude-opus-4.6*preview*|*claude-opus-4-6*preview*)
-      echo "Claude Opus 4.6 (fast mode) (preview)"
-      ;;
-    *claude-opus-4.6*|*claude-opus-4-6*)
-      echo "Claude Opus 4.6"
-      ;;
-    *claude-opus-4.5*|*claude-opus-4-5*)
-      echo "Claude Opus 4.5"
-      ;;
-    *claude-sonnet-4.6*|*claude-sonnet-4-6*)
-      echo "Claude Sonnet 4.6"
-      ;;
-    *claude-sonnet-4.5*|*claude-sonnet-4-5*)
-      echo "Claude Sonnet 4.5"
-      ;;
-    *claude-sonnet-4*)
-      echo "Claude Sonnet 4"
-      ;;
-    *gemini-3-flash*)
-      echo "Gemini 3 Flash"
-      ;;
-    *gemini-3-1-pro*)
-      echo "Gemini 3.1 Pro"
-      ;;
-    *gemini-3-pro*)
-      echo "Gemini 3 Pro"
-      ;;
-    *gemini-2-5-pro*)
-      echo "Gemini 2.5 Pro"
-      ;;
-    *gpt-5.3-codex*)
-      echo "GPT-5.3-Codex"
-      ;;
-    *gpt-5.2-codex*)
-      echo "GPT-5.2-Codex"
-      ;;
-    *gpt-5.1-codex-mini*)
-      echo "GPT-5.1-Codex-Mini"
-      ;;
-    *gpt-5.1-codex-max*)
-      echo "GPT-5.1-Codex-Max"
-      ;;
-    *gpt-5.1-codex*)
-      echo "GPT-5.1-Codex"
-      ;;
-    *gpt-5-mini*)
-      echo "GPT-5 mini"
-      ;;
-    *gpt-5.2*)
-      echo "GPT-5.2"
-      ;;
-    *gpt-5.1*)
-      echo "GPT-5.1"
-      ;;
-    *gpt-4.1*)
-      echo "GPT-4.1"
-      ;;
-    *gpt-4o*)
-      echo "GPT-4o"
-      ;;
-    *)
-      echo ""
-      ;;
-  esac
-}
-
-get_paid_multiplier() {
-  local model_label="$1"
-  local i
-
-  for i in "${!COST_MODELS[@]}"; do
-    if [ "${COST_MODELS[$i]}" = "$model_label" ]; then
-      echo "${COST_PAID_MULTIPLIERS[$i]}"
-      return 0
+# Removes a workspace directory; a worktree is also unregistered from the local repository, and
+# the branch it was created with is deleted there.
+remove_workspace_dir() {
+  local dir="$1"
+  local branch
+  [ -e "$dir" ] || return 0
+  if [ -f "$dir/.git" ] && [ -n "${REPO_ROOT:-}" ]; then
+    branch=$(git -C "$dir" symbolic-ref --quiet --short HEAD 2>/dev/null || true)
+    git -C "$REPO_ROOT" worktree remove --force "$dir" >/dev/null 2>&1 || rm -rf "$dir"
+    git -C "$REPO_ROOT" worktree prune >/dev/null 2>&1 || true
+    if [ -n "$branch" ]; then
+      git -C "$REPO_ROOT" branch -D "$branch" >/dev/null 2>&1 || true
     fi
-  done
-
-  echo ""
-}
-
-report_model_costs() {
-  local did_run_fix="$1"
-  local total="0"
-  local unresolved=0
-
-  log "COST" "Paid plan model multipliers from hard-coded table"
-
-  local phases=("PLAN" "IMPLEMENT" "REVIEW" "FIX" "COMMIT" "PR" "BRANCH")
-  local models=("$MODEL_PLAN" "$MODEL_IMPLEMENT" "$MODEL_REVIEW" "$MODEL_FIX" "$MODEL_COMMIT" "$MODEL_PR" "$MODEL_BRANCH")
-  local i
-
-  for i in "${!phases[@]}"; do
-    local phase="${phases[$i]}"
-    local model="${models[$i]}"
-
-    if [ "$phase" = "FIX" ] && [ "$did_run_fix" -ne 1 ]; then
-      log "COST" "$phase model=$model multiplier=0 (phase skipped)"
-      continue
-    fi
-
-    local normalized multiplier
-    normalized=$(normalize_model_for_cost_file "$model")
-
-    if [ -z "$normalized" ]; then
-      log "COST" "$phase model=$model multiplier=unknown (no mapping in script)"
-      unresolved=1
-      continue
-    fi
-
-    multiplier=$(get_paid_multiplier "$normalized")
-
-    if [ -z "$multiplier" ]; then
-      log "COST" "$phase model=$model mapped=$normalized multiplier=unknown (not found in cost file)"
-      unresolved=1
-      continue
-    fi
-
-    log "COST" "$phase model=$model mapped=$normalized multiplier=$multiplier"
-
-    if [[ "$multiplier" =~ ^[0-9]+([.][0-9]+)?$ ]]; then
-      total=$(awk -v a="$total" -v b="$multiplier" 'BEGIN {printf "%.2f", a + b}')
-    else
-      unresolved=1
-    fi
-  done
-
-  if [ "$unresolved" -eq 1 ]; then
-    log "COST" "Estimated total multiplier (known entries only) = $total"
   else
-    log "COST" "Estimated total multiplier = $total"
+    rm -rf "$dir"
   fi
 }
 
 cleanup_workspace_on_success() {
   if [ -n "$TARGET_DIR" ] && [ -d "$TARGET_DIR" ]; then
     log "CLEANUP" "Removing local workspace: $TARGET_DIR"
-    rm -rf "$TARGET_DIR"
+    remove_workspace_dir "$TARGET_DIR"
   fi
 }
 
@@ -877,14 +897,7 @@ setup_opencode_runtime_config() {
   export XDG_CONFIG_HOME="$OPENCODE_RUNTIME_CONFIG_HOME"
 }
 
-clone_and_prepare_repo() {
-  mkdir -p "$WORKSPACE_ROOT"
-
-  if [ -e "$TARGET_DIR" ]; then
-    log "CLONE" "Removing existing target directory: $TARGET_DIR"
-    rm -rf "$TARGET_DIR"
-  fi
-
+clone_workspace() {
   local clone_source clone_mode
   if [ -n "${REPO_ROOT:-}" ] && [ -d "$REPO_ROOT/.git" ]; then
     clone_source="$REPO_ROOT"
@@ -900,10 +913,124 @@ clone_and_prepare_repo() {
   else
     retry_with_backoff git clone --branch "$MAIN_BRANCH" --single-branch --depth=1 "$clone_source" "$TARGET_DIR" >/dev/null || return 1
   fi
+}
+
+# Creates or updates the mirror. A new mirror is cloned next to it and renamed into place, so an
+# interrupted clone never leaves a partial mirror behind.
+update_mirror() {
+  local mirror_dir="$1"
+  local tmp_dir
+
+  if [ -d "$mirror_dir" ]; then
+    log "CLONE" "Updating mirror $mirror_dir"
+    retry_with_backoff git -C "$mirror_dir" fetch origin >/dev/null || return 1
+    return 0
+  fi
+
+  log "CLONE" "Creating mirror of $REPO_URL at $mirror_dir"
+  tmp_dir=$(mktemp -d "$mirror_dir.tmp-XXXXXX")
+  if ! retry_with_backoff git clone --mirror "$REPO_URL" "$tmp_dir" >/dev/null; then
+    rm -rf "$tmp_dir"
+    return 1
+  fi
+  git -C "$tmp_dir" config gc.auto 0
+  mv "$tmp_dir" "$mirror_dir"
+}
+
+# Clones from the remote while borrowing objects from a bare mirror shared by every run of the
+# repository. Workspaces depend on the mirror's objects, so it is never pruned or garbage-collected.
+# Runs of the same repository take turns on the mirror through a lock directory; a lock left by a
+# run that no longer exists is taken over.
+clone_workspace_from_mirror() {
+  local mirror_dir lock_dir owner
+  local status=0
+  mirror_dir="$WORKSPACE_ROOT/.mirrors/$(echo "$REPO" | sed 's#/#-#g').git"
+  lock_dir="$mirror_dir.lock"
+
+  mkdir -p "$WORKSPACE_ROOT/.mirrors"
+  until mkdir "$lock_dir" 2>/dev/null; do
+    owner=$(cat "$lock_dir/pid" 2>/dev/null || true)
+    if [ -n "$owner" ] && ! kill -0 "$owner" 2>/dev/null; then
+      log "CLONE" "Removing stale mirror lock of process $owner"
+      rm -rf "$lock_dir"
+      continue
+    fi
+    sleep 2
+  done
+  echo "$$" > "$lock_dir/pid"
+
+  update_mirror "$mirror_dir" || status=$?
+  rm -rf "$lock_dir"
+  [ "$status" -eq 0 ] || return 1
+
+  log "CLONE" "Cloning from $REPO_URL (branch=$MAIN_BRANCH) with objects from $mirror_dir to $TARGET_DIR"
+  retry_with_backoff git clone --reference "$mirror_dir" --branch "$MAIN_BRANCH" --single-branch "$REPO_URL" "$TARGET_DIR" >/dev/null || return 1
+}
+
+# Adds the run's branch as a worktree of the local repository, starting from the base branch on origin.
+add_worktree_workspace() {
+  log "CLONE" "Adding worktree of $REPO_ROOT (branch=$BASE_BRANCH) at $TARGET_DIR"
+  retry_with_backoff git -C "$REPO_ROOT" fetch origin "+refs/heads/$BASE_BRANCH:refs/remotes/origin/$BASE_BRANCH" >/dev/null || return 1
+  git -C "$REPO_ROOT" worktree prune >/dev/null 2>&1 || true
+  if git -C "$REPO_ROOT" show-ref --verify --quiet "refs/heads/$BRANCH_NAME"; then
+    log_error "CLONE" "Branch $BRANCH_NAME already exists in $REPO_ROOT"
+    return 1
+  fi
+  git -C "$REPO_ROOT" worktree add --no-track -b "$BRANCH_NAME" "$TARGET_DIR" "origin/$BASE_BRANCH" >/dev/null || return 1
+}
+
+# Keeps the run's log out of checkpoints, commits and rollbacks through the workspace's exclude file.
+# A worktree shares the exclude file of the local repository; the pattern is anchored at the top of
+# each working tree, so it only matches the logs of runs.
+exclude_runtime_files() {
+  local exclude_file
+  exclude_file=$(git -C "$TARGET_DIR" rev-parse --git-path info/exclude) || return 1
+  case "$exclude_file" in
+    /*) ;;
+    *) exclude_file="$TARGET_DIR/$exclude_file" ;;
+  esac
+  mkdir -p "$(dirname "$exclude_file")"
+  if ! grep -qxF "/$(basename "$LOG_FILE")" "$exclude_file" 2>/dev/null; then
+    printf '/%s\n' "$(basename "$LOG_FILE")" >> "$exclude_file"
+  fi
+}
+
+# Creates the workspace in the directory the run claimed. It holds only the run's log, which is
+# moved aside while the repository is cloned into the empty directory; the log keeps being written
+# as the file is renamed, not replaced.
+clone_and_prepare_repo() {
+  local log_aside
+  local status=0
+
+  log_aside=$(mktemp "$WORKSPACE_ROOT/.opencode-loop-log.XXXXXX")
+  mv "$LOG_FILE" "$log_aside"
+  if [ -n "$(ls -A "$TARGET_DIR")" ]; then
+    log_error "CLONE" "Workspace directory $TARGET_DIR is not empty; it may belong to another run"
+    status=1
+  elif [ "$WORKSPACE_STRATEGY" = "worktree" ]; then
+    add_worktree_workspace || status=$?
+  elif [ "$WORKSPACE_STRATEGY" = "mirror" ]; then
+    clone_workspace_from_mirror || status=$?
+  else
+    clone_workspace || status=$?
+  fi
+  mv "$log_aside" "$LOG_FILE"
+  [ "$status" -eq 0 ] || return 1
 
   cd "$TARGET_DIR" || return 1
-  git checkout -b "$BRANCH_NAME" >/dev/null || return 1
-  log "CLONE" "Checked out new branch: $BRANCH_NAME"
+  exclude_runtime_files || return 1
+  if [ "$WORKSPACE_STRATEGY" != "worktree" ]; then
+    if [ "$BASE_BRANCH" != "$MAIN_BRANCH" ]; then
+      # Stacked run: the base branch was pushed by another run and may only exist on the remote.
+      log "CLONE" "Fetching base branch $BASE_BRANCH from $REPO_URL"
+      retry_with_backoff git fetch "$REPO_URL" "$BASE_BRANCH:$BASE_BRANCH" >/dev/null || return 1
+      git checkout -b "$BRANCH_NAME" "$BASE_BRANCH" >/dev/null || return 1
+    else
+      git checkout -b "$BRANCH_NAME" >/dev/null || return 1
+    fi
+  fi
+  emit_event branch name "$BRANCH_NAME" base "$BASE_BRANCH" baseCommit "$(git rev-parse HEAD)"
+  log "CLONE" "Checked out new branch: $BRANCH_NAME (from $BASE_BRANCH)"
 }
 
 run_post_clone_commands() {
@@ -925,49 +1052,201 @@ run_post_clone_commands() {
   done
 }
 
+# Runs every verification command once from the repository root. Each command's output is
+# written to its own file, and the output of failing commands is appended to $2 so the fix
+# model can work from it. Returns 1 when any command fails.
+run_verify_commands() {
+  local attempt="$1"
+  local failures_file="$2"
+  local output_dir="$3"
+  local cmd index=0 status exit_code started finished output_file
+  local failed=0
+
+  : > "$failures_file"
+  for cmd in ${VERIFY_COMMANDS[@]+"${VERIFY_COMMANDS[@]}"}; do
+    [ -z "$cmd" ] && continue
+    index=$((index + 1))
+    output_file="$output_dir/attempt-$attempt-$index.log"
+    log "VERIFY" "Running verification command: $cmd"
+    started=$(date +%s)
+    exit_code=0
+    (cd "$TARGET_DIR" && eval "$cmd") > "$output_file" 2>&1 || exit_code=$?
+    finished=$(date +%s)
+
+    if [ "$exit_code" -eq 0 ]; then
+      status="passed"
+    else
+      status="failed"
+      failed=1
+      {
+        printf '$ %s (exit code %s)\n' "$cmd" "$exit_code"
+        tail -n 200 "$output_file"
+        printf '\n'
+      } >> "$failures_file"
+    fi
+
+    emit_event verify_result attempt:int "$attempt" command "$cmd" status "$status" exitCode:int "$exit_code" duration:int "$((finished - started))" output "$output_file"
+    log "VERIFY" "Command $status in $((finished - started))s: $cmd"
+  done
+
+  return "$failed"
+}
+
+# Blocks until the app answers the plan approval request by writing "approved" or "rejected"
+# to $OPENCODE_LOOP_PLAN_APPROVAL_FILE. An approved plan may have been edited in place. Fails the
+# PLAN phase when no answer arrives within $PLAN_APPROVAL_TIMEOUT seconds.
+wait_for_plan_approval() {
+  local plan_file="$1"
+  local approval_file="$OPENCODE_LOOP_PLAN_APPROVAL_FILE"
+  local waited=0
+  local decision
+
+  rm -f "$approval_file"
+  emit_event approval_request phase PLAN path "$plan_file"
+  log "PLAN" "Waiting for plan approval"
+  while [ ! -f "$approval_file" ]; do
+    if [ "$waited" -ge "$PLAN_APPROVAL_TIMEOUT" ]; then
+      emit_event error phase PLAN message "The plan was not approved within ${PLAN_APPROVAL_TIMEOUT}s"
+      log_error "PLAN" "The plan was not approved within ${PLAN_APPROVAL_TIMEOUT}s"
+      return 1
+    fi
+    sleep 2
+    waited=$((waited + 2))
+  done
+  decision=$(head -n 1 "$approval_file" | tr -d '[:space:]')
+  rm -f "$approval_file"
+
+  if [ "$decision" != "approved" ]; then
+    log_error "PLAN" "Plan was rejected"
+    return 1
+  fi
+  log "PLAN" "Plan approved"
+}
+
+# Phases in pipeline order, used to decide which phases a resumed run skips.
+PIPELINE_PHASE_ORDER=(CLONE SETUP PLAN IMPLEMENT REVIEW FIX VERIFY COMMIT PUSH PR)
+
+phase_order_index() {
+  local i
+  for i in "${!PIPELINE_PHASE_ORDER[@]}"; do
+    if [ "${PIPELINE_PHASE_ORDER[$i]}" = "$1" ]; then
+      echo "$i"
+      return 0
+    fi
+  done
+  echo -1
+}
+
+# True when resuming from a phase that comes after $1, so $1 already ran in the previous run.
+resumes_past() {
+  [ -n "$RESUME_FROM" ] || return 1
+  [ "$(phase_order_index "$RESUME_FROM")" -gt "$(phase_order_index "$1")" ]
+}
+
+resume_workspace() {
+  # A worktree has a .git file instead of a directory.
+  if [ ! -e "$TARGET_DIR/.git" ]; then
+    log_error "CLONE" "Cannot resume: workspace not found at $TARGET_DIR"
+    return 1
+  fi
+
+  cd "$TARGET_DIR" || return 1
+  exclude_runtime_files || return 1
+  if ! git checkout "$BRANCH_NAME" >/dev/null 2>&1; then
+    log_error "CLONE" "Cannot resume: branch $BRANCH_NAME is missing in $TARGET_DIR"
+    return 1
+  fi
+  log "CLONE" "Resuming from $RESUME_FROM in existing workspace: $TARGET_DIR"
+}
+
+# Snapshots the workspace (including uncommitted and untracked files, but not the excluded run log)
+# as a commit under refs/codeloop/checkpoints/ without touching HEAD, the index or the working tree.
+checkpoint_phase() {
+  local phase="$1"
+  local index_file tree head commit seq ref
+  index_file=$(mktemp)
+  rm -f "$index_file"
+
+  head=$(git -C "$TARGET_DIR" rev-parse HEAD 2>/dev/null) || return 0
+  if GIT_INDEX_FILE="$index_file" git -C "$TARGET_DIR" read-tree HEAD \
+    && GIT_INDEX_FILE="$index_file" git -C "$TARGET_DIR" add -A \
+    && tree=$(GIT_INDEX_FILE="$index_file" git -C "$TARGET_DIR" write-tree) \
+    && commit=$(git -C "$TARGET_DIR" commit-tree "$tree" -p "$head" -m "codeloop checkpoint: $phase"); then
+    seq=$(git -C "$TARGET_DIR" for-each-ref refs/codeloop/checkpoints/ | wc -l | tr -d ' ')
+    ref=$(printf 'refs/codeloop/checkpoints/%03d-%s' "$((seq + 1))" "$phase")
+    git -C "$TARGET_DIR" update-ref "$ref" "$commit"
+    emit_event checkpoint phase "$phase" ref "$ref" commit "$commit"
+  else
+    log "$phase" "Could not create a workspace checkpoint"
+  fi
+  rm -f "$index_file"
+}
+
 run_pipeline() {
   local started_at phase_start phase_end
   local did_run_fix=0
   started_at=$(date +%s)
 
-  phase_start=$(date +%s)
-  clone_and_prepare_repo || return 1
-  phase_end=$(date +%s)
-  log "CLONE" "Completed in $((phase_end - phase_start))s"
+  if resumes_past CLONE; then
+    resume_workspace || return 1
+  else
+    phase_start=$(date +%s)
+    emit_event phase_start phase CLONE
+    clone_and_prepare_repo || return 1
+    phase_end=$(date +%s)
+    emit_event phase_end phase CLONE status completed duration:int "$((phase_end - phase_start))"
+    log "CLONE" "Completed in $((phase_end - phase_start))s"
+  fi
 
-  phase_start=$(date +%s)
-  run_post_clone_commands || return 1
-  phase_end=$(date +%s)
-  log "SETUP" "Completed in $((phase_end - phase_start))s"
+  if ! resumes_past SETUP; then
+    phase_start=$(date +%s)
+    emit_event phase_start phase SETUP
+    run_post_clone_commands || return 1
+    phase_end=$(date +%s)
+    emit_event phase_end phase SETUP status completed duration:int "$((phase_end - phase_start))"
+    checkpoint_phase SETUP
+    log "SETUP" "Completed in $((phase_end - phase_start))s"
+  fi
 
-  local prompt_file plan_file implement_prompt_file review_file diff_file commit_diff_file pr_diff_file
+  local prompt_file plan_file implement_prompt_file review_dir review_file diff_file commit_diff_file pr_diff_file
   prompt_file=$(mktemp)
   ensure_plan_runtime_dir
   plan_file=$(mktemp "$PLAN_RUNTIME_DIR/plan-XXXXXX.md")
   PLAN_FILE_USED="$plan_file"
   implement_prompt_file=$(mktemp)
-  review_file=$(mktemp)
+  review_dir=$(mktemp -d)
   diff_file=$(mktemp)
   commit_diff_file=$(mktemp)
   pr_diff_file=$(mktemp)
-  trap "rm -f '$prompt_file' '$implement_prompt_file' '$review_file' '$diff_file' '$commit_diff_file' '$pr_diff_file'" EXIT
+  trap "rm -f '$prompt_file' '$implement_prompt_file' '$diff_file' '$commit_diff_file' '$pr_diff_file' '$MODEL_CHOICES_FILE'; rm -rf '$review_dir'" EXIT
 
   printf '%s\n' "$USER_PROMPT" > "$prompt_file"
 
-  if [ "$SKIP_PLAN" -eq 1 ]; then
+  if resumes_past PLAN; then
+    if [ -n "$PLAN_TEXT" ]; then
+      printf '%s\n' "$PLAN_TEXT" > "$plan_file"
+      emit_event artifact kind plan path "$plan_file"
+    elif ! resumes_past IMPLEMENT; then
+      log_error "PLAN" "Cannot resume from IMPLEMENT without the previous run's plan"
+      return 1
+    fi
+  elif [ "$SKIP_PLAN" -eq 1 ]; then
+    emit_event phase_end phase PLAN status skipped
     log "PLAN" "Skipped (user-provided plan)"
     if [ -n "$PLAN_TEXT" ]; then
       printf '%s\n' "$PLAN_TEXT" > "$plan_file"
     elif [ -n "$PLAN_FILE_PATH" ] && [ -f "$PLAN_FILE_PATH" ]; then
       cp "$PLAN_FILE_PATH" "$plan_file"
     else
-      log "PLAN" "Error: --skip-plan requires --plan-file or OPENCODE_LOOP_PLAN_TEXT"
+      log_error "PLAN" "--skip-plan requires --plan-file or OPENCODE_LOOP_PLAN_TEXT"
       return 1
     fi
+    emit_event artifact kind plan path "$plan_file"
     log "PLAN" "Plan saved to $plan_file"
   else
     phase_start=$(date +%s)
-    log "PLAN" "Starting planning phase with model $MODEL_PLAN"
+    emit_event phase_start phase PLAN model "$(current_model PLAN)"
+    log "PLAN" "Starting planning phase with model $(current_model PLAN)"
     local plan_raw plan_clean plan_prompt
     plan_prompt=$(cat <<EOF
 You are running in non-interactive planning mode.
@@ -983,66 +1262,171 @@ User task:
 $USER_PROMPT
 EOF
 )
-    plan_raw=$(retry_with_backoff opencode run --agent plan -m "$MODEL_PLAN" -- "$plan_prompt") || return 1
+    plan_raw=$(agent_call PLAN --agent plan -- "$plan_prompt") || return 1
     plan_clean=$(cleanup_text_output "$plan_raw")
     if [ -z "$plan_clean" ]; then
+      emit_event error phase PLAN message "Planning output was empty."
       log "PLAN" "Planning output was empty."
       return 1
     fi
     printf '%s\n' "$plan_clean" > "$plan_file"
     phase_end=$(date +%s)
+    emit_event artifact kind plan path "$plan_file"
+    emit_event phase_end phase PLAN status completed duration:int "$((phase_end - phase_start))"
+    checkpoint_phase PLAN
     log "PLAN" "Completed in $((phase_end - phase_start))s. Plan saved to $plan_file"
+
+    if [ -n "${OPENCODE_LOOP_PLAN_APPROVAL_FILE:-}" ]; then
+      wait_for_plan_approval "$plan_file" || return 1
+    fi
   fi
 
-  phase_start=$(date +%s)
-  log "IMPLEMENT" "Starting implementation phase with model $MODEL_IMPLEMENT"
-  cat > "$implement_prompt_file" <<EOF
+  if ! resumes_past IMPLEMENT; then
+    phase_start=$(date +%s)
+    emit_event phase_start phase IMPLEMENT model "$(current_model IMPLEMENT)"
+    log "IMPLEMENT" "Starting implementation phase with model $(current_model IMPLEMENT)"
+    cat > "$implement_prompt_file" <<EOF
 Implement the following plan completely. Make all necessary code changes.
 
 Original task:
 $USER_PROMPT
 EOF
-  retry_with_backoff opencode run -m "$MODEL_IMPLEMENT" -f "$plan_file" -f "$implement_prompt_file" -- "Execute the attached plan in this repository. Use the second attachment as original task context." >/dev/null || return 1
-  phase_end=$(date +%s)
-  log "IMPLEMENT" "Completed in $((phase_end - phase_start))s"
-
-  phase_start=$(date +%s)
-  log "REVIEW" "Starting review phase with model $MODEL_REVIEW"
-  local changed_files
-  changed_files=$(git diff --name-only || true)
-  printf '%s\n' "$changed_files" > "$diff_file"
-  git diff >> "$diff_file"
-
-  local review_prompt review_raw review_clean
-  review_prompt="Review the following code changes critically. List specific issues (bugs, style, security, performance). If no issues, respond with exactly 'LGTM'. Format: one issue per line with file:line prefix."
-  review_raw=$(retry_with_backoff opencode run -m "$MODEL_REVIEW" -f "$diff_file" -- "$review_prompt") || return 1
-  review_clean=$(cleanup_text_output "$review_raw")
-  printf '%s\n' "$review_clean" > "$review_file"
-  phase_end=$(date +%s)
-  log "REVIEW" "Completed in $((phase_end - phase_start))s"
-
-  if ! echo "$review_clean" | grep -Eiq '^LGTM$'; then
-    phase_start=$(date +%s)
-    log "FIX" "Review found issues; running fix phase with model $MODEL_FIX"
-    retry_with_backoff opencode run -m "$MODEL_FIX" -f "$review_file" -- "Fix all the following code review issues in this codebase. Use only the attached review comments as input." >/dev/null || return 1
-    did_run_fix=1
+    agent_call IMPLEMENT -f "$plan_file" -f "$implement_prompt_file" -- "Execute the attached plan in this repository. Use the second attachment as original task context." >/dev/null || return 1
     phase_end=$(date +%s)
-    log "FIX" "Completed in $((phase_end - phase_start))s"
-  else
-    log "FIX" "Skipped fix phase because review response is LGTM"
+    emit_event phase_end phase IMPLEMENT status completed duration:int "$((phase_end - phase_start))"
+    checkpoint_phase IMPLEMENT
+    log "IMPLEMENT" "Completed in $((phase_end - phase_start))s"
+  fi
+
+  if ! resumes_past FIX; then
+    # Review -> fix -> re-review until the reviewer answers LGTM or the iteration cap is reached.
+    local iteration=1
+    local changed_files review_prompt review_raw review_clean
+    review_prompt="Review the following code changes critically. List specific issues (bugs, style, security, performance). If no issues, respond with exactly 'LGTM'. Format: one issue per line with file:line prefix."
+    while true; do
+      # Each iteration gets its own findings file, so the app never reads a later iteration's findings.
+      review_file="$review_dir/iteration-$iteration.md"
+      if [ "$iteration" -eq 1 ] && [ "$RESUME_FROM" = "FIX" ] && [ -n "$REVIEW_TEXT" ]; then
+        log "REVIEW" "Reusing review findings from the resumed run"
+        review_clean="$REVIEW_TEXT"
+        printf '%s\n' "$review_clean" > "$review_file"
+        emit_event artifact kind review path "$review_file"
+      else
+        phase_start=$(date +%s)
+        emit_event review_iteration iteration:int "$iteration" max:int "$MAX_REVIEW_ITERATIONS" status reviewing
+        emit_event phase_start phase REVIEW model "$(current_model REVIEW)"
+        log "REVIEW" "Starting review phase (iteration $iteration/$MAX_REVIEW_ITERATIONS) with model $(current_model REVIEW)"
+        changed_files=$(git diff --name-only || true)
+        printf '%s\n' "$changed_files" > "$diff_file"
+        git diff >> "$diff_file"
+        emit_event artifact kind diff path "$diff_file"
+
+        review_raw=$(agent_call REVIEW -f "$diff_file" -- "$review_prompt") || return 1
+        review_clean=$(cleanup_text_output "$review_raw")
+        printf '%s\n' "$review_clean" > "$review_file"
+        phase_end=$(date +%s)
+        emit_event artifact kind review path "$review_file"
+        emit_event phase_end phase REVIEW status completed duration:int "$((phase_end - phase_start))"
+        checkpoint_phase REVIEW
+        log "REVIEW" "Completed in $((phase_end - phase_start))s"
+      fi
+
+      if echo "$review_clean" | grep -Eiq '^LGTM$'; then
+        emit_event review_iteration iteration:int "$iteration" status lgtm findings "$review_file"
+        log "REVIEW" "Reviewer answered LGTM on iteration $iteration"
+        break
+      fi
+
+      emit_event review_iteration iteration:int "$iteration" status fixing findings "$review_file"
+      phase_start=$(date +%s)
+      emit_event phase_start phase FIX model "$(current_model FIX)"
+      log "FIX" "Review found issues; running fix phase (iteration $iteration/$MAX_REVIEW_ITERATIONS) with model $(current_model FIX)"
+      agent_call FIX -f "$review_file" -- "Fix all the following code review issues in this codebase. Use only the attached review comments as input." >/dev/null || return 1
+      did_run_fix=1
+      phase_end=$(date +%s)
+      emit_event phase_end phase FIX status completed duration:int "$((phase_end - phase_start))"
+      checkpoint_phase FIX
+      emit_event review_iteration iteration:int "$iteration" status fixed
+      log "FIX" "Completed in $((phase_end - phase_start))s"
+
+      if [ "$iteration" -ge "$MAX_REVIEW_ITERATIONS" ]; then
+        log "REVIEW" "Reached the review iteration cap ($MAX_REVIEW_ITERATIONS); continuing with the latest fixes"
+        break
+      fi
+      iteration=$((iteration + 1))
+    done
+
+    if [ "$did_run_fix" -eq 0 ]; then
+      emit_event phase_end phase FIX status skipped
+      log "FIX" "Skipped fix phase because review response is LGTM"
+    fi
   fi
 
-  log "COMMIT" "Preparing commit"
-  git add -A || return 1
+  if ! resumes_past VERIFY; then
+    # Verify -> fix -> re-verify until every verification command passes or the attempts run out.
+    local has_verify_commands=0 cmd
+    for cmd in ${VERIFY_COMMANDS[@]+"${VERIFY_COMMANDS[@]}"}; do
+      [ -n "$cmd" ] && has_verify_commands=1
+    done
 
-  if [ -z "$(git status --porcelain)" ]; then
-    log "COMMIT" "No changes after implementation/review. Nothing to commit."
-    return 1
+    if [ "$has_verify_commands" -eq 0 ]; then
+      emit_event phase_end phase VERIFY status skipped
+      log "VERIFY" "Skipped (no verification commands configured)"
+    else
+      local attempt=1 verify_dir verify_failures_file
+      # Kept in the workspace's git directory, so the output outlives the script for the app to read
+      # and is removed with the workspace, without ever being committed.
+      verify_dir="$(git -C "$TARGET_DIR" rev-parse --absolute-git-dir)/codeloop/verify"
+      mkdir -p "$verify_dir" || return 1
+      verify_failures_file="$verify_dir/failures.log"
+      while true; do
+        phase_start=$(date +%s)
+        emit_event phase_start phase VERIFY
+        log "VERIFY" "Running verification commands (attempt $attempt/$MAX_VERIFY_ATTEMPTS)"
+        if run_verify_commands "$attempt" "$verify_failures_file" "$verify_dir"; then
+          phase_end=$(date +%s)
+          emit_event phase_end phase VERIFY status completed duration:int "$((phase_end - phase_start))"
+          checkpoint_phase VERIFY
+          log "VERIFY" "Completed in $((phase_end - phase_start))s"
+          break
+        fi
+
+        phase_end=$(date +%s)
+        if [ "$attempt" -ge "$MAX_VERIFY_ATTEMPTS" ]; then
+          emit_event phase_end phase VERIFY status failed duration:int "$((phase_end - phase_start))"
+          log_error "VERIFY" "Verification commands still failing after $MAX_VERIFY_ATTEMPTS attempts"
+          return 1
+        fi
+
+        phase_start=$(date +%s)
+        emit_event phase_start phase FIX model "$(current_model FIX)"
+        log "FIX" "Verification failed; running fix phase (attempt $attempt/$MAX_VERIFY_ATTEMPTS) with model $(current_model FIX)"
+        agent_call FIX -f "$verify_failures_file" -- "The following verification commands fail in this repository. Fix the code so that they pass. Use the attached command output as input and do not weaken or skip the checks." >/dev/null || return 1
+        did_run_fix=1
+        phase_end=$(date +%s)
+        emit_event phase_end phase FIX status completed duration:int "$((phase_end - phase_start))"
+        checkpoint_phase FIX
+        log "FIX" "Completed in $((phase_end - phase_start))s"
+        attempt=$((attempt + 1))
+      done
+    fi
   fi
 
-  git diff --staged > "$commit_diff_file" || return 1
-  local commit_prompt commit_raw commit_msg
-  commit_prompt="Generate a concise conventional commit message based on the attached git diff.
+  if ! resumes_past COMMIT; then
+    phase_start=$(date +%s)
+    emit_event phase_start phase COMMIT model "$(current_model COMMIT)"
+    log "COMMIT" "Preparing commit"
+    git add -A || return 1
+
+    if [ -z "$(git status --porcelain)" ]; then
+      emit_event error phase COMMIT message "No changes after implementation/review. Nothing to commit."
+      log "COMMIT" "No changes after implementation/review. Nothing to commit."
+      return 1
+    fi
+
+    git diff --staged > "$commit_diff_file" || return 1
+    local commit_prompt commit_raw commit_msg
+    commit_prompt="Generate a concise conventional commit message based on the attached git diff.
 Follow these rules strictly:
 - Format: <type>: <description>
 - Allowed Types: feat, fix, chore, docs, style, refactor, perf, test.
@@ -1051,16 +1435,22 @@ Follow these rules strictly:
 - No Period: Do not end the subject line with a period.
 Output ONLY the raw commit message text. No markdown, no backticks, no quotes, no preamble, no explanation."
 
-  commit_raw=$(retry_with_backoff opencode run -m "$MODEL_COMMIT" -f "$commit_diff_file" -- "$commit_prompt") || return 1
-  commit_msg=$(cleanup_text_output "$commit_raw" | head -n 1)
-  if [ -z "$commit_msg" ]; then
-    commit_msg="chore: apply codeloop updates"
-  fi
+    commit_raw=$(agent_call COMMIT -f "$commit_diff_file" -- "$commit_prompt") || return 1
+    commit_msg=$(cleanup_text_output "$commit_raw" | head -n 1)
+    if [ -z "$commit_msg" ]; then
+      commit_msg="chore: apply codeloop updates"
+    fi
 
-  log "COMMIT" "Committing with message: $commit_msg"
-  git commit -m "$commit_msg" >/dev/null || return 1
+    log "COMMIT" "Committing with message: $commit_msg"
+    git commit -m "$commit_msg" >/dev/null || return 1
+    phase_end=$(date +%s)
+    emit_event phase_end phase COMMIT status completed duration:int "$((phase_end - phase_start))"
+    checkpoint_phase COMMIT
+  fi
 
   if [ "$SKIP_PR" -eq 1 ]; then
+    emit_event phase_end phase PUSH status skipped
+    emit_event phase_end phase PR status skipped
     log "PUSH" "Skipped (commit-only mode)"
     log "PR" "Skipped (commit-only mode)"
     log "DONE" "Commit completed in branch $BRANCH_NAME"
@@ -1068,14 +1458,15 @@ Output ONLY the raw commit message text. No markdown, no backticks, no quotes, n
     local finished_at
     finished_at=$(date +%s)
     log "DONE" "Total duration: $((finished_at - started_at))s"
-    report_model_costs "$did_run_fix"
     return 0
   fi
 
+  phase_start=$(date +%s)
+  emit_event phase_start phase PUSH
   log "PUSH" "Pushing branch $BRANCH_NAME"
   resolve_repo_and_push_target
   if [ -z "$REPO" ]; then
-    log "PUSH" "Error: Could not detect target GitHub repository for PR creation."
+    log_error "PUSH" "Could not detect target GitHub repository for PR creation."
     return 1
   fi
 
@@ -1085,26 +1476,30 @@ Output ONLY the raw commit message text. No markdown, no backticks, no quotes, n
   local base_ref head_ref
   if [ "$PUSH_TARGET" = "origin" ]; then
     if ! wait_for_remote_branch "$BRANCH_NAME"; then
-      log "PUSH" "Error: Branch '$BRANCH_NAME' was pushed but is not visible on origin."
+      log_error "PUSH" "Branch '$BRANCH_NAME' was pushed but is not visible on origin."
       return 1
     fi
 
-    retry_with_backoff git fetch origin "$MAIN_BRANCH" "$BRANCH_NAME" >/dev/null || return 1
-    base_ref="origin/$MAIN_BRANCH"
+    retry_with_backoff git fetch origin "$BASE_BRANCH" "$BRANCH_NAME" >/dev/null || return 1
+    base_ref="origin/$BASE_BRANCH"
     head_ref="origin/$BRANCH_NAME"
   else
-    base_ref="$MAIN_BRANCH"
+    base_ref="$BASE_BRANCH"
     head_ref="HEAD"
   fi
 
+  phase_end=$(date +%s)
+  emit_event phase_end phase PUSH status completed duration:int "$((phase_end - phase_start))"
+
   if ! branch_has_commits_ahead "$base_ref" "$head_ref"; then
-    log "PR" "Error: No commits ahead of $base_ref on $head_ref."
+    log_error "PR" "No commits ahead of $base_ref on $head_ref."
     return 1
   fi
 
   phase_start=$(date +%s)
-  log "PR" "Generating PR title and body with model $MODEL_PR"
-  git diff "$MAIN_BRANCH...HEAD" > "$pr_diff_file" || return 1
+  emit_event phase_start phase PR model "$(current_model PR)"
+  log "PR" "Generating PR title and body with model $(current_model PR)"
+  git diff "$base_ref...HEAD" > "$pr_diff_file" || return 1
 
   local pr_prompt pr_raw pr_clean title body
   pr_prompt="You are a tool that generates GitHub Pull Request descriptions.
@@ -1121,7 +1516,7 @@ Format:
 TITLE: <title>
 BODY: <body>"
 
-  pr_raw=$(retry_with_backoff opencode run -m "$MODEL_PR" -f "$pr_diff_file" -- "$pr_prompt") || return 1
+  pr_raw=$(agent_call PR -f "$pr_diff_file" -- "$pr_prompt") || return 1
   pr_clean=$(echo "$pr_raw" | strip_ansi | grep -v '^>' | sed '/^$/d')
 
   title=$(echo "$pr_clean" | grep -i "TITLE:" | head -n 1 | sed -E 's/^(\*\*)?[Tt][Ii][Tt][Ll][Ee]:(\*\*)?[[:space:]]*//')
@@ -1133,6 +1528,11 @@ BODY: <body>"
   if [ -z "$(echo "$body" | trim)" ]; then
     body="Automated update generated by CodeLoop."
   fi
+  if [ -n "$ISSUE_NUMBER" ] && ! printf '%s' "$body" | grep -qiE "(close|fix|resolve)[a-z]* #$ISSUE_NUMBER([^0-9]|$)"; then
+    body="$body
+
+Closes #$ISSUE_NUMBER"
+  fi
 
   local pr_head_ref="$BRANCH_NAME"
   if [ -n "$PUSH_BRANCH_OWNER" ]; then
@@ -1141,10 +1541,12 @@ BODY: <body>"
     pr_head_ref="$ORIGIN_OWNER:$BRANCH_NAME"
   fi
 
-  PR_URL=$(retry_with_backoff gh pr create --repo "$REPO" --base "$MAIN_BRANCH" --head "$pr_head_ref" --title "$title" --body "$body") || return 1
+  PR_URL=$(retry_with_backoff gh pr create --repo "$REPO" --base "$BASE_BRANCH" --head "$pr_head_ref" --title "$title" --body "$body") || return 1
   PR_URL=$(echo "$PR_URL" | tail -n 1 | trim)
 
   phase_end=$(date +%s)
+  emit_event pr url "$PR_URL" number:int "${PR_URL##*/}" title "$title" head "$BRANCH_NAME" base "$BASE_BRANCH"
+  emit_event phase_end phase PR status completed duration:int "$((phase_end - phase_start))"
   log "PR" "Completed in $((phase_end - phase_start))s"
   log "DONE" "PR created: $PR_URL"
 
@@ -1152,9 +1554,7 @@ BODY: <body>"
   finished_at=$(date +%s)
   log "DONE" "Total duration: $((finished_at - started_at))s"
 
-  report_model_costs "$did_run_fix"
-
-  if [ -n "$PR_URL" ]; then
+  if [ -n "$PR_URL" ] && [ "${OPENCODE_LOOP_KEEP_WORKSPACE:-false}" != "true" ]; then
     cleanup_workspace_on_success
   fi
 }
@@ -1266,6 +1666,7 @@ main() {
   fi
 
   load_config
+  init_model_choices
   preflight_checks
   detect_repo_context
 
@@ -1294,13 +1695,40 @@ main() {
     SKIP_PLAN=1
   fi
 
+  if [ -n "${OPENCODE_LOOP_ISSUE_NUMBER:-}" ]; then
+    ISSUE_NUMBER="$OPENCODE_LOOP_ISSUE_NUMBER"
+  fi
+
+  if [ -n "${OPENCODE_LOOP_RESUME_FROM:-}" ]; then
+    RESUME_FROM=$(printf '%s' "$OPENCODE_LOOP_RESUME_FROM" | tr '[:lower:]' '[:upper:]')
+    if [ "$(phase_order_index "$RESUME_FROM")" -lt 1 ] || [ -z "${OPENCODE_LOOP_BRANCH_NAME:-}" ]; then
+      echo "Error: OPENCODE_LOOP_RESUME_FROM requires OPENCODE_LOOP_BRANCH_NAME and a phase after CLONE"
+      exit 1
+    fi
+    REVIEW_TEXT="${OPENCODE_LOOP_REVIEW_TEXT:-}"
+  fi
+
   if [ -n "${OPENCODE_LOOP_BRANCH_NAME:-}" ]; then
     BRANCH_NAME="$OPENCODE_LOOP_BRANCH_NAME"
   else
     generate_branch_name
+    # Keeps the branches and workspaces of runs started for the same prompt apart.
+    if [ -n "${OPENCODE_LOOP_BRANCH_SUFFIX:-}" ]; then
+      BRANCH_NAME="$BRANCH_NAME-$OPENCODE_LOOP_BRANCH_SUFFIX"
+    fi
+  fi
+
+  if [ -z "$RESUME_FROM" ] && [ "${__OPENCODE_LOOP_BG:-0}" != "1" ]; then
+    claim_target_paths || exit 1
+  else
+    setup_target_paths
   fi
+  emit_event hello script development-auto-pr
 
-  setup_target_paths
+  if [ -n "$RESUME_FROM" ] && [ "${__OPENCODE_LOOP_BG:-0}" != "1" ] && [ -f "$LOG_FILE" ]; then
+    # Start a fresh log for the resumed run; the previous run's log stays in the app's history.
+    : > "$LOG_FILE"
+  fi
 
   if [ "$RUN_MODE" = "bg" ] && [ "${__OPENCODE_LOOP_BG:-0}" != "1" ]; then
     mkdir -p "$TARGET_DIR"
@@ -1314,6 +1742,7 @@ main() {
       "$0" --fg --config "$CONFIG_FILE" >/dev/null 2>&1 &
     pid=$!
     disown "$pid" || true
+    emit_event background pid:int "$pid" log "$LOG_FILE"
     echo "Running in background. Log: $LOG_FILE. PID: $pid"
     exit 0
   fi
@@ -1322,20 +1751,25 @@ main() {
   trap cleanup_opencode_runtime_config EXIT
 
   if ! setup_opencode_runtime_config; then
-    log "INIT" "Error: failed to prepare OpenCode runtime config override"
+    log_error "INIT" "failed to prepare OpenCode runtime config override"
     exit 1
   fi
 
   log "INIT" "Starting CodeLoop pipeline"
   log "INIT" "Repo: $REPO"
   log "INIT" "Main branch: $MAIN_BRANCH"
+  if [ "$BASE_BRANCH" != "$MAIN_BRANCH" ]; then
+    log "INIT" "Base branch: $BASE_BRANCH"
+  fi
+  emit_event branch name "$BRANCH_NAME" base "$BASE_BRANCH"
   log "INIT" "Target branch: $BRANCH_NAME"
-  log "INIT" "Workspace dir: $TARGET_DIR"
+  log "INIT" "Workspace dir: $TARGET_DIR ($WORKSPACE_STRATEGY)"
   if [ "$AUTO_APPROVE_EXTERNAL_DIRECTORY" = "true" ]; then
     log "INIT" "External-directory access auto-approval enabled"
   fi
 
   if run_pipeline; then
+    emit_event run_end status completed
     cleanup_plan_file
     if [ "$SKIP_PR" -eq 1 ]; then
       notify_success "Commit completed in $TARGET_DIR"
@@ -1343,6 +1777,7 @@ main() {
       notify_success "$PR_URL"
     fi
   else
+    emit_event run_end status failed
     cleanup_plan_file
     notify_error "CodeLoop run failed. Check log: $LOG_FILE"
     exit 1
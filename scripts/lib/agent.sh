@@ -0,0 +1,171 @@
+#!/usr/bin/env bash
+# Agent helpers shared by the workflow scripts; they expect AGENT_BACKEND, AGENT_COMMAND and
+# AGENT_ARGS to be set, and log, emit_event, MODEL_FALLBACK_TIMEOUT and MODEL_CHOICES_FILE for
+# model fallbacks.
+
+# Runs a prompt with the configured agent backend in the current directory:
+# agent_run -m <model> [--agent <name>] [-f <file>]... -- <prompt>
+# --agent selects an OpenCode agent and is ignored by the command backend. The command backend
+# gets the prompt with the attachments appended, as CLIs differ in how they take files. It is
+# passed as a file for a {promptFile} argument, as text for a {prompt} argument and on stdin
+# otherwise; large attachments can exceed the argument size limit as {prompt}.
+agent_run() {
+  local model="" agent="" prompt file arg
+  local files=()
+  while [ $# -gt 0 ]; do
+    case "$1" in
+      -m) model="$2"; shift 2 ;;
+      --agent) agent="$2"; shift 2 ;;
+      -f) files+=("$2"); shift 2 ;;
+      --) shift; break ;;
+      *) break ;;
+    esac
+  done
+  prompt="$1"
+
+  if [ "$AGENT_BACKEND" = "command" ]; then
+    local prompt_file status=0 prompt_input=1
+    local args=()
+    prompt_file=$(mktemp)
+    {
+      printf '%s' "$prompt"
+      for file in ${files[@]+"${files[@]}"}; do
+        printf '\n\n--- Attachment: %s ---\n' "$(basename "$file")"
+        cat "$file"
+      done
+    } > "$prompt_file"
+    for arg in ${AGENT_ARGS[@]+"${AGENT_ARGS[@]}"}; do
+      if [[ "$arg" == *"{promptFile}"* || "$arg" == *"{prompt}"* ]]; then
+        prompt_input=0
+      fi
+      arg="${arg//\{model\}/"$model"}"
+      arg="${arg//\{promptFile\}/"$prompt_file"}"
+      if [[ "$arg" == *"{prompt}"* ]]; then
+        arg="${arg//\{prompt\}/"$(cat "$prompt_file")"}"
+      fi
+      args+=("$arg")
+    done
+    if [ "$prompt_input" -eq 1 ]; then
+      "$AGENT_COMMAND" ${args[@]+"${args[@]}"} < "$prompt_file" || status=$?
+    else
+      "$AGENT_COMMAND" ${args[@]+"${args[@]}"} < /dev/null || status=$?
+    fi
+    rm -f "$prompt_file"
+    return "$status"
+  fi
+
+  local args=(run)
+  [ -n "$agent" ] && args+=(--agent "$agent")
+  args+=(-m "$model")
+  for file in ${files[@]+"${files[@]}"}; do
+    args+=(-f "$file")
+  done
+  opencode "${args[@]}" -- "$prompt"
+}
+
+# Model a slot (PLAN, IMPLEMENT, ...) runs with: MODEL_<slot>, or the last fallback the app
+# chose for it in this run.
+current_model() {
+  local slot="$1"
+  local var_name="MODEL_$slot"
+  local chosen=""
+
+  if [ -n "$MODEL_CHOICES_FILE" ] && [ -f "$MODEL_CHOICES_FILE" ]; then
+    chosen=$(grep "^$slot=" "$MODEL_CHOICES_FILE" | tail -n 1 | cut -d= -f2- || true)
+  fi
+  echo "${chosen:-${!var_name}}"
+}
+
+# Fallbacks are recorded in a file so command substitutions and the background run see them.
+init_model_choices() {
+  if [ -z "${OPENCODE_LOOP_MODEL_CHOICES_FILE:-}" ]; then
+    OPENCODE_LOOP_MODEL_CHOICES_FILE=$(mktemp)
+    export OPENCODE_LOOP_MODEL_CHOICES_FILE
+  fi
+  MODEL_CHOICES_FILE="$OPENCODE_LOOP_MODEL_CHOICES_FILE"
+}
+
+# Asks the app which model a slot continues with after its model failed for <reason>
+# (unsupported, rate-limited or failing). The app answers in $OPENCODE_LOOP_MODEL_FALLBACK_FILE
+# with a model, possibly the same one to retry, or an empty line when the slot's fallback chain
+# is used up. Without the app there are no fallbacks. Logs go to stderr, as agent calls run in
+# command substitutions.
+request_model_fallback() {
+  local slot="$1"
+  local model="$2"
+  local reason="$3"
+  local answer_file="${OPENCODE_LOOP_MODEL_FALLBACK_FILE:-}"
+  local waited=0
+  local next
+
+  [ -n "$answer_file" ] || return 1
+
+  rm -f "$answer_file"
+  emit_event model_fallback_request slot "$slot" model "$model" reason "$reason"
+  log "MODEL" "$slot model $model is $reason; waiting for a fallback" >&2
+  while [ ! -f "$answer_file" ]; do
+    if [ "$waited" -ge "$MODEL_FALLBACK_TIMEOUT" ]; then
+      log "MODEL" "No fallback answer for $slot after ${MODEL_FALLBACK_TIMEOUT}s" >&2
+      return 1
+    fi
+    sleep 1
+    waited=$((waited + 1))
+  done
+  next=$(head -n 1 "$answer_file" | tr -d '[:space:]')
+  rm -f "$answer_file"
+
+  if [ -z "$next" ]; then
+    log "MODEL" "No fallback model left for $slot" >&2
+    return 1
+  fi
+  if [ "$next" = "$model" ]; then
+    log "MODEL" "Retrying $slot with $model" >&2
+  else
+    log "MODEL" "$slot continues with $next" >&2
+  fi
+  printf '%s=%s\n' "$slot" "$next" >> "$MODEL_CHOICES_FILE"
+}
+
+# Sorts the output of a failed agent call for the app's model fallback policy.
+classify_agent_failure() {
+  local output="$1"
+
+  if echo "$output" | grep -Eiq 'http[[:space:]]*429|rate.?limit|too many requests|quota|overloaded'; then
+    echo "rate-limited"
+  elif echo "$output" | grep -Eiq '(unknown|unsupported|invalid) model|model[^[:cntrl:]]{0,60}(not found|not supported|unsupported|does not exist|not available)'; then
+    echo "unsupported"
+  else
+    echo "failing"
+  fi
+}
+
+# A token count from the usage an agent reports on its last JSON line with a "usage" field, e.g.
+# `{"type":"result","usage":{"input_tokens":1200,"output_tokens":340}}`; prints nothing when it
+# reports none. The rest of the output, like diffs the agent prints, is not parsed:
+# agent_token_count <output> <input|output>
+agent_token_count() {
+  local output="$1"
+  local names="output_tokens|completion_tokens|outputTokens|completionTokens"
+  [ "$2" = "input" ] && names="input_tokens|prompt_tokens|inputTokens|promptTokens"
+
+  echo "$output" \
+    | grep -E '^\{.*"usage"' \
+    | tail -n 1 \
+    | grep -Eo "\"($names)\"[[:space:]]*:[[:space:]]*[0-9]+" \
+    | head -n 1 \
+    | grep -Eo '[0-9]+$' || true
+}
+
+# Reports an agent call for the app's cost accounting:
+# report_agent_usage <slot> <model> <completed|failed> <seconds> <output>
+report_agent_usage() {
+  local slot="$1" model="$2" status="$3" duration="$4" output="$5"
+  local input_tokens output_tokens
+  input_tokens=$(agent_token_count "$output" input)
+  output_tokens=$(agent_token_count "$output" output)
+
+  local fields=(slot "$slot" model "$model" status "$status" duration:int "$duration")
+  [ -n "$input_tokens" ] && fields+=(inputTokens:int "$input_tokens")
+  [ -n "$output_tokens" ] && fields+=(outputTokens:int "$output_tokens")
+  emit_event usage "${fields[@]}"
+}
@@ -0,0 +1,38 @@
+#!/usr/bin/env bash
+# Run event helpers shared by the workflow scripts; custom scripts can source this file.
+
+json_escape() {
+  local value
+  value=$(printf '%s' "$1" | tr -d '\000-\010\013\014\016-\037')
+  value=${value//\\/\\\\}
+  value=${value//\"/\\\"}
+  value=${value//$'\n'/\\n}
+  value=${value//$'\r'/\\r}
+  value=${value//$'\t'/\\t}
+  printf '%s' "$value"
+}
+
+# Appends a versioned NDJSON event for the app: emit_event <type> [key value]...
+# Values are written as JSON strings. A key ending in `:int`, e.g. `duration:int 12`, writes its
+# value as a JSON number; a value that is not a plain integer is still written as a string.
+emit_event() {
+  [ -n "${OPENCODE_LOOP_EVENTS_FILE:-}" ] || return 0
+  local type="$1"
+  shift
+  local payload key value
+  payload="{\"v\":1,\"ts\":\"$(date '+%Y-%m-%d %H:%M:%S')\",\"type\":\"$type\""
+  while [ $# -ge 2 ]; do
+    key="$1"
+    value="$2"
+    shift 2
+    if [[ "$key" == *:int ]]; then
+      key="${key%:int}"
+      if [[ "$value" =~ ^(0|-?[1-9][0-9]*)$ ]]; then
+        payload+=",\"$key\":$value"
+        continue
+      fi
+    fi
+    payload+=",\"$key\":\"$(json_escape "$value")\""
+  done
+  printf '%s}\n' "$payload" >> "$OPENCODE_LOOP_EVENTS_FILE" 2>/dev/null || true
+}
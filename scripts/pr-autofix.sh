@@ -6,12 +6,28 @@ fi
 
 set -euo pipefail
 
+SCRIPT_DIR=$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)
+# shellcheck source=lib/events.sh
+source "$SCRIPT_DIR/lib/events.sh"
+# shellcheck source=lib/agent.sh
+source "$SCRIPT_DIR/lib/agent.sh"
+
 # git-autofix: Find PR review findings from github-actions bot, fix them with
-#              opencode (fix model), then commit, push, wait for
+#              the agent CLI (fix model), then commit, push, wait for
 #              required PR checks, and auto-merge (unless --skip-merge).
 
 DEFAULT_MODEL_FIX="github-copilot/claude-sonnet-4.6"
 MODEL_FIX="${OPENCODE_LOOP_MODEL_FIX:-$DEFAULT_MODEL_FIX}"
+# Seconds to wait for the app to answer a model fallback request.
+MODEL_FALLBACK_TIMEOUT=300
+MODEL_CHOICES_FILE=""
+# opencode, or command: OPENCODE_LOOP_AGENT_COMMAND with OPENCODE_LOOP_AGENT_ARGS (one per line)
+AGENT_BACKEND="${OPENCODE_LOOP_AGENT_BACKEND:-opencode}"
+AGENT_COMMAND="${OPENCODE_LOOP_AGENT_COMMAND:-}"
+AGENT_ARGS=()
+while IFS= read -r agent_arg; do
+  [ -n "$agent_arg" ] && AGENT_ARGS+=("$agent_arg")
+done <<< "${OPENCODE_LOOP_AGENT_ARGS:-}"
 SKIP_MERGE=0
 TARGET_BRANCH=""
 
@@ -23,6 +39,35 @@ log() {
   echo "[$ts] [$step] $*"
 }
 
+# Runs a prompt with the fix model, reports each call for the app's cost accounting and moves on
+# to the fallbacks the app picks when the model fails: agent_call [-f <file>]... -- <prompt>
+# The agent's output is streamed to stderr as it runs and printed on stdout once it is done.
+agent_call() {
+  local model started status output output_file
+  output_file=$(mktemp)
+
+  while true; do
+    model=$(current_model FIX)
+    started=$SECONDS
+    status=0
+    agent_run -m "$model" "$@" 2>&1 | tee "$output_file" >&2 || status=$?
+    output=$(cat "$output_file")
+
+    if [ "$status" -eq 0 ]; then
+      report_agent_usage FIX "$model" completed "$((SECONDS - started))" "$output"
+      rm -f "$output_file"
+      echo "$output"
+      return 0
+    fi
+    report_agent_usage FIX "$model" failed "$((SECONDS - started))" "$output"
+
+    if ! request_model_fallback FIX "$model" "$(classify_agent_failure "$output")"; then
+      rm -f "$output_file"
+      return "$status"
+    fi
+  done
+}
+
 usage() {
   cat <<'EOF'
 Usage:
@@ -41,6 +86,7 @@ EOF
 fail() {
   local phase="$1"
   shift
+  emit_event error phase "$phase" message "$*"
   log "$phase" "Error: $*"
   exit 1
 }
@@ -74,9 +120,20 @@ while [ $# -gt 0 ]; do
 done
 
 cleanup() {
-  rm -f "${REVIEW_FILE:-}" "${FILTERED_REVIEW_FILE:-}" "${CHANGED_FILES_FILE:-}" "${DIFF_FILE:-}" "${RAW_COMMENTS_FILE:-}" "${COMMENTS_JSON_FILE:-}"
+  local exit_code=$?
+  rm -f "${REVIEW_FILE:-}" "${FILTERED_REVIEW_FILE:-}" "${CHANGED_FILES_FILE:-}" "${DIFF_FILE:-}" "${RAW_COMMENTS_FILE:-}" "${COMMENTS_JSON_FILE:-}" "$MODEL_CHOICES_FILE"
+  if [ "$exit_code" -eq 0 ]; then
+    emit_event run_end status completed
+  else
+    emit_event run_end status failed
+  fi
 }
 trap cleanup EXIT
+init_model_choices
+
+init_started_at=$(date +%s)
+emit_event hello script pr-autofix
+emit_event phase_start phase INIT
 
 # ---------------------------------------------------------------------------
 # Pre-flight checks
@@ -84,7 +141,9 @@ trap cleanup EXIT
 
 git rev-parse --is-inside-work-tree >/dev/null 2>&1 || fail "INIT" "Not a git repository."
 
-for cmd in gh opencode jq; do
+AGENT_CLI="opencode"
+[ "$AGENT_BACKEND" = "command" ] && AGENT_CLI="$AGENT_COMMAND"
+for cmd in gh "$AGENT_CLI" jq; do
   if ! command -v "$cmd" &> /dev/null; then
     fail "INIT" "$cmd is not installed."
   fi
@@ -118,6 +177,7 @@ if [[ "$BRANCH" == "main" || "$BRANCH" == "master" ]]; then
   fail "INIT" "Current branch is $BRANCH. Switch to a feature branch with an open PR."
 fi
 
+emit_event branch name "$BRANCH"
 log "INIT" "Target branch: $BRANCH"
 started_at=$(date +%s)
 
@@ -133,6 +193,7 @@ fi
 PR_NUMBER=$(echo "$PR_JSON" | jq -r '.number')
 PR_URL=$(echo "$PR_JSON" | jq -r '.url')
 PR_BASE_REF=$(echo "$PR_JSON" | jq -r '.baseRefName // empty')
+emit_event pr url "$PR_URL" number:int "$PR_NUMBER" head "$BRANCH" base "$PR_BASE_REF"
 log "INIT" "Found PR #$PR_NUMBER: $PR_URL"
 
 REPO=$(gh repo view --json nameWithOwner -q .nameWithOwner 2>/dev/null)
@@ -144,7 +205,10 @@ fi
 # 2. Fetch github-actions bot comment that contains "Findings"
 # ---------------------------------------------------------------------------
 
+emit_event phase_end phase INIT status completed duration:int "$(($(date +%s) - init_started_at))"
+
 phase_start=$(date +%s)
+emit_event phase_start phase REVIEW
 log "REVIEW" "Starting findings retrieval from PR comments"
 RAW_COMMENTS_FILE=$(mktemp)
 COMMENTS_JSON_FILE=$(mktemp)
@@ -202,6 +266,7 @@ REVIEW_COMMENT=$(echo "$REVIEW_COMMENT_JSON" | jq -r '.body // empty')
 REVIEW_COMMENT_NODE_ID=$(echo "$REVIEW_COMMENT_JSON" | jq -r '.node_id // empty')
 
 if [ -z "$REVIEW_COMMENT" ]; then
+  emit_event error phase REVIEW message "No github-actions comment with 'Findings' found on PR #$PR_NUMBER."
   log "REVIEW" "No github-actions comment with 'Findings' found on PR #$PR_NUMBER."
   log "REVIEW" "Available github-actions comments:"
   jq -r '
@@ -314,10 +379,12 @@ fi
 fi
 
 phase_end=$(date +%s)
+emit_event artifact kind review path "$REVIEW_FILE"
+emit_event phase_end phase REVIEW status completed duration:int "$((phase_end - phase_start))"
 log "REVIEW" "Completed in $((phase_end - phase_start))s"
 
 # ---------------------------------------------------------------------------
-# 3. Use opencode (Claude Sonnet 4.6) to fix the review findings + lint/build
+# 3. Use the agent CLI (fix model) to fix the review findings + lint/build
 # ---------------------------------------------------------------------------
 
 PROMPT="You are a senior developer fixing code review findings from a CI bot on a GitHub Pull Request.
@@ -336,13 +403,14 @@ Rules:
 - Do NOT delete or rename files unless a finding explicitly asks for it."
 
 phase_start=$(date +%s)
-log "FIX" "Starting fix phase with model $MODEL_FIX"
-opencode run \
-  -m "$MODEL_FIX" \
+emit_event phase_start phase FIX model "$(current_model FIX)"
+log "FIX" "Starting fix phase with model $(current_model FIX)"
+agent_call \
   -f "$REVIEW_FILE" \
-  -- "$PROMPT"
+  -- "$PROMPT" > /dev/null
 
 phase_end=$(date +%s)
+emit_event phase_end phase FIX status completed duration:int "$((phase_end - phase_start))"
 log "FIX" "Completed in $((phase_end - phase_start))s"
 
 # ---------------------------------------------------------------------------
@@ -350,8 +418,10 @@ log "FIX" "Completed in $((phase_end - phase_start))s"
 # ---------------------------------------------------------------------------
 
 phase_start=$(date +%s)
+emit_event phase_start phase COMMIT model "$(current_model FIX)"
 log "COMMIT" "Preparing commit"
 if [ -z "$(git status --porcelain)" ]; then
+  emit_event phase_end phase COMMIT status completed duration:int "$(($(date +%s) - phase_start))"
   log "COMMIT" "No file changes were made. Nothing to commit"
   finished_at=$(date +%s)
   log "DONE" "PR unchanged: $PR_URL"
@@ -370,10 +440,9 @@ These changes fix code review findings from a CI bot on a GitHub Pull Request.
 Format: fix: <description>
 Output ONLY the raw commit message text. No markdown, no backticks, no quotes, no preamble."
 
-RAW_MSG=$(opencode run \
-  -m "$MODEL_FIX" \
+RAW_MSG=$(agent_call \
   -f "$DIFF_FILE" \
-  -- "$COMMIT_PROMPT" 2>&1)
+  -- "$COMMIT_PROMPT")
 
 COMMIT_MSG=$(echo "$RAW_MSG" \
   | sed 's/\x1b\[[0-9;]*m//g' \
@@ -391,12 +460,15 @@ log "COMMIT" "Committing with message: $COMMIT_MSG"
 git commit -m "$COMMIT_MSG"
 
 phase_end=$(date +%s)
+emit_event phase_end phase COMMIT status completed duration:int "$((phase_end - phase_start))"
 log "COMMIT" "Completed in $((phase_end - phase_start))s"
 
 phase_start=$(date +%s)
+emit_event phase_start phase PUSH
 log "PUSH" "Pushing branch $BRANCH"
 git push origin "$BRANCH"
 phase_end=$(date +%s)
+emit_event phase_end phase PUSH status completed duration:int "$((phase_end - phase_start))"
 log "PUSH" "Completed in $((phase_end - phase_start))s"
 
 log "DONE" "PR updated: $PR_URL"
@@ -405,6 +477,7 @@ log "DONE" "PR updated: $PR_URL"
 # 5. Mark the github-actions findings comment as resolved (minimized)
 # ---------------------------------------------------------------------------
 
+emit_event phase_start phase PR
 if [ -n "$REVIEW_COMMENT_NODE_ID" ]; then
   log "PR" "Marking findings comment as resolved"
   gh api graphql -f query="
@@ -425,6 +498,7 @@ phase_start=$(date +%s)
 if [ "$SKIP_MERGE" -eq 1 ]; then
   log "PR" "Skipped waiting for checks and auto-merge (--skip-merge enabled)"
   phase_end=$(date +%s)
+  emit_event phase_end phase PR status completed duration:int "$((phase_end - phase_start))"
   log "PR" "Completed in $((phase_end - phase_start))s"
   finished_at=$(date +%s)
   log "DONE" "Total duration: $((finished_at - started_at))s"
@@ -444,6 +518,7 @@ else
 fi
 
 phase_end=$(date +%s)
+emit_event phase_end phase PR status completed duration:int "$((phase_end - phase_start))"
 log "PR" "Completed in $((phase_end - phase_start))s"
 finished_at=$(date +%s)
 log "DONE" "Total duration: $((finished_at - started_at))s"
@@ -0,0 +1,272 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { loadConfig } from './config-manager';
+import type {
+  AgentBackendId,
+  AppConfig,
+  CommandAgentConfig,
+  ModelProviderReadiness,
+  ToolReadiness,
+} from '../shared/types';
+
+const execFileAsync = promisify(execFile);
+
+export interface AgentPrompt {
+  model: string;
+  prompt: string;
+  /** Files the agent reads alongside the prompt. */
+  attachments?: string[];
+  cwd: string;
+  timeout: number;
+}
+
+/** A coding-agent CLI that runs prompts against a working copy. */
+export interface AgentBackend {
+  id: AgentBackendId;
+  name: string;
+  listModels(): Promise<string[]>;
+  /** Runs the prompt non-interactively in `cwd` and resolves with the agent's output. */
+  runPrompt(request: AgentPrompt): Promise<string>;
+  checkReadiness(): Promise<AgentBackendReadiness>;
+  /** Environment that points `agent_run` in the workflow scripts at this backend. */
+  scriptEnv(): Record<string, string>;
+}
+
+export type AgentBackendReadiness = ToolReadiness & {
+  providers: ModelProviderReadiness[];
+};
+
+type ProbeResult = {
+  found: boolean;
+  ok: boolean;
+  output: string;
+};
+
+async function probe(command: string, args: string[]): Promise<ProbeResult> {
+  try {
+    const { stdout, stderr } = await execFileAsync(command, args, { timeout: 15000, maxBuffer: 1024 * 1024 });
+    return { found: true, ok: true, output: [stdout.trim(), stderr.trim()].filter(Boolean).join('\n') };
+  } catch (err) {
+    const error = err as NodeJS.ErrnoException & { stdout?: string; stderr?: string };
+    return {
+      found: error.code !== 'ENOENT',
+      ok: false,
+      output: [error.stdout?.trim(), error.stderr?.trim()].filter(Boolean).join('\n'),
+    };
+  }
+}
+
+/** Lines of `opencode models <provider>` output that name one of the provider's models. */
+function parseProviderModels(provider: string, output: string): string[] {
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith(`${provider}/`));
+}
+
+async function checkProvider(provider: string): Promise<ModelProviderReadiness> {
+  const result = await probe('opencode', ['models', provider]);
+  const modelCount = parseProviderModels(provider, result.output).length;
+  return {
+    id: provider,
+    ready: modelCount > 0,
+    modelCount,
+    details: modelCount > 0 ? null : result.output || `Unable to list OpenCode models for ${provider}.`,
+  };
+}
+
+/** Checks each provider on its own, so one that is not signed in does not hide the others. */
+export function checkModelProviders(providers: string[]): Promise<ModelProviderReadiness[]> {
+  return Promise.all(providers.map(checkProvider));
+}
+
+function createOpencodeBackend(providers: string[]): AgentBackend {
+  return {
+    id: 'opencode',
+    name: 'OpenCode CLI',
+
+    async listModels() {
+      const lists = await Promise.all(
+        providers.map(async (provider) => {
+          try {
+            const { stdout } = await execFileAsync('opencode', ['models', provider], { timeout: 30000 });
+            return parseProviderModels(provider, stdout);
+          } catch {
+            return [];
+          }
+        })
+      );
+      return [...new Set(lists.flat())].sort();
+    },
+
+    async runPrompt({ model, prompt, attachments = [], cwd, timeout }) {
+      const files = attachments.flatMap((file) => ['-f', file]);
+      const { stdout } = await execFileAsync('opencode', ['run', '-m', model, ...files, '--', prompt], {
+        cwd,
+        timeout,
+        maxBuffer: 16 * 1024 * 1024,
+      });
+      return stdout;
+    },
+
+    async checkReadiness() {
+      const version = await probe('opencode', ['--version']);
+      if (!version.found) {
+        return {
+          installed: false,
+          authenticated: false,
+          hint: 'Install OpenCode CLI, then authenticate your provider account',
+          details: null,
+          providers: [],
+        };
+      }
+      if (providers.length === 0) {
+        return {
+          installed: true,
+          authenticated: false,
+          hint: 'Enable at least one model provider in Settings',
+          details: null,
+          providers: [],
+        };
+      }
+
+      // Runs can use the models of any ready provider, so only all of them failing blocks launching.
+      const results = await checkModelProviders(providers);
+      const failed = results.filter((result) => !result.ready);
+      const authenticated = failed.length < results.length;
+
+      return {
+        installed: true,
+        authenticated,
+        hint: authenticated
+          ? 'Ready'
+          : `Authenticate OpenCode CLI so model listing works for ${failed.map((result) => result.id).join(', ')}`,
+        details: authenticated ? null : failed.map((result) => `${result.id}: ${result.details}`).join('\n'),
+        providers: results,
+      };
+    },
+
+    scriptEnv() {
+      return {
+        OPENCODE_LOOP_AGENT_BACKEND: 'opencode',
+        OPENCODE_LOOP_MODEL_PROVIDERS: providers.join('\n'),
+      };
+    },
+  };
+}
+
+/** The prompt with the attachments appended, as CLIs differ in how they take files. */
+function inlineAttachments(prompt: string, attachments: string[]): string {
+  return [
+    prompt,
+    ...attachments.map((file) => `--- Attachment: ${path.basename(file)} ---\n${fs.readFileSync(file, 'utf-8')}`),
+  ].join('\n\n');
+}
+
+function createCommandBackend(agent: CommandAgentConfig): AgentBackend {
+  const command = agent.command.trim();
+
+  return {
+    id: 'command',
+    name: command ? `${command} CLI` : 'Agent CLI',
+
+    async listModels() {
+      return [...agent.models].sort();
+    },
+
+    async runPrompt({ model, prompt, attachments = [], cwd, timeout }) {
+      const fullPrompt = inlineAttachments(prompt, attachments);
+      // Attachments can make the prompt too large for an argument, so it goes to stdin unless an argument asks for it.
+      const promptInput = !agent.args.some((arg) => arg.includes('{prompt}') || arg.includes('{promptFile}'));
+      const promptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codeloop-prompt-'));
+      const promptFile = path.join(promptDir, 'prompt.md');
+      try {
+        fs.writeFileSync(promptFile, fullPrompt, 'utf-8');
+        const args = agent.args.map((arg) =>
+          arg.replace(/\{model\}|\{promptFile\}|\{prompt\}/g, (token) =>
+            token === '{model}' ? model : token === '{promptFile}' ? promptFile : fullPrompt
+          )
+        );
+        const pending = execFileAsync(command, args, { cwd, timeout, maxBuffer: 16 * 1024 * 1024 });
+        // The CLI may exit without reading its input.
+        pending.child.stdin?.on('error', () => {});
+        pending.child.stdin?.end(promptInput ? fullPrompt : '');
+        const { stdout } = await pending;
+        return stdout;
+      } finally {
+        fs.rmSync(promptDir, { recursive: true, force: true });
+      }
+    },
+
+    async checkReadiness() {
+      if (!command) {
+        return {
+          installed: false,
+          authenticated: false,
+          hint: 'Set the agent command in Settings',
+          details: null,
+          providers: [],
+        };
+      }
+
+      const version = await probe(command, ['--version']);
+      if (!version.found) {
+        return {
+          installed: false,
+          authenticated: false,
+          hint: `Install ${command} or change the agent command in Settings`,
+          details: null,
+          providers: [],
+        };
+      }
+
+      // A CLI cannot be asked whether it is signed in without spending a prompt, so readiness
+      // only requires models to pick from.
+      const ready = agent.models.length > 0;
+      return {
+        installed: true,
+        authenticated: ready,
+        hint: ready ? 'Ready' : 'Add the models the CLI can run in Settings',
+        details: null,
+        providers: [],
+      };
+    },
+
+    scriptEnv() {
+      return {
+        OPENCODE_LOOP_AGENT_BACKEND: 'command',
+        OPENCODE_LOOP_AGENT_COMMAND: command,
+        OPENCODE_LOOP_AGENT_ARGS: agent.args.join('\n'),
+      };
+    },
+  };
+}
+
+function createAgentBackend(id: AgentBackendId, config: AppConfig): AgentBackend {
+  return id === 'command' ? createCommandBackend(config.commandAgent) : createOpencodeBackend(config.modelProviders);
+}
+
+/** The backend runs use. */
+export function getAgentBackend(config: AppConfig = loadConfig()): AgentBackend {
+  return createAgentBackend(config.agentBackend, config);
+}
+
+/**
+ * The backend runs use, then every other backend that is set up: OpenCode with a model provider
+ * enabled, or an agent command.
+ */
+export function getEnabledAgentBackends(config: AppConfig = loadConfig()): AgentBackend[] {
+  const enabled: Record<AgentBackendId, boolean> = {
+    opencode: config.modelProviders.length > 0,
+    command: config.commandAgent.command.trim() !== '',
+  };
+  const others = (Object.keys(enabled) as AgentBackendId[]).filter((id) => id !== config.agentBackend && enabled[id]);
+  return [getAgentBackend(config), ...others.map((id) => createAgentBackend(id, config))];
+}
+
+export function listAgentModels(): Promise<string[]> {
+  return getAgentBackend().listModels();
+}
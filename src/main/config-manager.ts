@@ -1,51 +1,291 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { PREDEFINED_WORKFLOWS } from '../shared/types';
-import type { AppConfig, ModelConfig, WorkflowDefinition } from '../shared/types';
+import { DEFAULT_WORKFLOW_PHASES, PREDEFINED_WORKFLOWS } from '../shared/types';
+import { normalizeModelOverrides } from '../shared/model-chains';
+import type {
+  AppConfig,
+  CommandAgentConfig,
+  CostBudget,
+  CostMultiplier,
+  ModelConfig,
+  WorkflowDefinition,
+  WorkflowParameter,
+  WorkflowParameterCondition,
+  WorkflowParameterMapping,
+  WorkflowParameterType,
+  WorkflowPhase,
+  WorkspaceRetention,
+} from '../shared/types';
 
 const CONFIG_PATH = path.join(os.homedir(), '.opencode-loop-app.json');
 const BASH_CONFIG_PATH = path.join(os.homedir(), '.opencode-loop.conf');
+export const USER_WORKFLOWS_DIR = path.join(os.homedir(), '.codeloop', 'workflows');
 
 const DEFAULT_MODELS: ModelConfig = {
-  modelPlan: 'github-copilot/claude-opus-4.6',
-  modelImplement: 'github-copilot/claude-sonnet-4.6',
-  modelReview: 'github-copilot/gpt-5.2-codex',
-  modelFix: 'github-copilot/claude-sonnet-4.6',
-  modelCommit: 'github-copilot/gemini-3-flash-preview',
-  modelPr: 'github-copilot/gemini-3-flash-preview',
-  modelBranch: 'github-copilot/gemini-3-flash-preview',
+  modelPlan: ['github-copilot/claude-opus-4.6', 'github-copilot/claude-sonnet-4.6'],
+  modelImplement: ['github-copilot/claude-sonnet-4.6', 'github-copilot/gpt-5.2-codex'],
+  modelReview: ['github-copilot/gpt-5.2-codex', 'github-copilot/claude-sonnet-4.6'],
+  modelFix: ['github-copilot/claude-sonnet-4.6', 'github-copilot/gpt-5.2-codex'],
+  modelCommit: ['github-copilot/gemini-3-flash-preview'],
+  modelPr: ['github-copilot/gemini-3-flash-preview'],
+  modelBranch: ['github-copilot/gemini-3-flash-preview'],
 };
 
+// GitHub Copilot paid-plan multipliers; more specific patterns come first.
+const DEFAULT_COST_MULTIPLIERS: CostMultiplier[] = [
+  { pattern: '*claude-opus-4?6*fast*', label: 'Claude Opus 4.6 (fast mode) (preview)', multiplier: 30 },
+  { pattern: '*claude-opus-4?6*preview*', label: 'Claude Opus 4.6 (fast mode) (preview)', multiplier: 30 },
+  { pattern: '*claude-opus-4?6*', label: 'Claude Opus 4.6', multiplier: 3 },
+  { pattern: '*claude-opus-4?5*', label: 'Claude Opus 4.5', multiplier: 3 },
+  { pattern: '*claude-sonnet-4?6*', label: 'Claude Sonnet 4.6', multiplier: 1 },
+  { pattern: '*claude-sonnet-4?5*', label: 'Claude Sonnet 4.5', multiplier: 1 },
+  { pattern: '*claude-sonnet-4*', label: 'Claude Sonnet 4', multiplier: 1 },
+  { pattern: '*claude-haiku-4?5*', label: 'Claude Haiku 4.5', multiplier: 0.33 },
+  { pattern: '*gemini-3-flash*', label: 'Gemini 3 Flash', multiplier: 0.33 },
+  { pattern: '*gemini-3?1-pro*', label: 'Gemini 3.1 Pro', multiplier: 1 },
+  { pattern: '*gemini-3-pro*', label: 'Gemini 3 Pro', multiplier: 1 },
+  { pattern: '*gemini-2?5-pro*', label: 'Gemini 2.5 Pro', multiplier: 1 },
+  { pattern: '*gpt-5.3-codex*', label: 'GPT-5.3-Codex', multiplier: 1 },
+  { pattern: '*gpt-5.2-codex*', label: 'GPT-5.2-Codex', multiplier: 1 },
+  { pattern: '*gpt-5.1-codex-mini*', label: 'GPT-5.1-Codex-Mini', multiplier: 0.33 },
+  { pattern: '*gpt-5.1-codex-max*', label: 'GPT-5.1-Codex-Max', multiplier: 1 },
+  { pattern: '*gpt-5.1-codex*', label: 'GPT-5.1-Codex', multiplier: 1 },
+  { pattern: '*gpt-5-mini*', label: 'GPT-5 mini', multiplier: 0 },
+  { pattern: '*gpt-5.2*', label: 'GPT-5.2', multiplier: 1 },
+  { pattern: '*gpt-5.1*', label: 'GPT-5.1', multiplier: 1 },
+  { pattern: '*gpt-4.1*', label: 'GPT-4.1', multiplier: 0 },
+  { pattern: '*gpt-4o*', label: 'GPT-4o', multiplier: 0 },
+  { pattern: '*grok-code-fast-1*', label: 'Grok Code Fast 1', multiplier: 0.25 },
+  { pattern: '*raptor-mini*', label: 'Raptor mini', multiplier: 0 },
+];
+
 const DEFAULT_WORKFLOW_ID = PREDEFINED_WORKFLOWS[0].id;
 
 const DEFAULT_CONFIG: AppConfig = {
   workspaceRoot: path.join(os.homedir(), 'codeloop-workspaces'),
+  workspaceStrategy: 'clone',
+  workspaceRetention: { failedDays: 3, pushedDays: 1, localDays: 0 },
+  agentBackend: 'opencode',
+  commandAgent: { command: '', args: ['--model', '{model}'], models: [] },
+  modelProviders: ['github-copilot'],
   defaultWorkflowId: DEFAULT_WORKFLOW_ID,
   models: { ...DEFAULT_MODELS },
   lastModelOverrides: {},
+  costMultipliers: DEFAULT_COST_MULTIPLIERS,
+  budget: { perRun: null, perDay: null },
   postCloneCommands: ['pnpm i'],
   maxRetries: 3,
   retryDelays: [10, 30, 60],
+  maxReviewIterations: 3,
+  verifyCommands: [],
+  maxVerifyAttempts: 3,
   notificationSound: true,
   autoApproveExternalDirectory: false,
   launchChecksPassed: false,
   recentRepos: [],
   branchPrefix: 'codeloop',
   skipPr: false,
+  maxConcurrentRuns: 4,
+  maxConcurrentRunsPerRepo: 0,
+  schedules: [],
 };
 
 export function listPredefinedWorkflows(): WorkflowDefinition[] {
   return PREDEFINED_WORKFLOWS.map((workflow) => ({ ...workflow }));
 }
 
+const PARAMETER_TYPES: WorkflowParameterType[] = ['string', 'boolean', 'enum', 'branch', 'pr', 'text'];
+
+function parseCondition(raw: unknown): WorkflowParameterCondition | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const value = raw as Record<string, unknown>;
+  if (typeof value.key !== 'string') return undefined;
+  if (typeof value.equals !== 'string' && typeof value.equals !== 'boolean') return undefined;
+  return { key: value.key, equals: value.equals };
+}
+
+function parseMapping(raw: unknown): WorkflowParameterMapping | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const value = raw as Record<string, unknown>;
+  const mapping: WorkflowParameterMapping = {};
+  if (typeof value.arg === 'string' && value.arg.trim()) mapping.arg = value.arg.trim();
+  if (typeof value.argWhenFalse === 'string' && value.argWhenFalse.trim()) mapping.argWhenFalse = value.argWhenFalse.trim();
+  if (typeof value.env === 'string' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(value.env)) mapping.env = value.env;
+  if (value.positional === true) mapping.positional = true;
+  if (typeof value.emptyValue === 'string') mapping.emptyValue = value.emptyValue;
+  return mapping;
+}
+
+function parseParameter(raw: unknown): WorkflowParameter | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  const key = typeof value.key === 'string' ? value.key.trim() : '';
+  const type = value.type as WorkflowParameterType;
+  if (!key || !PARAMETER_TYPES.includes(type)) return null;
+
+  const options = Array.isArray(value.options)
+    ? value.options
+        .map((option) => {
+          if (typeof option === 'string') return { value: option, label: option };
+          const entry = option as Record<string, unknown> | null;
+          if (!entry || typeof entry.value !== 'string') return null;
+          return { value: entry.value, label: typeof entry.label === 'string' ? entry.label : entry.value };
+        })
+        .filter((option): option is { value: string; label: string } => option !== null)
+    : undefined;
+  if (type === 'enum' && (!options || options.length === 0)) return null;
+
+  return {
+    key,
+    type,
+    label: typeof value.label === 'string' && value.label.trim() ? value.label.trim() : key,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    placeholder: typeof value.placeholder === 'string' ? value.placeholder : undefined,
+    required: value.required === true,
+    requiredWhen: parseCondition(value.requiredWhen),
+    visibleWhen: parseCondition(value.visibleWhen),
+    default: typeof value.default === 'string' || typeof value.default === 'boolean' ? value.default : undefined,
+    options,
+    mapping: parseMapping(value.mapping),
+  };
+}
+
+function parsePhase(raw: unknown): WorkflowPhase | null {
+  if (typeof raw === 'string') {
+    const id = raw.trim().toUpperCase();
+    return id ? { id, label: raw.trim() } : null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  const id = typeof value.id === 'string' ? value.id.trim().toUpperCase() : '';
+  if (!id) return null;
+
+  return {
+    id,
+    label: typeof value.label === 'string' && value.label.trim() ? value.label.trim() : id,
+    optional: value.optional === true,
+    skippable: value.skippable === true,
+    skipWhen: parseCondition(value.skipWhen),
+  };
+}
+
+function parseUserWorkflow(raw: unknown): WorkflowDefinition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  const id = typeof value.id === 'string' ? value.id.trim() : '';
+  const scriptFile = typeof value.scriptFile === 'string' ? value.scriptFile.trim() : '';
+  if (!id || !scriptFile) return null;
+
+  const parameters = Array.isArray(value.parameters)
+    ? value.parameters
+        .map(parseParameter)
+        .filter((param): param is WorkflowParameter => param !== null)
+    : [];
+
+  // Shorthands for workflows written before parameter schemas existed.
+  if (value.requiresTargetBranch === true && !parameters.some((param) => param.key === 'targetBranch')) {
+    parameters.unshift({
+      key: 'targetBranch',
+      type: 'pr',
+      label: 'PR Target',
+      required: true,
+      mapping: { env: 'OPENCODE_LOOP_TARGET_BRANCH' },
+    });
+  }
+  if (value.requiresPrompt === true && !parameters.some((param) => param.key === 'prompt')) {
+    parameters.push({
+      key: 'prompt',
+      type: 'text',
+      label: 'Prompt',
+      placeholder: 'Describe the task you want to accomplish...',
+      required: true,
+      mapping: { env: 'OPENCODE_LOOP_PROMPT', positional: true },
+    });
+  }
+
+  const phases = Array.isArray(value.phases)
+    ? value.phases
+        .map(parsePhase)
+        .filter((phase, index, all): phase is WorkflowPhase =>
+          phase !== null && all.findIndex((other) => other?.id === phase.id) === index)
+    : [];
+
+  const modelKeys = Object.keys(DEFAULT_MODELS) as (keyof ModelConfig)[];
+  const models = Array.isArray(value.models)
+    ? modelKeys.filter((key) => (value.models as unknown[]).includes(key))
+    : undefined;
+
+  return {
+    id,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : id,
+    description: typeof value.description === 'string' ? value.description.trim() : '',
+    scriptFile,
+    parameters,
+    phases: phases.length > 0 ? phases : DEFAULT_WORKFLOW_PHASES,
+    args: Array.isArray(value.args) ? value.args.filter((arg): arg is string => typeof arg === 'string') : undefined,
+    models: models && models.length > 0 ? models : undefined,
+    resumable: value.resumable === true,
+    stackable: value.stackable === true,
+    source: 'user',
+  };
+}
+
+/**
+ * Reads workflow definitions from `~/.codeloop/workflows/*.json`.
+ * Invalid files and ids that collide with a predefined workflow are ignored.
+ */
+export function listUserWorkflows(): WorkflowDefinition[] {
+  if (!fs.existsSync(USER_WORKFLOWS_DIR)) return [];
+
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(USER_WORKFLOWS_DIR).filter((entry) => entry.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+
+  const workflows: WorkflowDefinition[] = [];
+  const seenIds = new Set(PREDEFINED_WORKFLOWS.map((workflow) => workflow.id));
+
+  for (const entry of entries) {
+    try {
+      const raw = fs.readFileSync(path.join(USER_WORKFLOWS_DIR, entry), 'utf-8');
+      const workflow = parseUserWorkflow(JSON.parse(raw));
+      if (!workflow || seenIds.has(workflow.id)) continue;
+      seenIds.add(workflow.id);
+      workflows.push(workflow);
+    } catch {
+      // Skip malformed workflow definitions.
+    }
+  }
+
+  return workflows;
+}
+
+export function listWorkflows(): WorkflowDefinition[] {
+  return [...listPredefinedWorkflows(), ...listUserWorkflows()];
+}
+
+export function findWorkflowById(workflowId: string): WorkflowDefinition | null {
+  return listWorkflows().find((workflow) => workflow.id === workflowId) ?? null;
+}
+
 export function getWorkflowById(workflowId: string): WorkflowDefinition {
-  return PREDEFINED_WORKFLOWS.find((workflow) => workflow.id === workflowId) ?? PREDEFINED_WORKFLOWS[0];
+  return findWorkflowById(workflowId) ?? PREDEFINED_WORKFLOWS[0];
 }
 
 export function resolveScriptPath(workflowId: string): string {
   const workflow = getWorkflowById(workflowId);
   const scriptFile = workflow.scriptFile;
+
+  if (workflow.source === 'user') {
+    return path.resolve(USER_WORKFLOWS_DIR, scriptFile);
+  }
+
   const candidates = [
     path.resolve(__dirname, '../../scripts', scriptFile),
     path.resolve(__dirname, '../../../scripts', scriptFile),
@@ -77,16 +317,24 @@ export function loadConfig(): AppConfig {
       const parsedWithoutScriptPath = { ...(parsed as Record<string, unknown>) };
       delete parsedWithoutScriptPath.scriptPath;
       const defaultWorkflowId = String(parsedWithoutScriptPath.defaultWorkflowId ?? DEFAULT_WORKFLOW_ID);
-      const safeWorkflowId = PREDEFINED_WORKFLOWS.some((workflow) => workflow.id === defaultWorkflowId)
-        ? defaultWorkflowId
-        : DEFAULT_WORKFLOW_ID;
+      const safeWorkflowId = findWorkflowById(defaultWorkflowId) ? defaultWorkflowId : DEFAULT_WORKFLOW_ID;
       return {
         ...DEFAULT_CONFIG,
         ...parsedWithoutScriptPath,
         defaultWorkflowId: safeWorkflowId,
-        models: { ...DEFAULT_MODELS, ...(parsedWithoutScriptPath.models as Partial<ModelConfig> | undefined) },
-        lastModelOverrides: {
-          ...(parsedWithoutScriptPath.lastModelOverrides as Partial<ModelConfig> | undefined),
+        models: { ...DEFAULT_MODELS, ...normalizeModelOverrides(parsedWithoutScriptPath.models) },
+        workspaceRetention: {
+          ...DEFAULT_CONFIG.workspaceRetention,
+          ...(parsedWithoutScriptPath.workspaceRetention as Partial<WorkspaceRetention> | undefined),
+        },
+        commandAgent: {
+          ...DEFAULT_CONFIG.commandAgent,
+          ...(parsedWithoutScriptPath.commandAgent as Partial<CommandAgentConfig> | undefined),
+        },
+        lastModelOverrides: normalizeModelOverrides(parsedWithoutScriptPath.lastModelOverrides),
+        budget: {
+          ...DEFAULT_CONFIG.budget,
+          ...(parsedWithoutScriptPath.budget as Partial<CostBudget> | undefined),
         },
       };
     }
@@ -125,9 +373,7 @@ export function loadConfig(): AppConfig {
 export function saveConfig(config: AppConfig): void {
   const safeConfig: AppConfig = {
     ...config,
-    defaultWorkflowId: PREDEFINED_WORKFLOWS.some((workflow) => workflow.id === config.defaultWorkflowId)
-      ? config.defaultWorkflowId
-      : DEFAULT_WORKFLOW_ID,
+    defaultWorkflowId: findWorkflowById(config.defaultWorkflowId) ? config.defaultWorkflowId : DEFAULT_WORKFLOW_ID,
   };
 
   fs.writeFileSync(CONFIG_PATH, JSON.stringify(safeConfig, null, 2), 'utf-8');
@@ -136,28 +382,50 @@ export function saveConfig(config: AppConfig): void {
   generateBashConfig(safeConfig);
 }
 
+/** Quotes a value for the generated bash config, so quotes, `$` and spaces in it stay literal when it is sourced. */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
 function generateBashConfig(config: AppConfig): void {
   const bashContent = `#!/usr/bin/env bash
 # Auto-generated by CodeLoop — edit in the app UI instead.
 
 WORKSPACE_ROOT="${config.workspaceRoot}"
+WORKSPACE_STRATEGY="${config.workspaceStrategy}"
 
-MODEL_PLAN="${config.models.modelPlan}"
-MODEL_IMPLEMENT="${config.models.modelImplement}"
-MODEL_REVIEW="${config.models.modelReview}"
-MODEL_FIX="${config.models.modelFix}"
-MODEL_COMMIT="${config.models.modelCommit}"
-MODEL_PR="${config.models.modelPr}"
-MODEL_BRANCH="${config.models.modelBranch}"
+AGENT_BACKEND="${config.agentBackend}"
+AGENT_COMMAND=${shellQuote(config.commandAgent.command)}
+if ! declare -p AGENT_ARGS >/dev/null 2>&1; then
+  AGENT_ARGS=(${config.commandAgent.args.map(shellQuote).join(' ')})
+fi
+if ! declare -p MODEL_PROVIDERS >/dev/null 2>&1; then
+  MODEL_PROVIDERS=(${config.modelProviders.map(shellQuote).join(' ')})
+fi
+
+# First model of each fallback chain; the app picks fallbacks while its runs go.
+MODEL_PLAN="${config.models.modelPlan[0]}"
+MODEL_IMPLEMENT="${config.models.modelImplement[0]}"
+MODEL_REVIEW="${config.models.modelReview[0]}"
+MODEL_FIX="${config.models.modelFix[0]}"
+MODEL_COMMIT="${config.models.modelCommit[0]}"
+MODEL_PR="${config.models.modelPr[0]}"
+MODEL_BRANCH="${config.models.modelBranch[0]}"
 
 if ! declare -p POST_CLONE_COMMANDS >/dev/null 2>&1; then
-  POST_CLONE_COMMANDS=(${config.postCloneCommands.map((c) => `"${c}"`).join(' ')})
+  POST_CLONE_COMMANDS=(${config.postCloneCommands.map(shellQuote).join(' ')})
 fi
 
 MAX_RETRIES=${config.maxRetries}
 if ! declare -p RETRY_DELAYS >/dev/null 2>&1; then
   RETRY_DELAYS=(${config.retryDelays.join(' ')})
 fi
+MAX_REVIEW_ITERATIONS=${config.maxReviewIterations}
+
+if ! declare -p VERIFY_COMMANDS >/dev/null 2>&1; then
+  VERIFY_COMMANDS=(${config.verifyCommands.map(shellQuote).join(' ')})
+fi
+MAX_VERIFY_ATTEMPTS=${config.maxVerifyAttempts}
 
 NOTIFICATION_SOUND=${config.notificationSound}
 AUTO_APPROVE_EXTERNAL_DIRECTORY=${config.autoApproveExternalDirectory}
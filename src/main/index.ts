@@ -2,7 +2,9 @@ import { app, BrowserWindow, Notification, nativeTheme } from 'electron';
 import { existsSync } from 'fs';
 import path from 'path';
 import { registerIpcHandlers } from './ipc-handlers';
-import { cleanupAllRuns } from './script-runner';
+import { cleanupAllRuns, processRunQueue, startRunMonitor } from './script-runner';
+import { startScheduler, stopScheduler } from './scheduler';
+import { startWorkspaceSweeper, stopWorkspaceSweeper } from './workspace-manager';
 
 let mainWindow: BrowserWindow | null = null;
 let isShuttingDown = false;
@@ -18,6 +20,8 @@ function shutdownApp() {
   isShuttingDown = true;
 
   try {
+    stopScheduler();
+    stopWorkspaceSweeper();
     cleanupAllRuns();
   } catch { /* best-effort */ }
 
@@ -118,6 +122,11 @@ app.whenReady().then(() => {
   registerIpcHandlers();
   createWindow();
   applyAppIcon();
+  // Start runs left queued when the app was last closed.
+  processRunQueue();
+  startRunMonitor();
+  startScheduler();
+  startWorkspaceSweeper();
 
   nativeTheme.on('updated', () => {
     applyAppIcon();
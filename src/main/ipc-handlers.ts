@@ -1,6 +1,6 @@
 import { ipcMain, dialog, shell } from 'electron';
 import { execFile } from 'child_process';
-import { loadConfig, saveConfig } from './config-manager';
+import { loadConfig, saveConfig, listWorkflows } from './config-manager';
 import {
   startRun,
   stopRun,
@@ -9,17 +9,33 @@ import {
   refreshRunPrStatus,
   mergeRunPr,
   resolveAndMergeRunPr,
+  backfillRunPrStatuses,
+  approveRunPlan,
+  rejectRunPlan,
+  getRunCheckpointDiff,
+  rollbackRunToCheckpoint,
+  getRunDiff,
+  promoteRunVariant,
+  cancelRunChain,
+  mergeRunStack,
+  continueRun,
+  moveQueuedRun,
+  processRunQueue,
 } from './script-runner';
 import {
   validateRepo,
   getRepoMeta,
-  listSupportedModels,
   listRepoBranches,
   listMyOpenPullRequests,
+  listOpenIssues,
+  getIssue,
   lookupRepoBranch,
 } from './repo-scanner';
+import { listScheduleStatuses, runScheduleNow } from './scheduler';
+import { deleteWorkspaces, listWorkspaces } from './workspace-manager';
 import { getMainWindow } from './index';
 import { checkLaunchRequirements } from './launch-requirements';
+import { checkModelProviders, listAgentModels } from './agent-backends';
 import { IPC } from '../shared/types';
 import type { AppConfig, RunOptions } from '../shared/types';
 
@@ -31,6 +47,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle(IPC.CONFIG_SAVE, (_event, config: AppConfig) => {
     saveConfig(config);
+    // Raised limits can free slots for queued runs.
+    processRunQueue();
     return true;
   });
 
@@ -69,6 +87,73 @@ export function registerIpcHandlers() {
     return resolveAndMergeRunPr(runId);
   });
 
+  ipcMain.handle(IPC.RUN_PR_BACKFILL, () => {
+    return backfillRunPrStatuses();
+  });
+
+  ipcMain.handle(IPC.RUN_PLAN_APPROVE, (_event, runId: string, planText: string) => {
+    return approveRunPlan(runId, planText);
+  });
+
+  ipcMain.handle(IPC.RUN_PLAN_REJECT, (_event, runId: string) => {
+    return rejectRunPlan(runId);
+  });
+
+  ipcMain.handle(IPC.RUN_CHECKPOINT_DIFF, (_event, runId: string, index: number | null) => {
+    return getRunCheckpointDiff(runId, index);
+  });
+
+  ipcMain.handle(IPC.RUN_CHECKPOINT_ROLLBACK, (_event, runId: string, index: number) => {
+    return rollbackRunToCheckpoint(runId, index);
+  });
+
+  ipcMain.handle(IPC.RUN_DIFF, (_event, runId: string) => {
+    return getRunDiff(runId);
+  });
+
+  ipcMain.handle(IPC.RUN_VARIANT_PROMOTE, (_event, runId: string) => {
+    try {
+      return { ok: true, runId: promoteRunVariant(runId) };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { ok: false, error: message };
+    }
+  });
+
+  ipcMain.handle(IPC.RUN_CHAIN_CANCEL, (_event, chainId: string) => {
+    return cancelRunChain(chainId);
+  });
+
+  ipcMain.handle(IPC.RUN_STACK_MERGE, (_event, runId: string) => {
+    return mergeRunStack(runId);
+  });
+
+  ipcMain.handle(IPC.RUN_CONTINUE, (_event, runId: string, phase: string) => {
+    return continueRun(runId, phase);
+  });
+
+  ipcMain.handle(IPC.RUN_QUEUE_MOVE, (_event, runId: string, toIndex: number) => {
+    return moveQueuedRun(runId, toIndex);
+  });
+
+  // Schedules
+  ipcMain.handle(IPC.SCHEDULE_STATUS, () => {
+    return listScheduleStatuses();
+  });
+
+  ipcMain.handle(IPC.SCHEDULE_RUN_NOW, (_event, scheduleId: string) => {
+    return runScheduleNow(scheduleId);
+  });
+
+  // Workspaces
+  ipcMain.handle(IPC.WORKSPACE_LIST, () => {
+    return listWorkspaces();
+  });
+
+  ipcMain.handle(IPC.WORKSPACE_DELETE, (_event, paths: string[]) => {
+    return deleteWorkspaces(paths);
+  });
+
   // Repo
   ipcMain.handle(IPC.REPO_VALIDATE, async (_event, repoPath: string) => {
     return validateRepo(repoPath);
@@ -86,6 +171,14 @@ export function registerIpcHandlers() {
     return listMyOpenPullRequests(repoPath);
   });
 
+  ipcMain.handle(IPC.REPO_ISSUES, async (_event, repoPath: string) => {
+    return listOpenIssues(repoPath);
+  });
+
+  ipcMain.handle(IPC.REPO_ISSUE, async (_event, repoPath: string, number: number) => {
+    return getIssue(repoPath, number);
+  });
+
   ipcMain.handle(IPC.REPO_BRANCH_LOOKUP, async (_event, repoPath: string, branch: string) => {
     return lookupRepoBranch(repoPath, branch);
   });
@@ -125,7 +218,16 @@ export function registerIpcHandlers() {
 
   // Models
   ipcMain.handle(IPC.MODELS_LIST, async () => {
-    return listSupportedModels();
+    return listAgentModels();
+  });
+
+  ipcMain.handle(IPC.MODEL_PROVIDERS_CHECK, (_event, providers: string[]) => {
+    return checkModelProviders(providers);
+  });
+
+  // Workflows
+  ipcMain.handle(IPC.WORKFLOWS_LIST, () => {
+    return listWorkflows();
   });
 
   // Launch checks
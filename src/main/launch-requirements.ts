@@ -1,5 +1,7 @@
 import { spawnSync } from 'child_process';
-import type { LaunchRequirements, ToolReadiness } from '../shared/types';
+import { getEnabledAgentBackends } from './agent-backends';
+import type { AgentBackend } from './agent-backends';
+import type { AgentReadiness, LaunchRequirements, ToolReadiness } from '../shared/types';
 
 type CommandResult = {
   found: boolean;
@@ -54,39 +56,30 @@ function checkGhReadiness(): ToolReadiness {
   };
 }
 
-function checkOpencodeReadiness(): ToolReadiness {
-  const version = runCommand('opencode', ['--version']);
-  if (!version.found) {
-    return {
-      installed: false,
-      authenticated: false,
-      hint: 'Install OpenCode CLI, then authenticate your provider account',
-      details: null,
-    };
-  }
-
-  const models = runCommand('opencode', ['models', 'github-copilot']);
-  const authenticated = models.ok && /github-copilot\//i.test(models.output);
-
+async function checkAgentReadiness(backend: AgentBackend): Promise<AgentReadiness> {
+  const readiness = await backend.checkReadiness();
   return {
-    installed: true,
-    authenticated,
-    hint: authenticated
-      ? 'Ready'
-      : 'Authenticate OpenCode CLI so model listing works for github-copilot',
-    details:
-      authenticated ? null : truncateDetails(models.output) || 'Unable to list OpenCode models for github-copilot.',
+    ...readiness,
+    details: readiness.details ? truncateDetails(readiness.details) : null,
+    providers: readiness.providers.map((provider) => ({
+      ...provider,
+      details: provider.details ? truncateDetails(provider.details) : null,
+    })),
+    backend: backend.id,
+    name: backend.name,
   };
 }
 
-export function checkLaunchRequirements(): LaunchRequirements {
+export async function checkLaunchRequirements(): Promise<LaunchRequirements> {
   const gh = checkGhReadiness();
-  const opencode = checkOpencodeReadiness();
+  const agents = await Promise.all(getEnabledAgentBackends().map(checkAgentReadiness));
+  // Only the backend runs use has to be ready; the others are reported so their setup can be finished.
+  const agent = agents[0];
 
   return {
-    ready: gh.installed && gh.authenticated && opencode.installed && opencode.authenticated,
+    ready: gh.installed && gh.authenticated && agent.installed && agent.authenticated,
     checkedAt: Date.now(),
     gh,
-    opencode,
+    agents,
   };
 }
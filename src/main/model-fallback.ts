@@ -0,0 +1,48 @@
+import type { ModelFallback, ModelFallbackReason } from '../shared/types';
+import type { ModelKey } from '../shared/model-chains';
+
+/** Attempts a model gets for failures that are neither rate limits nor an unsupported model. */
+export const MAX_MODEL_ATTEMPTS = 2;
+
+/** Sorts the output of a failed agent call, like `classify_agent_failure` in the workflow scripts. */
+export function classifyModelFailure(output: string): ModelFallbackReason {
+  if (/http\s*429|rate.?limit|too many requests|quota|overloaded/i.test(output)) return 'rate-limited';
+  if (/(unknown|unsupported|invalid) model|model[^\p{Cc}]{0,60}(not found|not supported|unsupported|does not exist|not available)/iu.test(output)) {
+    return 'unsupported';
+  }
+  return 'failing';
+}
+
+/** Models the run gave up on for the slot; they are not tried again. */
+function getAbandonedModels(fallbacks: ModelFallback[], key: ModelKey): Set<string> {
+  return new Set(fallbacks.filter((item) => item.key === key && item.to !== item.from).map((item) => item.from));
+}
+
+/**
+ * Picks the model a slot continues with after `from` failed: the same model while a failing model
+ * has attempts left, otherwise the next model of the chain that the agent supports. Returns null
+ * when the chain is used up.
+ *
+ * `supported` is empty when the agent's models could not be listed; the chain is then taken as is.
+ */
+export function chooseFallbackModel(
+  chain: string[],
+  fallbacks: ModelFallback[],
+  key: ModelKey,
+  from: string,
+  reason: ModelFallbackReason,
+  supported: string[]
+): string | null {
+  if (reason === 'failing') {
+    const retries = fallbacks.filter((item) => item.key === key && item.from === from && item.to === from).length;
+    if (retries + 1 < MAX_MODEL_ATTEMPTS) return from;
+  }
+
+  const abandoned = getAbandonedModels(fallbacks, key);
+  abandoned.add(from);
+  // A chain edited while the run was going may no longer list the model; then the whole chain is left.
+  const rest = chain.slice(chain.indexOf(from) + 1);
+  return (
+    rest.find((model) => !abandoned.has(model) && (supported.length === 0 || supported.includes(model))) ?? null
+  );
+}
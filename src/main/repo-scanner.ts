@@ -1,6 +1,6 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import type { RepoMeta, RepoOpenPr, RepoBranchLookup } from '../shared/types';
+import type { RepoMeta, RepoOpenPr, RepoBranchLookup, RepoIssue, RepoIssueDetail } from '../shared/types';
 
 const execFileAsync = promisify(execFile);
 
@@ -74,18 +74,6 @@ export async function getRepoMeta(repoPath: string): Promise<RepoMeta | null> {
   }
 }
 
-export async function listSupportedModels(): Promise<string[]> {
-  try {
-    const { stdout } = await execFileAsync('opencode', ['models', 'github-copilot'], { timeout: 30000 });
-    return stdout
-      .split('\n')
-      .filter((line) => line.startsWith('github-copilot/'))
-      .sort();
-  } catch {
-    return [];
-  }
-}
-
 export async function listRepoBranches(repoPath: string): Promise<{ branches: string[]; current: string | null }> {
   try {
     const isValid = await validateRepo(repoPath);
@@ -163,6 +151,66 @@ export async function listMyOpenPullRequests(repoPath: string): Promise<RepoOpen
   }
 }
 
+type GhIssue = {
+  number?: number;
+  title?: string;
+  url?: string;
+  body?: string;
+  labels?: Array<{ name?: string }>;
+  comments?: Array<{ author?: { login?: string }; body?: string }>;
+};
+
+function toRepoIssue(item: GhIssue): RepoIssue {
+  return {
+    number: item.number as number,
+    title: item.title as string,
+    url: item.url as string,
+    labels: (item.labels ?? []).map((label) => label.name ?? '').filter(Boolean),
+  };
+}
+
+export async function listOpenIssues(repoPath: string): Promise<RepoIssue[]> {
+  try {
+    const isValid = await validateRepo(repoPath);
+    if (!isValid) return [];
+
+    const { stdout } = await execFileAsync(
+      'gh',
+      ['issue', 'list', '--state', 'open', '--limit', '100', '--json', 'number,title,url,labels'],
+      { cwd: repoPath }
+    );
+
+    return (JSON.parse(stdout) as GhIssue[])
+      .filter((item) => typeof item.number === 'number' && !!item.title && !!item.url)
+      .map(toRepoIssue);
+  } catch {
+    return [];
+  }
+}
+
+export async function getIssue(repoPath: string, number: number): Promise<RepoIssueDetail | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      'gh',
+      ['issue', 'view', String(number), '--json', 'number,title,url,labels,body,comments'],
+      { cwd: repoPath }
+    );
+
+    const item = JSON.parse(stdout) as GhIssue;
+    if (typeof item.number !== 'number' || !item.title || !item.url) return null;
+
+    return {
+      ...toRepoIssue(item),
+      body: item.body ?? '',
+      comments: (item.comments ?? [])
+        .filter((comment) => !!comment.body?.trim())
+        .map((comment) => ({ author: comment.author?.login ?? 'unknown', body: comment.body as string })),
+    };
+  } catch {
+    return null;
+  }
+}
+
 export async function lookupRepoBranch(repoPath: string, branch: string): Promise<RepoBranchLookup> {
   const trimmedBranch = branch.trim();
   if (!trimmedBranch) {
@@ -0,0 +1,143 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { RunDiffFile, RunDiffFileStatus } from '../shared/types';
+
+const execFileAsync = promisify(execFile);
+
+const DIFF_MAX_BUFFER = 64 * 1024 * 1024;
+const RUN_DIFF_MAX_CHARS = 2_000_000;
+const DIFF_ARGS = ['diff', '--no-color', '--no-ext-diff', '-M'];
+
+function git(repoDir: string, args: string[], timeout = 30000, env?: NodeJS.ProcessEnv) {
+  return execFileAsync('git', ['-C', repoDir, '-c', 'core.quotePath=false', ...args], {
+    timeout,
+    maxBuffer: DIFF_MAX_BUFFER,
+    env,
+  });
+}
+
+async function refExists(repoDir: string, ref: string): Promise<boolean> {
+  try {
+    await git(repoDir, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Committed, uncommitted and untracked changes of a workspace against the point where it left `base`.
+ * The working tree is staged in a temporary index, so new files show up without touching the workspace's index.
+ */
+export async function readWorkspaceDiff(workspaceDir: string, base: string): Promise<string> {
+  const baseRef = (await refExists(workspaceDir, `origin/${base}`)) ? `origin/${base}` : base;
+  const { stdout: mergeBase } = await git(workspaceDir, ['merge-base', baseRef, 'HEAD']);
+
+  const indexDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codeloop-diff-'));
+  const env = { ...process.env, GIT_INDEX_FILE: path.join(indexDir, 'index') };
+  try {
+    await git(workspaceDir, ['read-tree', 'HEAD'], 30000, env);
+    await git(workspaceDir, ['add', '-A'], 60000, env);
+    const { stdout } = await git(workspaceDir, [...DIFF_ARGS, '--cached', mergeBase.trim()], 30000, env);
+    return stdout;
+  } finally {
+    await fs.promises.rm(indexDir, { recursive: true, force: true });
+  }
+}
+
+/** Changes of a pushed branch against `base`, fetched from origin into the local repository. */
+export async function readRemoteBranchDiff(repoPath: string, base: string, branch: string): Promise<string> {
+  try {
+    await git(
+      repoPath,
+      [
+        'fetch',
+        '--quiet',
+        'origin',
+        `+refs/heads/${base}:refs/remotes/origin/${base}`,
+        `+refs/heads/${branch}:refs/remotes/origin/${branch}`,
+      ],
+      60000
+    );
+  } catch {
+    throw new Error(`Branch ${branch} was not found on origin and its workspace no longer exists.`);
+  }
+  const { stdout } = await git(repoPath, [...DIFF_ARGS, `origin/${base}...origin/${branch}`]);
+  return stdout;
+}
+
+function stripPathPrefix(value: string): string | null {
+  const trimmed = value.trim();
+  if (trimmed === '/dev/null') return null;
+  return trimmed.replace(/^[ab]\//, '');
+}
+
+function parseFileDiff(chunk: string): RunDiffFile {
+  const lines = chunk.split('\n');
+  const header = lines[0].match(/^a\/(.*) b\/(.*)$/);
+  let oldPath: string | null = header?.[1] ?? null;
+  let newPath: string | null = header?.[2] ?? null;
+  let status: RunDiffFileStatus = 'modified';
+  let binary = false;
+  let additions = 0;
+  let deletions = 0;
+  let hunkStart = -1;
+
+  for (let i = 1; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (hunkStart !== -1) {
+      if (line.startsWith('+')) additions += 1;
+      else if (line.startsWith('-')) deletions += 1;
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      hunkStart = i;
+    } else if (line.startsWith('new file mode')) {
+      status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      status = 'renamed';
+      oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      newPath = line.slice('rename to '.length);
+    } else if (line.startsWith('--- ')) {
+      oldPath = stripPathPrefix(line.slice(4)) ?? oldPath;
+    } else if (line.startsWith('+++ ')) {
+      newPath = stripPathPrefix(line.slice(4)) ?? newPath;
+    } else if (line.startsWith('Binary files ')) {
+      binary = true;
+    }
+  }
+
+  return {
+    path: (status === 'deleted' ? oldPath : newPath) ?? oldPath ?? '',
+    oldPath: status === 'renamed' ? oldPath : null,
+    status,
+    additions,
+    deletions,
+    binary,
+    patch: hunkStart === -1 ? '' : lines.slice(hunkStart).join('\n').replace(/\n$/, ''),
+  };
+}
+
+/** Splits `git diff` output into one entry per file; a diff over the size limit is cut at a file boundary. */
+export function parseUnifiedDiff(diff: string): { files: RunDiffFile[]; truncated: boolean } {
+  let text = diff;
+  let truncated = false;
+  if (text.length > RUN_DIFF_MAX_CHARS) {
+    const cut = text.lastIndexOf('\ndiff --git ', RUN_DIFF_MAX_CHARS);
+    text = text.slice(0, Math.max(cut, 0));
+    truncated = true;
+  }
+
+  const files = text
+    .split(/^diff --git /m)
+    .filter((chunk) => chunk.trim())
+    .map(parseFileDiff)
+    .filter((file) => file.path);
+  return { files, truncated };
+}
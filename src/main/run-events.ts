@@ -0,0 +1,199 @@
+import type { ModelFallbackReason, ReviewIterationStatus, RunArtifactKind } from '../shared/types';
+
+/**
+ * Scripts append one JSON object per line to the file named by `OPENCODE_LOOP_EVENTS_FILE`.
+ * Every event carries the protocol version `v`; events with an unknown version are ignored
+ * so older app builds keep falling back to log parsing.
+ */
+export const RUN_EVENT_PROTOCOL_VERSION = 1;
+
+export type RunEvent =
+  | { type: 'hello'; v: number; script: string | null }
+  | { type: 'phase_start'; v: number; phase: string; model: string | null }
+  | { type: 'phase_end'; v: number; phase: string; status: 'completed' | 'skipped' | 'failed'; duration: number | null }
+  | { type: 'artifact'; v: number; kind: RunArtifactKind; path: string }
+  | { type: 'branch'; v: number; name: string; base: string | null; baseCommit: string | null }
+  | {
+      type: 'pr';
+      v: number;
+      url: string;
+      number: number | null;
+      title: string | null;
+      head: string | null;
+      base: string | null;
+    }
+  | { type: 'error'; v: number; phase: string | null; message: string }
+  | { type: 'background'; v: number; pid: number; log: string }
+  | {
+      type: 'review_iteration';
+      v: number;
+      iteration: number;
+      max: number | null;
+      status: ReviewIterationStatus;
+      findings: string | null;
+    }
+  | {
+      type: 'verify_result';
+      v: number;
+      attempt: number;
+      command: string;
+      status: 'passed' | 'failed';
+      exitCode: number | null;
+      duration: number | null;
+      output: string | null;
+    }
+  | { type: 'approval_request'; v: number; phase: string; path: string | null }
+  | { type: 'checkpoint'; v: number; phase: string; ref: string; commit: string }
+  | { type: 'model_fallback_request'; v: number; slot: string; model: string; reason: ModelFallbackReason }
+  | {
+      type: 'usage';
+      v: number;
+      slot: string;
+      model: string;
+      status: 'completed' | 'failed';
+      duration: number;
+      inputTokens: number | null;
+      outputTokens: number | null;
+    }
+  | { type: 'run_end'; v: number; status: 'completed' | 'failed' };
+
+const ARTIFACT_KINDS: RunArtifactKind[] = ['plan', 'review', 'diff'];
+const MODEL_FALLBACK_REASONS: ModelFallbackReason[] = ['unsupported', 'rate-limited', 'failing'];
+const REVIEW_ITERATION_STATUSES: ReviewIterationStatus[] = ['reviewing', 'lgtm', 'fixing', 'fixed', 'failed'];
+
+function readString(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+function readNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return Number(value.trim());
+  return null;
+}
+
+export function parseRunEvent(line: string): RunEvent | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const value = raw as Record<string, unknown>;
+  const v = value.v;
+  if (v !== RUN_EVENT_PROTOCOL_VERSION) return null;
+
+  const phase = readString(value.phase)?.toUpperCase() ?? null;
+
+  switch (value.type) {
+    case 'hello':
+      return { type: 'hello', v, script: readString(value.script) };
+    case 'phase_start':
+      return phase ? { type: 'phase_start', v, phase, model: readString(value.model) } : null;
+    case 'phase_end': {
+      const status = value.status ?? 'completed';
+      if (!phase || (status !== 'completed' && status !== 'skipped' && status !== 'failed')) return null;
+      return { type: 'phase_end', v, phase, status, duration: readNumber(value.duration) };
+    }
+    case 'artifact': {
+      const kind = value.kind as RunArtifactKind;
+      const artifactPath = readString(value.path);
+      if (!ARTIFACT_KINDS.includes(kind) || !artifactPath) return null;
+      return { type: 'artifact', v, kind, path: artifactPath };
+    }
+    case 'branch': {
+      const name = readString(value.name);
+      return name
+        ? { type: 'branch', v, name, base: readString(value.base), baseCommit: readString(value.baseCommit) }
+        : null;
+    }
+    case 'pr': {
+      const url = readString(value.url);
+      if (!url) return null;
+      return {
+        type: 'pr',
+        v,
+        url,
+        number: readNumber(value.number),
+        title: readString(value.title),
+        head: readString(value.head),
+        base: readString(value.base),
+      };
+    }
+    case 'error': {
+      const message = readString(value.message);
+      return message ? { type: 'error', v, phase, message } : null;
+    }
+    case 'background': {
+      const pid = readNumber(value.pid);
+      const log = readString(value.log);
+      return pid && log ? { type: 'background', v, pid, log } : null;
+    }
+    case 'review_iteration': {
+      const iteration = readNumber(value.iteration);
+      const status = value.status as ReviewIterationStatus;
+      if (!iteration || !REVIEW_ITERATION_STATUSES.includes(status)) return null;
+      return {
+        type: 'review_iteration',
+        v,
+        iteration,
+        max: readNumber(value.max),
+        status,
+        findings: readString(value.findings),
+      };
+    }
+    case 'verify_result': {
+      const attempt = readNumber(value.attempt);
+      const command = readString(value.command);
+      if (!attempt || !command || (value.status !== 'passed' && value.status !== 'failed')) return null;
+      return {
+        type: 'verify_result',
+        v,
+        attempt,
+        command,
+        status: value.status,
+        exitCode: readNumber(value.exitCode),
+        duration: readNumber(value.duration),
+        output: readString(value.output),
+      };
+    }
+    case 'approval_request':
+      return phase ? { type: 'approval_request', v, phase, path: readString(value.path) } : null;
+    case 'checkpoint': {
+      const ref = readString(value.ref);
+      const commit = readString(value.commit);
+      return phase && ref && commit ? { type: 'checkpoint', v, phase, ref, commit } : null;
+    }
+    case 'model_fallback_request': {
+      const slot = readString(value.slot)?.toUpperCase();
+      const model = readString(value.model);
+      const reason = value.reason as ModelFallbackReason;
+      if (!slot || !model || !MODEL_FALLBACK_REASONS.includes(reason)) return null;
+      return { type: 'model_fallback_request', v, slot, model, reason };
+    }
+    case 'usage': {
+      const slot = readString(value.slot)?.toUpperCase();
+      const model = readString(value.model);
+      if (!slot || !model || (value.status !== 'completed' && value.status !== 'failed')) return null;
+      return {
+        type: 'usage',
+        v,
+        slot,
+        model,
+        status: value.status,
+        duration: readNumber(value.duration) ?? 0,
+        inputTokens: readNumber(value.inputTokens),
+        outputTokens: readNumber(value.outputTokens),
+      };
+    }
+    case 'run_end':
+      return value.status === 'completed' || value.status === 'failed'
+        ? { type: 'run_end', v, status: value.status }
+        : null;
+    default:
+      return null;
+  }
+}
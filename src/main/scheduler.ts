@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findWorkflowById, loadConfig } from './config-manager';
+import { listMyOpenPullRequests } from './repo-scanner';
+import { startRun } from './script-runner';
+import { getNextCronTime, parseCron } from '../shared/cron';
+import type { RunOptions, RunSchedule, RunScheduleStatus } from '../shared/types';
+
+type ScheduleState = RunScheduleStatus & {
+  /** Fire times up to here have been handled. */
+  lastCheckedAt: number;
+};
+
+const SCHEDULE_STATE_PATH = path.join(os.homedir(), '.codeloop', 'schedules.json');
+const SCHEDULE_CHECK_INTERVAL_MS = 30_000;
+/** A fire time noticed later than this is treated as missed, i.e. it passed while the app was closed. */
+const MISSED_RUN_GRACE_MS = 5 * 60_000;
+
+const scheduleStates: Record<string, ScheduleState> = loadScheduleStates();
+let checkTimer: NodeJS.Timeout | null = null;
+
+function loadScheduleStates(): Record<string, ScheduleState> {
+  try {
+    if (fs.existsSync(SCHEDULE_STATE_PATH)) {
+      return JSON.parse(fs.readFileSync(SCHEDULE_STATE_PATH, 'utf-8')) as Record<string, ScheduleState>;
+    }
+  } catch {
+    // Start over; schedules then fire from their next fire time on.
+  }
+  return {};
+}
+
+function saveScheduleStates() {
+  try {
+    fs.mkdirSync(path.dirname(SCHEDULE_STATE_PATH), { recursive: true });
+    fs.writeFileSync(SCHEDULE_STATE_PATH, JSON.stringify(scheduleStates), 'utf-8');
+  } catch {
+    // Non-fatal: the worst case is a missed run firing once more after a restart.
+  }
+}
+
+/** Builds the options of the runs one firing starts. */
+async function buildScheduledRuns(schedule: RunSchedule): Promise<RunOptions[]> {
+  const options: RunOptions = { ...schedule.options, scheduleId: schedule.id };
+  if (!schedule.forEachOpenPr) return [options];
+
+  const workflow = findWorkflowById(options.workflowId);
+  const prParam = workflow?.parameters.find((param) => param.type === 'pr');
+  if (!prParam) {
+    throw new Error('The workflow has no PR parameter to run for each open PR');
+  }
+  const prefix = `${loadConfig().branchPrefix || 'codeloop'}/`;
+  const prs = (await listMyOpenPullRequests(options.repoPath)).filter((pr) => pr.headRefName.startsWith(prefix));
+  return prs.map((pr) => ({
+    ...options,
+    targetBranch: pr.headRefName,
+    params: { ...options.params, [prParam.key]: pr.headRefName },
+  }));
+}
+
+async function fireSchedule(schedule: RunSchedule): Promise<string[]> {
+  const runIds: string[] = [];
+  const errors: string[] = [];
+
+  try {
+    for (const options of await buildScheduledRuns(schedule)) {
+      try {
+        runIds.push(startRun(options));
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+  }
+
+  // Read the state again: checks that ran while PRs were listed have moved lastCheckedAt on.
+  scheduleStates[schedule.id] = {
+    lastCheckedAt: scheduleStates[schedule.id]?.lastCheckedAt ?? Date.now(),
+    lastFiredAt: Date.now(),
+    lastError: errors[0] ?? null,
+  };
+  saveScheduleStates();
+  return runIds;
+}
+
+/** Whether the schedule is due, given the fire times since it was last checked and its missed-run policy. */
+function isScheduleDue(schedule: RunSchedule, lastCheckedAt: number, now: number): boolean {
+  const cron = parseCron(schedule.cron);
+  const next = getNextCronTime(cron, lastCheckedAt);
+  if (next === null || next > now) return false;
+  if (next >= now - MISSED_RUN_GRACE_MS || schedule.missedRunPolicy === 'catch-up') return true;
+
+  // Only missed fire times passed; fire when a current one is among them.
+  const current = getNextCronTime(cron, now - MISSED_RUN_GRACE_MS);
+  return current !== null && current <= now;
+}
+
+function checkSchedules() {
+  const now = Date.now();
+  const { schedules } = loadConfig();
+
+  for (const schedule of schedules) {
+    const state = scheduleStates[schedule.id];
+    let due = false;
+    let lastError = state?.lastError ?? null;
+    // New and paused schedules start counting from now, so they do not fire for the past.
+    if (state && schedule.enabled) {
+      try {
+        due = isScheduleDue(schedule, state.lastCheckedAt, now);
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    scheduleStates[schedule.id] = { lastFiredAt: state?.lastFiredAt ?? null, lastError, lastCheckedAt: now };
+    // One run per check, however many fire times were missed.
+    if (due) void fireSchedule(schedule);
+  }
+
+  const scheduleIds = new Set(schedules.map((schedule) => schedule.id));
+  for (const id of Object.keys(scheduleStates)) {
+    if (!scheduleIds.has(id)) delete scheduleStates[id];
+  }
+  saveScheduleStates();
+}
+
+export function startScheduler() {
+  if (checkTimer) return;
+  checkSchedules();
+  checkTimer = setInterval(checkSchedules, SCHEDULE_CHECK_INTERVAL_MS);
+}
+
+export function stopScheduler() {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+}
+
+export function listScheduleStatuses(): Record<string, RunScheduleStatus> {
+  return Object.fromEntries(
+    Object.entries(scheduleStates).map(([id, state]) => [id, { lastFiredAt: state.lastFiredAt, lastError: state.lastError }])
+  );
+}
+
+/** Fires a schedule right away, independent of its cron expression and whether it is enabled. */
+export async function runScheduleNow(scheduleId: string): Promise<{ ok: boolean; runIds?: string[]; error?: string }> {
+  const schedule = loadConfig().schedules.find((item) => item.id === scheduleId);
+  if (!schedule) return { ok: false, error: 'Schedule not found.' };
+
+  const runIds = await fireSchedule(schedule);
+  const error = scheduleStates[scheduleId]?.lastError;
+  if (runIds.length === 0) {
+    return { ok: false, error: error ?? 'The schedule did not start any runs.' };
+  }
+  return { ok: true, runIds };
+}
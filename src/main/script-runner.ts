@@ -6,18 +6,48 @@ import { v4 as uuidv4 } from 'uuid';
 import Anser from 'anser';
 import { promisify } from 'util';
 import { sendToRenderer, showNotification } from './index';
-import { loadConfig, addRecentRepo, resolveScriptPath, getWorkflowById } from './config-manager';
+import { loadConfig, addRecentRepo, resolveScriptPath, getWorkflowById, findWorkflowById } from './config-manager';
 import { shell } from 'electron';
 import type {
   RunState,
   RunOptions,
+  RunChainStep,
   LogEntry,
   PhaseStatus,
-  PipelinePhase,
+  ModelFallback,
   PrStatusPayload,
   RunPrActionResult,
+  RunCheckpointDiffResult,
+  RunDiffResult,
+  WorkflowDefinition,
+  WorkflowParamValue,
+  WorkflowPhase,
 } from '../shared/types';
-import { PIPELINE_PHASES, IPC } from '../shared/types';
+import {
+  ACTIVE_RUN_STATUSES,
+  DEFAULT_WORKFLOW_PHASES,
+  IPC,
+  MAX_BATCH_RUNS,
+  MAX_CHAIN_RUNS,
+  MAX_REVIEW_ITERATIONS_LIMIT,
+  MAX_RUN_VARIANTS,
+} from '../shared/types';
+import { findMissingRequiredParam, getActiveWorkflowParams, resolveWorkflowParams } from '../shared/workflow-params';
+import { getContinuePhases, getResumablePhases } from '../shared/run-resume';
+import { sortQueuedRuns } from '../shared/run-queue';
+import { supportsBatchRuns } from '../shared/run-batch';
+import { buildChainContext, getPreviousChainStep, isChainTriggerMet } from '../shared/run-chain';
+import { canStackOnRun, getRunStack, isStackedOnOpenPr, supportsStackedRuns } from '../shared/run-stack';
+import { VARIANT_PROMOTE_PHASE, canPromoteVariant, supportsRunVariants } from '../shared/run-variants';
+import { MODEL_SLOTS, getModelKeyForSlot, mergeModelChains, normalizeModelOverrides } from '../shared/model-chains';
+import type { ModelKey } from '../shared/model-chains';
+import { getBudgetBlock, getBudgetOverrun, getCallCost, getNextCallBlock, getUsageCost, sumUsageCost } from '../shared/cost-model';
+import { parseRunEvent } from './run-events';
+import { parseUnifiedDiff, readRemoteBranchDiff, readWorkspaceDiff } from './run-diff';
+import { getRepoMeta } from './repo-scanner';
+import { getAgentBackend } from './agent-backends';
+import { chooseFallbackModel, classifyModelFailure } from './model-fallback';
+import type { RunEvent } from './run-events';
 
 const execFileAsync = promisify(execFile);
 
@@ -26,16 +56,44 @@ type ActiveRun = {
   process: ChildProcess | null;
   logPoller: NodeJS.Timeout | null;
   logLineBuffer: string;
+  eventLineBuffer: string;
+};
+
+/** Groups a run belongs to; all are fixed when the run is created. */
+type RunLinks = Pick<RunState, 'variant' | 'batch' | 'chain'>;
+
+/** A validated run that is ready to be spawned. */
+type PreparedRun = {
+  state: RunState;
+  env: Record<string, string>;
+  args: string[];
+  scriptPath: string;
 };
 
 const activeRuns = new Map<string, ActiveRun>();
 const persistedRuns = new Map<string, RunState>();
+/** Stacked runs whose last update failed, with the state of the PR below at that point. */
+const failedStackSyncs = new Map<string, string>();
+/** Runs whose PR status was backfilled in this session; they are not checked again by the backfill. */
+const backfilledPrRuns = new Set<string>();
 const RUN_HISTORY_PATH = path.join(os.homedir(), '.opencode-loop-runs.json');
+const RUN_EVENTS_DIR = path.join(os.homedir(), '.codeloop', 'events');
 const MAX_LOGS_PER_RUN = 10000;
 const BG_BOOTSTRAP_REGEX = /Running in background\. Log: (.+)\. PID: (\d+)$/;
 const PLAN_FILE_REGEX = /Plan saved to (.+)$/;
+const CHECKPOINT_DIFF_MAX_CHARS = 500_000;
+const VERIFY_OUTPUT_TAIL_CHARS = 4000;
+const RUN_MONITOR_INTERVAL_MS = 60_000;
+/** PRs whose status one backfill refreshes at most, so it does not run hundreds of `gh` calls at once. */
+const PR_BACKFILL_LIMIT = 20;
 
 let persistTimer: NodeJS.Timeout | null = null;
+let queueTimer: NodeJS.Timeout | null = null;
+let runQueueClosed = false;
+let monitorTimer: NodeJS.Timeout | null = null;
+let advancingChains = false;
+let chainsChanged = false;
+let syncingStacks = false;
 
 function persistRunsNow() {
   const runs = Array.from(persistedRuns.values()).sort((a, b) => a.startedAt - b.startedAt);
@@ -99,10 +157,11 @@ function readNewLogChunk(filePath: string, offset: number): { chunk: string; nex
 }
 
 function inferCompletedFromLogs(state: RunState): boolean {
+  if (state.eventProtocol !== null) return state.scriptResult === 'completed';
   return state.logs.some((entry) => entry.phase.toUpperCase() === 'DONE' && entry.message.includes('Total duration:'));
 }
 
-function getWorkspaceDirForRun(state: RunState): string | null {
+export function getWorkspaceDirForRun(state: RunState): string | null {
   if (state.logFilePath && path.basename(state.logFilePath) === 'opencode-loop.log') {
     return path.dirname(state.logFilePath);
   }
@@ -121,40 +180,84 @@ function getWorkspaceDirForRun(state: RunState): string | null {
   return candidate;
 }
 
-function cleanupRunWorkspace(state: RunState) {
-  const workspaceDir = getWorkspaceDirForRun(state);
-  if (!workspaceDir || !fs.existsSync(workspaceDir)) return;
+/** Git directory of the repository a worktree belongs to, read from the worktree's .git file. */
+export function getWorktreeRepoGitDir(workspaceDir: string): string | null {
+  try {
+    const content = fs.readFileSync(path.join(workspaceDir, '.git'), 'utf-8');
+    const match = content.match(/^gitdir:\s*(.+)$/m);
+    // The worktree's own git directory is <repo>/.git/worktrees/<name>.
+    return match ? path.resolve(workspaceDir, match[1].trim(), '..', '..') : null;
+  } catch {
+    return null;
+  }
+}
 
+/** Branch a worktree has checked out, read before the worktree is removed. */
+function readWorktreeBranch(workspaceDir: string): string | null {
+  try {
+    const content = fs.readFileSync(path.join(workspaceDir, '.git'), 'utf-8');
+    const gitDir = path.resolve(workspaceDir, content.match(/^gitdir:\s*(.+)$/m)?.[1].trim() ?? '');
+    return fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf-8').match(/^ref: refs\/heads\/(.+)$/m)?.[1].trim() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function removeWorkspaceDir(workspaceDir: string) {
+  if (!fs.existsSync(workspaceDir)) return;
+
+  // The repository of a worktree keeps a record of it, which is pruned once the directory is gone,
+  // and the branch the run created in it, which is deleted after that.
+  const repoGitDir = getWorktreeRepoGitDir(workspaceDir);
+  const branch = repoGitDir ? readWorktreeBranch(workspaceDir) : null;
   try {
     fs.rmSync(workspaceDir, { recursive: true, force: true });
   } catch {
     // Non-fatal: cleanup failures should not break run lifecycle handling.
   }
+  if (repoGitDir) {
+    execFileAsync('git', ['--git-dir', repoGitDir, 'worktree', 'prune'], { timeout: 30000 })
+      .then(() => {
+        if (branch) return execFileAsync('git', ['--git-dir', repoGitDir, 'branch', '-D', branch], { timeout: 30000 });
+      })
+      .catch(() => {
+        // Non-fatal: git prunes stale worktree records on its own eventually.
+      });
+  }
+}
+
+function removeRunWorkspace(state: RunState) {
+  const workspaceDir = getWorkspaceDirForRun(state);
+  if (workspaceDir) removeWorkspaceDir(workspaceDir);
+}
+
+/** Reports a finished run and lets the next queued run take its slot. */
+function sendRunDone(runId: string, state: RunState) {
+  sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+  scheduleRunQueue();
+  if (state.chain) void advanceRunChains(false).catch(ignoreChainError);
 }
 
 function finalizeBackgroundRun(runId: string, state: RunState) {
-  if (state.status !== 'running') return;
+  if (!ACTIVE_RUN_STATUSES.includes(state.status)) return;
 
   state.finishedAt = Date.now();
   if (inferCompletedFromLogs(state)) {
     state.status = 'completed';
-    for (const p of PIPELINE_PHASES) {
-      if (state.phases[p] === 'active') state.phases[p] = 'completed';
-    }
+    finishPhases(state, 'completed');
   } else {
     state.status = 'failed';
-    for (const p of PIPELINE_PHASES) {
-      if (state.phases[p] === 'active') state.phases[p] = 'failed';
-    }
-    cleanupRunWorkspace(state);
+    finishPhases(state, 'failed');
   }
+  removeEventsFile(state);
 
   sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
-  sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+  sendRunDone(runId, state);
   persistRunState(state);
 
   if (state.status === 'completed' && state.prUrl) {
     void maybeAutoMergeRun(runId, state);
+    void commentOnRunIssue(runId, state);
   }
 }
 
@@ -172,12 +275,18 @@ function startBackgroundLogPolling(runId: string, state: RunState) {
   const poll = () => {
     const current = activeRuns.get(runId);
     if (!current) return;
-    if (state.status !== 'running') {
+    if (current.state !== state) {
+      // The run was continued in place; its new process has a poller of its own.
+      clearInterval(timer);
+      return;
+    }
+    if (!ACTIVE_RUN_STATUSES.includes(state.status)) {
       stopPolling(runId);
       return;
     }
 
     try {
+      drainRunEvents(runId, state);
       const { chunk, nextOffset } = readNewLogChunk(state.logFilePath!, state.logFileOffset);
       state.logFileOffset = nextOffset;
 
@@ -190,14 +299,12 @@ function startBackgroundLogPolling(runId: string, state: RunState) {
           if (!line.trim()) continue;
           const entry = parseLine(line);
           if (!entry) continue;
-          if (entry.phase === 'INIT' && entry.message.startsWith('Target branch:')) {
-            state.branchName = entry.message.replace('Target branch:', '').trim();
-          }
           handleLogEntry(runId, entry, state);
         }
       }
 
       if (!isProcessAlive(state.pid)) {
+        drainRunEvents(runId, state);
         if (current.logLineBuffer.trim()) {
           const tailEntry = parseLine(current.logLineBuffer);
           if (tailEntry) handleLogEntry(runId, tailEntry, state);
@@ -211,7 +318,8 @@ function startBackgroundLogPolling(runId: string, state: RunState) {
     }
   };
 
-  active.logPoller = setInterval(poll, 1000);
+  const timer = setInterval(poll, 1000);
+  active.logPoller = timer;
   poll();
 }
 
@@ -228,32 +336,71 @@ function loadPersistedRuns() {
         logs: Array.isArray(run.logs) ? run.logs : [],
       };
 
+      // Keep ids of user workflows that have since been removed from disk so history stays accurate.
       const loadedWorkflow = getWorkflowById(loadedRun.workflowId ?? 'development-auto-pr');
-      loadedRun.workflowId = loadedWorkflow.id;
+      loadedRun.workflowId = loadedRun.workflowId ?? loadedWorkflow.id;
       loadedRun.workflowName = loadedRun.workflowName ?? loadedWorkflow.name;
 
       loadedRun.runMode = loadedRun.runMode ?? 'foreground';
       loadedRun.background = loadedRun.background ?? loadedRun.runMode === 'background';
-      loadedRun.modelOverrides = loadedRun.modelOverrides ?? null;
+      // Overrides were single models before fallback chains.
+      loadedRun.modelOverrides = loadedRun.modelOverrides ? normalizeModelOverrides(loadedRun.modelOverrides) : null;
+      loadedRun.phaseModels = loadedRun.phaseModels ?? {};
+      loadedRun.modelFallbacks = loadedRun.modelFallbacks ?? [];
+      loadedRun.usage = loadedRun.usage ?? [];
       loadedRun.planText = loadedRun.planText ?? null;
+      // Runs used to record the time they left the queue as startedAt.
+      loadedRun.runningAt = loadedRun.runningAt ?? (loadedRun.status === 'queued' ? null : loadedRun.startedAt);
       loadedRun.logFilePath = loadedRun.logFilePath ?? null;
       loadedRun.logFileOffset = loadedRun.logFileOffset ?? 0;
       loadedRun.autoMerge = loadedRun.autoMerge ?? false;
       loadedRun.skipPr = loadedRun.skipPr ?? false;
+      loadedRun.params = loadedRun.params ?? {};
+      loadedRun.phaseDurations = loadedRun.phaseDurations ?? {};
+      loadedRun.artifacts = loadedRun.artifacts ?? {};
+      loadedRun.errorMessage = loadedRun.errorMessage ?? null;
+      loadedRun.maxReviewIterations = loadedRun.maxReviewIterations ?? 1;
+      loadedRun.reviewIterations = loadedRun.reviewIterations ?? [];
+      loadedRun.verifyResults = loadedRun.verifyResults ?? [];
+      loadedRun.checkpoints = loadedRun.checkpoints ?? [];
+      loadedRun.eventsFilePath = loadedRun.eventsFilePath ?? null;
+      loadedRun.eventsFileOffset = loadedRun.eventsFileOffset ?? 0;
+      loadedRun.eventProtocol = loadedRun.eventProtocol ?? null;
+      loadedRun.scriptResult = loadedRun.scriptResult ?? null;
+      loadedRun.requirePlanApproval = loadedRun.requirePlanApproval ?? false;
+      loadedRun.resumable = loadedRun.resumable ?? false;
+      loadedRun.parentRunId = loadedRun.parentRunId ?? null;
+      loadedRun.resumedFromPhase = loadedRun.resumedFromPhase ?? null;
+      loadedRun.keepWorkspace = loadedRun.keepWorkspace ?? false;
+      loadedRun.variant = loadedRun.variant ?? null;
+      loadedRun.queue = loadedRun.queue ?? null;
+      loadedRun.batch = loadedRun.batch ?? null;
+      loadedRun.chain = loadedRun.chain ? { ...loadedRun.chain, message: loadedRun.chain.message ?? null } : null;
+      loadedRun.stack = loadedRun.stack ?? null;
+      loadedRun.issue = loadedRun.issue ?? null;
+      loadedRun.issueCommentUrl = loadedRun.issueCommentUrl ?? null;
+      loadedRun.scheduleId = loadedRun.scheduleId ?? null;
+      loadedRun.workflowPhases = loadedRun.workflowPhases ?? Object.keys(loadedRun.phases).map((id) => ({
+        id,
+        label: DEFAULT_WORKFLOW_PHASES.find((phase) => phase.id === id)?.label ?? id,
+      }));
       loadedRun.prTitle = loadedRun.prTitle ?? null;
       loadedRun.prNumber = loadedRun.prNumber ?? null;
       loadedRun.prHeadRef = loadedRun.prHeadRef ?? null;
       loadedRun.prBaseRef = loadedRun.prBaseRef ?? null;
+      loadedRun.baseBranch = loadedRun.baseBranch ?? null;
       loadedRun.prMergeStatus = loadedRun.prMergeStatus ?? (loadedRun.prUrl ? 'checking' : 'none');
       loadedRun.prMergeMessage = loadedRun.prMergeMessage ?? null;
+      loadedRun.prMergedAt = loadedRun.prMergedAt ?? null;
 
-      if (loadedRun.status === 'running') {
+      if (ACTIVE_RUN_STATUSES.includes(loadedRun.status)) {
         if (loadedRun.runMode === 'background' && isProcessAlive(loadedRun.pid)) {
           activeRuns.set(loadedRun.id, {
             state: loadedRun,
             process: null,
             logPoller: null,
             logLineBuffer: '',
+            eventLineBuffer: '',
           });
           if (loadedRun.logFilePath) {
             startBackgroundLogPolling(loadedRun.id, loadedRun);
@@ -283,20 +430,40 @@ function loadPersistedRuns() {
 
 loadPersistedRuns();
 
-function createInitialPhases(skipPlan: boolean, skipPr: boolean): Record<string, PhaseStatus> {
+function createInitialPhases(
+  workflowPhases: WorkflowPhase[],
+  params: Record<string, WorkflowParamValue>
+): Record<string, PhaseStatus> {
   const phases: Record<string, PhaseStatus> = {};
-  for (const phase of PIPELINE_PHASES) {
-    if (phase === 'PLAN' && skipPlan) {
-      phases[phase] = 'skipped';
-    } else if ((phase === 'PR' || phase === 'PUSH') && skipPr) {
-      phases[phase] = 'skipped';
-    } else {
-      phases[phase] = 'pending';
-    }
+  for (const phase of workflowPhases) {
+    phases[phase.id] = phase.skipWhen && params[phase.skipWhen.key] === phase.skipWhen.equals ? 'skipped' : 'pending';
   }
   return phases;
 }
 
+function settleActivePhases(state: RunState, status: PhaseStatus) {
+  for (const phase of Object.keys(state.phases)) {
+    if (state.phases[phase] === 'active') state.phases[phase] = status;
+  }
+}
+
+function finishPhases(state: RunState, outcome: 'completed' | 'failed') {
+  settleActivePhases(state, outcome);
+  if (outcome !== 'completed') {
+    for (const iteration of state.reviewIterations) {
+      if (iteration.status === 'reviewing' || iteration.status === 'fixing') iteration.status = 'failed';
+    }
+    return;
+  }
+
+  // Optional phases the script never reached are reported as skipped rather than pending.
+  for (const phase of state.workflowPhases) {
+    if (phase.optional && state.phases[phase.id] === 'pending') {
+      state.phases[phase.id] = 'skipped';
+    }
+  }
+}
+
 const LOG_LINE_REGEX = /^\[(.+?)\] \[(.+?)\] (.*)$/;
 const PR_URL_REGEX = /PR created:\s*(https:\/\/\S+)/;
 
@@ -308,6 +475,7 @@ type GhPrView = {
   mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN' | string;
   headRefName: string;
   baseRefName: string;
+  mergedAt: string | null;
 };
 
 function toPrPayload(runId: string, state: RunState): PrStatusPayload {
@@ -358,11 +526,11 @@ function parseLine(raw: string): LogEntry | null {
 }
 
 function updatePhaseStatus(state: RunState, phase: string) {
-  const phaseUpper = phase.toUpperCase() as PipelinePhase;
-  if (!PIPELINE_PHASES.includes(phaseUpper)) return;
+  const phaseUpper = phase.toUpperCase();
+  if (!(phaseUpper in state.phases)) return;
 
   // Mark current active phase as completed if switching to a new one
-  for (const p of PIPELINE_PHASES) {
+  for (const p of Object.keys(state.phases)) {
     if (state.phases[p] === 'active' && p !== phaseUpper) {
       state.phases[p] = 'completed';
     }
@@ -375,43 +543,40 @@ function updatePhaseStatus(state: RunState, phase: string) {
 }
 
 function markPhaseCompleted(state: RunState, phase: string) {
-  const phaseUpper = phase.toUpperCase() as PipelinePhase;
-  if (PIPELINE_PHASES.includes(phaseUpper) && state.phases[phaseUpper] === 'active') {
+  const phaseUpper = phase.toUpperCase();
+  if (state.phases[phaseUpper] === 'active') {
     state.phases[phaseUpper] = 'completed';
   }
 }
 
-function handleLogEntry(runId: string, entry: LogEntry, state: RunState) {
-  if (entry.phase.toUpperCase() === 'PLAN') {
-    const match = entry.message.match(PLAN_FILE_REGEX);
-    if (match) {
-      const planPath = match[1]?.trim();
-      if (planPath && fs.existsSync(planPath)) {
-        try {
-          const planText = fs.readFileSync(planPath, 'utf-8').trim();
-          if (planText) {
-            state.planText = planText;
-          }
-        } catch {
-          // Non-fatal: run can proceed without persisted plan text.
-        }
-      }
+function readPlanText(state: RunState, planPath: string) {
+  if (!fs.existsSync(planPath)) return;
+  try {
+    const planText = fs.readFileSync(planPath, 'utf-8').trim();
+    if (planText) {
+      state.planText = planText;
     }
+  } catch {
+    // Non-fatal: run can proceed without persisted plan text.
   }
+}
 
-  state.logs.push(entry);
-  if (state.logs.length > MAX_LOGS_PER_RUN) {
-    state.logs.splice(0, state.logs.length - MAX_LOGS_PER_RUN);
+// Fallback for scripts that do not write the event stream: infer run state from log wording.
+function applyLegacyLogEntry(state: RunState, entry: LogEntry) {
+  const phase = entry.phase.toUpperCase();
+
+  if (phase === 'INIT' && entry.message.startsWith('Target branch:')) {
+    state.branchName = entry.message.replace('Target branch:', '').trim();
   }
 
-  // Detect phase transitions
-  const phase = entry.phase.toUpperCase();
+  if (phase === 'PLAN') {
+    const planPath = entry.message.match(PLAN_FILE_REGEX)?.[1]?.trim();
+    if (planPath) readPlanText(state, planPath);
+  }
 
   if (phase === 'DONE') {
     // Mark all active phases as completed
-    for (const p of PIPELINE_PHASES) {
-      if (state.phases[p] === 'active') state.phases[p] = 'completed';
-    }
+    settleActivePhases(state, 'completed');
 
     // Check for PR URL
     const prMatch = entry.message.match(PR_URL_REGEX);
@@ -420,21 +585,27 @@ function handleLogEntry(runId: string, entry: LogEntry, state: RunState) {
       state.prMergeStatus = 'checking';
       state.prMergeMessage = 'Pull request created. Checking merge status...';
     }
-  } else if (phase === 'FIX') {
-    if (entry.message.includes('Skipped')) {
-      state.phases['FIX'] = 'skipped';
-    } else {
-      updatePhaseStatus(state, phase);
-    }
-  } else if (phase === 'PLAN' && entry.message.includes('Skipped')) {
-    state.phases['PLAN'] = 'skipped';
-  } else if (PIPELINE_PHASES.includes(phase as PipelinePhase)) {
-    if (entry.message.match(/^Completed in \d+s/)) {
+  } else if (phase in state.phases) {
+    const definition = state.workflowPhases.find((item) => item.id === phase);
+    if (definition?.skippable && entry.message.includes('Skipped')) {
+      state.phases[phase] = 'skipped';
+    } else if (entry.message.match(/^Completed in \d+s/)) {
       markPhaseCompleted(state, phase);
     } else {
       updatePhaseStatus(state, phase);
     }
   }
+}
+
+function handleLogEntry(runId: string, entry: LogEntry, state: RunState) {
+  state.logs.push(entry);
+  if (state.logs.length > MAX_LOGS_PER_RUN) {
+    state.logs.splice(0, state.logs.length - MAX_LOGS_PER_RUN);
+  }
+
+  if (state.eventProtocol === null) {
+    applyLegacyLogEntry(state, entry);
+  }
 
   sendToRenderer(IPC.RUN_LOG, { runId, entry });
   sendToRenderer(IPC.RUN_PHASE, {
@@ -445,6 +616,324 @@ function handleLogEntry(runId: string, entry: LogEntry, state: RunState) {
   persistRunState(state);
 }
 
+function applyReviewIteration(state: RunState, event: Extract<RunEvent, { type: 'review_iteration' }>) {
+  if (event.max !== null) state.maxReviewIterations = event.max;
+
+  let iteration = state.reviewIterations.find((item) => item.iteration === event.iteration);
+  if (!iteration) {
+    iteration = { iteration: event.iteration, status: event.status, findings: null };
+    state.reviewIterations.push(iteration);
+  }
+  iteration.status = event.status;
+
+  if (event.findings && fs.existsSync(event.findings)) {
+    try {
+      iteration.findings = fs.readFileSync(event.findings, 'utf-8').trim() || null;
+    } catch {
+      // Non-fatal: the iteration is still tracked without its findings.
+    }
+  }
+}
+
+function applyVerifyResult(state: RunState, event: Extract<RunEvent, { type: 'verify_result' }>) {
+  let output: string | null = null;
+  // Only failing output is kept; it is what the run panel shows and what the fix model received.
+  if (event.status === 'failed' && event.output && fs.existsSync(event.output)) {
+    try {
+      output = fs.readFileSync(event.output, 'utf-8').trim().slice(-VERIFY_OUTPUT_TAIL_CHARS) || null;
+    } catch {
+      // Non-fatal: the result is still tracked without its output.
+    }
+  }
+
+  state.verifyResults.push({
+    attempt: event.attempt,
+    command: event.command,
+    passed: event.status === 'passed',
+    exitCode: event.exitCode,
+    duration: event.duration,
+    output,
+  });
+}
+
+/** Records an agent call with its cost and stops the run once it goes over a budget. */
+function applyModelUsage(runId: string, state: RunState, event: Extract<RunEvent, { type: 'usage' }>) {
+  const { costMultipliers, budget } = loadConfig();
+  const now = Date.now();
+  state.usage.push({
+    phase: Object.keys(state.phases).find((phase) => state.phases[phase] === 'active') ?? null,
+    key: getModelKeyForSlot(event.slot),
+    model: event.model,
+    status: event.status,
+    duration: event.duration,
+    inputTokens: event.inputTokens,
+    outputTokens: event.outputTokens,
+    cost: getUsageCost(event.model, event.status, costMultipliers),
+    at: now,
+  });
+
+  const overrun = getBudgetOverrun(state, listRunStates(), budget, now);
+  if (overrun && ACTIVE_RUN_STATUSES.includes(state.status)) {
+    state.errorMessage = overrun;
+    stopRun(runId);
+  }
+}
+
+/** Premium requests the first agent call of a prepared run costs: the first model of its first pending phase. */
+function getFirstCallCost(state: RunState): number {
+  const config = loadConfig();
+  const phase = state.workflowPhases.find((item) => state.phases[item.id] === 'pending' && getModelKeyForSlot(item.id));
+  const key = phase ? getModelKeyForSlot(phase.id) : null;
+  if (!key) return 0;
+  return getCallCost(mergeModelChains(config.models, state.modelOverrides)[key][0] ?? null, config.costMultipliers);
+}
+
+/** Why a prepared run may not start, given what a continued run spent before. */
+function getLaunchBudgetBlock(state: RunState, spent = 0): string | null {
+  return getBudgetBlock(listRunStates(), loadConfig().budget, Date.now(), getFirstCallCost(state), spent);
+}
+
+/** Stops the run when its next agent call, with the model, would go over a budget. */
+function stopBeforeOverBudgetCall(runId: string, state: RunState, model: string) {
+  const { costMultipliers, budget } = loadConfig();
+  const block = getNextCallBlock(state, listRunStates(), budget, Date.now(), getCallCost(model, costMultipliers));
+  if (block && ACTIVE_RUN_STATUSES.includes(state.status)) {
+    state.errorMessage = block;
+    stopRun(runId);
+  }
+}
+
+function applyRunEvent(runId: string, state: RunState, event: RunEvent) {
+  state.eventProtocol = event.v;
+
+  switch (event.type) {
+    case 'hello':
+      break;
+    case 'phase_start':
+      updatePhaseStatus(state, event.phase);
+      if (event.model) {
+        state.phaseModels[event.phase] = event.model;
+        stopBeforeOverBudgetCall(runId, state, event.model);
+      }
+      break;
+    case 'phase_end':
+      if (event.phase in state.phases) {
+        state.phases[event.phase] = event.status;
+      }
+      if (event.duration !== null) {
+        // Phases such as REVIEW and FIX can run several times; report the total time spent.
+        state.phaseDurations[event.phase] = (state.phaseDurations[event.phase] ?? 0) + event.duration;
+      }
+      break;
+    case 'artifact':
+      state.artifacts[event.kind] = event.path;
+      if (event.kind === 'plan') readPlanText(state, event.path);
+      break;
+    case 'branch':
+      state.branchName = event.name;
+      if (event.base) state.baseBranch = event.base;
+      // The commit a stacked run starts from; rebasing the run later moves it.
+      if (event.baseCommit && state.stack && !state.stack.baseCommit) {
+        state.stack = { ...state.stack, baseCommit: event.baseCommit };
+      }
+      break;
+    case 'pr':
+      updatePrState(state, {
+        prUrl: event.url,
+        prNumber: event.number ?? state.prNumber,
+        prTitle: event.title ?? state.prTitle,
+        prHeadRef: event.head ?? state.prHeadRef,
+        prBaseRef: event.base ?? state.prBaseRef,
+        prMergeStatus: 'checking',
+        prMergeMessage: 'Pull request created. Checking merge status...',
+      });
+      break;
+    case 'error':
+      state.errorMessage = event.message;
+      if (event.phase && event.phase in state.phases) {
+        state.phases[event.phase] = 'failed';
+      }
+      break;
+    case 'background':
+      if (!state.logFilePath) {
+        state.logFilePath = event.log;
+        state.pid = event.pid;
+        startBackgroundLogPolling(runId, state);
+      }
+      break;
+    case 'review_iteration':
+      applyReviewIteration(state, event);
+      break;
+    case 'verify_result':
+      applyVerifyResult(state, event);
+      break;
+    case 'checkpoint':
+      state.checkpoints.push({ phase: event.phase, ref: event.ref, commit: event.commit, createdAt: Date.now() });
+      break;
+    case 'approval_request':
+      if (state.status === 'running') state.status = 'awaiting-approval';
+      if (event.path) {
+        // The approved plan is written back to this path, even if the script never reported it as an artifact.
+        state.artifacts.plan = event.path;
+        readPlanText(state, event.path);
+      }
+      break;
+    case 'model_fallback_request':
+      answerModelFallback(runId, state, event).catch((err) => {
+        state.errorMessage = `Failed to answer the model fallback request: ${err instanceof Error ? err.message : String(err)}`;
+        sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+        persistRunState(state);
+      });
+      break;
+    case 'usage':
+      applyModelUsage(runId, state, event);
+      break;
+    case 'run_end':
+      state.scriptResult = event.status;
+      break;
+  }
+}
+
+/** Applies events appended to the run's event file since the last read. */
+function drainRunEvents(runId: string, state: RunState) {
+  if (!state.eventsFilePath) return;
+  const active = activeRuns.get(runId);
+
+  let chunk: string;
+  try {
+    const result = readNewLogChunk(state.eventsFilePath, state.eventsFileOffset);
+    chunk = result.chunk;
+    state.eventsFileOffset = result.nextOffset;
+  } catch {
+    // Non-fatal: the next read picks up from the same offset.
+    return;
+  }
+  if (!chunk) return;
+
+  const lines = ((active?.eventLineBuffer ?? '') + chunk).split('\n');
+  const rest = lines.pop() ?? '';
+  if (active) active.eventLineBuffer = rest;
+
+  let applied = false;
+  for (const line of lines) {
+    const event = line.trim() ? parseRunEvent(line) : null;
+    if (!event) continue;
+    applyRunEvent(runId, state, event);
+    applied = true;
+  }
+  if (!applied) return;
+
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+}
+
+function getApprovalFilePath(runId: string): string {
+  return path.join(RUN_EVENTS_DIR, `${runId}.approval`);
+}
+
+function getModelFallbackFilePath(runId: string): string {
+  return path.join(RUN_EVENTS_DIR, `${runId}.model`);
+}
+
+function removeEventsFile(state: RunState) {
+  if (!state.eventsFilePath) return;
+  try {
+    fs.rmSync(state.eventsFilePath, { force: true });
+    fs.rmSync(getApprovalFilePath(state.id), { force: true });
+    fs.rmSync(getModelFallbackFilePath(state.id), { force: true });
+  } catch {
+    // Non-fatal: a leftover event file does not affect other runs.
+  }
+}
+
+/**
+ * Answers a script waiting in `model_fallback_request` with the model the slot continues with, or
+ * an empty line when its chain is used up; the script polls for this file.
+ */
+async function answerModelFallback(
+  runId: string,
+  state: RunState,
+  event: Extract<RunEvent, { type: 'model_fallback_request' }>
+) {
+  const key = getModelKeyForSlot(event.slot);
+  let to: string | null = null;
+  let chooseError: unknown = null;
+  try {
+    if (key) {
+      const config = loadConfig();
+      const chain = mergeModelChains(config.models, state.modelOverrides)[key];
+      const supported = await getAgentBackend(config)
+        .listModels()
+        .catch(() => []);
+      to = chooseFallbackModel(chain, state.modelFallbacks, key, event.model, event.reason, supported);
+
+      const phase = event.slot in state.phases ? event.slot : null;
+      state.modelFallbacks.push({ key, phase, from: event.model, to, reason: event.reason, at: Date.now() });
+      if (phase && to) state.phaseModels[phase] = to;
+      if (to) stopBeforeOverBudgetCall(runId, state, to);
+    }
+  } catch (err) {
+    // The script still gets an answer, an empty one, so it gives up on the slot right away.
+    to = null;
+    chooseError = err;
+  }
+
+  // Write then rename so the script never reads a partially written answer.
+  const filePath = getModelFallbackFilePath(runId);
+  try {
+    fs.writeFileSync(`${filePath}.tmp`, `${to ?? ''}\n`, 'utf-8');
+    fs.renameSync(`${filePath}.tmp`, filePath);
+  } catch (err) {
+    // Without an answer the script would wait out its timeout.
+    failActiveRun(runId, state);
+    throw err;
+  }
+  if (chooseError) throw chooseError;
+
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+}
+
+/** Ends an active run as failed, stopping its script. */
+function failActiveRun(runId: string, state: RunState) {
+  if (!stopRun(runId)) return;
+  state.status = 'failed';
+  finishPhases(state, 'failed');
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+}
+
+/** Answers a script waiting in `approval_request`; the script polls for this file. */
+function resolvePlanApproval(runId: string, decision: 'approved' | 'rejected', planText?: string): boolean {
+  const run = activeRuns.get(runId);
+  if (!run || run.state.status !== 'awaiting-approval') return false;
+  const state = run.state;
+
+  const editedPlan = planText?.trim();
+  if (decision === 'approved' && editedPlan && state.artifacts.plan) {
+    fs.writeFileSync(state.artifacts.plan, `${editedPlan}\n`, 'utf-8');
+    state.planText = editedPlan;
+  }
+
+  // Write then rename so the script never reads a partially written decision.
+  const approvalFilePath = getApprovalFilePath(runId);
+  fs.writeFileSync(`${approvalFilePath}.tmp`, `${decision}\n`, 'utf-8');
+  fs.renameSync(`${approvalFilePath}.tmp`, approvalFilePath);
+
+  state.status = 'running';
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+  return true;
+}
+
+export function approveRunPlan(runId: string, planText: string): boolean {
+  return resolvePlanApproval(runId, 'approved', planText);
+}
+
+export function rejectRunPlan(runId: string): boolean {
+  return resolvePlanApproval(runId, 'rejected');
+}
+
 async function fetchPrView(state: RunState): Promise<GhPrView> {
   if (!state.prUrl) {
     throw new Error('No pull request URL available for this run.');
@@ -457,7 +946,7 @@ async function fetchPrView(state: RunState): Promise<GhPrView> {
       'view',
       state.prUrl,
       '--json',
-      'url,title,number,state,mergeable,headRefName,baseRefName',
+      'url,title,number,state,mergeable,headRefName,baseRefName,mergedAt',
     ],
     { cwd: state.repoPath, timeout: 30000 }
   );
@@ -492,6 +981,7 @@ function applyPrView(state: RunState, view: GhPrView) {
     prBaseRef: view.baseRefName || state.prBaseRef,
     prMergeStatus: mergeStatus,
     prMergeMessage: mergeMessage,
+    prMergedAt: view.state === 'MERGED' && view.mergedAt ? Date.parse(view.mergedAt) : state.prMergedAt,
   });
 }
 
@@ -531,6 +1021,35 @@ export async function refreshRunPrStatus(runId: string): Promise<RunPrActionResu
   }
 }
 
+/**
+ * Refreshes the PR status of finished runs whose PR is not known to be merged, or merged without a
+ * merge time, most recent first and up to PR_BACKFILL_LIMIT runs per call, so PRs merged on GitHub
+ * count in the analytics. A PR that cannot be fetched keeps its status.
+ */
+export async function backfillRunPrStatuses(): Promise<void> {
+  const runs = listRunStates()
+    .filter(
+      (run) =>
+        run.prUrl &&
+        !ACTIVE_RUN_STATUSES.includes(run.status) &&
+        (run.prMergeStatus !== 'merged' || run.prMergedAt === null) &&
+        !backfilledPrRuns.has(run.id)
+    )
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, PR_BACKFILL_LIMIT);
+
+  for (const run of runs) {
+    backfilledPrRuns.add(run.id);
+    try {
+      applyPrView(run, await fetchPrView(run));
+    } catch {
+      continue;
+    }
+    sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+    persistRunState(run);
+  }
+}
+
 async function executeMerge(state: RunState, runId: string): Promise<RunPrActionResult> {
   if (!state.prUrl) return { ok: false, error: 'No pull request exists for this run yet.' };
 
@@ -598,6 +1117,29 @@ export async function mergeRunPr(runId: string): Promise<RunPrActionResult> {
   return executeMerge(state, runId);
 }
 
+/** Runs an agent call outside a run's script, moving along the model chain as the run's scripts do. */
+async function runWithModelChain<T>(chain: string[], key: ModelKey, call: (model: string) => Promise<T>): Promise<T> {
+  const fallbacks: ModelFallback[] = [];
+  const supported = await getAgentBackend()
+    .listModels()
+    .catch(() => []);
+  let model: string | null = chain[0] ?? null;
+  if (!model) throw new Error('No model is configured for this step.');
+
+  for (;;) {
+    try {
+      return await call(model);
+    } catch (err) {
+      const error = err as Error & { stdout?: string; stderr?: string };
+      const reason = classifyModelFailure([error.message, error.stdout, error.stderr].filter(Boolean).join('\n'));
+      const next = chooseFallbackModel(chain, fallbacks, key, model, reason, supported);
+      if (!next) throw err;
+      fallbacks.push({ key, phase: null, from: model, to: next, reason, at: Date.now() });
+      model = next;
+    }
+  }
+}
+
 async function resolvePrConflictsInTempClone(state: RunState): Promise<void> {
   if (!state.prUrl) throw new Error('No pull request URL available.');
   if (!state.prHeadRef || !state.prBaseRef) {
@@ -605,7 +1147,8 @@ async function resolvePrConflictsInTempClone(state: RunState): Promise<void> {
   }
 
   const config = loadConfig();
-  const conflictModel = config.models.modelFix || config.models.modelReview;
+  const models = mergeModelChains(config.models, state.modelOverrides);
+  const conflictKey: ModelKey = models.modelFix.length > 0 ? 'modelFix' : 'modelReview';
 
   const repo = parseRepoFromPrUrl(state.prUrl);
   if (!repo) throw new Error('Could not determine repository from PR URL.');
@@ -653,10 +1196,9 @@ async function resolvePrConflictsInTempClone(state: RunState): Promise<void> {
         ...conflictedFiles.map((file) => `- ${file}`),
       ].join('\n');
 
-      await execFileAsync('opencode', ['run', '-m', conflictModel, '--', resolvePrompt], {
-        cwd: cloneDir,
-        timeout: 240000,
-      });
+      await runWithModelChain(models[conflictKey], conflictKey, (model) =>
+        getAgentBackend(config).runPrompt({ model, prompt: resolvePrompt, cwd: cloneDir, timeout: 240000 })
+      );
     }
 
     const { stdout: remainingConflictsStdout } = await execFileAsync(
@@ -735,6 +1277,108 @@ export async function resolveAndMergeRunPr(runId: string): Promise<RunPrActionRe
   }
 }
 
+/** Diff of one checkpoint against the one before it, or of all checkpoints together when `index` is null. */
+export async function getRunCheckpointDiff(runId: string, index: number | null): Promise<RunCheckpointDiffResult> {
+  const state = getRunById(runId);
+  if (!state) return { ok: false, error: 'Run not found.' };
+  if (state.checkpoints.length === 0) return { ok: false, error: 'No checkpoints were recorded for this run.' };
+
+  const lastIndex = index ?? state.checkpoints.length - 1;
+  const checkpoint = state.checkpoints[lastIndex];
+  if (!checkpoint) return { ok: false, error: 'Checkpoint not found.' };
+  const firstIndex = index ?? 0;
+  const from = firstIndex > 0 ? state.checkpoints[firstIndex - 1].commit : `${state.checkpoints[0].commit}^`;
+
+  const workspaceDir = getWorkspaceDirForRun(state);
+  if (!workspaceDir || !fs.existsSync(workspaceDir)) {
+    return { ok: false, error: 'Workspace of the run no longer exists.' };
+  }
+
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['-C', workspaceDir, 'diff', '--no-color', '--no-ext-diff', from, checkpoint.commit],
+      { timeout: 30000, maxBuffer: 64 * 1024 * 1024 }
+    );
+    const diff =
+      stdout.length > CHECKPOINT_DIFF_MAX_CHARS
+        ? `${stdout.slice(0, CHECKPOINT_DIFF_MAX_CHARS)}\n… diff truncated`
+        : stdout;
+    return { ok: true, diff };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Changes of the run's branch against its base, read from the workspace while it exists. */
+export async function getRunDiff(runId: string): Promise<RunDiffResult> {
+  const state = getRunById(runId);
+  if (!state) return { ok: false, error: 'Run not found.' };
+  if (!state.branchName) return { ok: false, error: 'The run has no branch yet.' };
+
+  const base = state.baseBranch ?? state.prBaseRef ?? (await getRepoMeta(state.repoPath))?.mainBranch;
+  if (!base) return { ok: false, error: 'Could not determine the base branch of the run.' };
+
+  const workspaceDir = getWorkspaceDirForRun(state);
+  const source = workspaceDir && fs.existsSync(path.join(workspaceDir, '.git')) ? 'workspace' : 'remote';
+
+  try {
+    const diff =
+      source === 'workspace'
+        ? await readWorkspaceDiff(workspaceDir!, base)
+        : await readRemoteBranchDiff(state.repoPath, base, state.branchName);
+    return { ok: true, source, base, ...parseUnifiedDiff(diff) };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Restores the workspace of a failed or stopped run to a checkpoint, including the uncommitted
+ * state it captured, and marks the later phases pending so the run can be resumed after it.
+ */
+export async function rollbackRunToCheckpoint(runId: string, index: number): Promise<{ ok: boolean; error?: string }> {
+  const state = getRunById(runId);
+  if (!state) return { ok: false, error: 'Run not found.' };
+  if (!state.resumable || (state.status !== 'failed' && state.status !== 'stopped')) {
+    return { ok: false, error: 'Only failed or stopped runs can be rolled back.' };
+  }
+  if (Array.from(activeRuns.values()).some((run) => run.state.parentRunId === runId)) {
+    return { ok: false, error: 'Run is being resumed.' };
+  }
+  const checkpoint = state.checkpoints[index];
+  if (!checkpoint) return { ok: false, error: 'Checkpoint not found.' };
+
+  const workspaceDir = getWorkspaceDirForRun(state);
+  if (!workspaceDir || !fs.existsSync(workspaceDir)) {
+    return { ok: false, error: 'Workspace of the run no longer exists.' };
+  }
+
+  const git = (args: string[]) => execFileAsync('git', ['-C', workspaceDir, ...args], { timeout: 30000 });
+  try {
+    // The checkpoint's parent is HEAD at the time it was taken; its tree holds the working tree.
+    await git(['reset', '--hard', '-q', `${checkpoint.commit}^`]);
+    // Workspaces created before the run log was excluded would lose the log the app is reading.
+    await git(['clean', '-fdq', '-e', '/opencode-loop.log']);
+    await git(['read-tree', '-u', '--reset', checkpoint.commit]);
+    await git(['reset', '-q']);
+    for (const later of state.checkpoints.slice(index + 1)) {
+      await git(['update-ref', '-d', later.ref]);
+    }
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  state.checkpoints = state.checkpoints.slice(0, index + 1);
+  const phaseIndex = state.workflowPhases.findIndex((phase) => phase.id === checkpoint.phase);
+  for (const phase of state.workflowPhases.slice(phaseIndex + 1)) {
+    state.phases[phase.id] = 'pending';
+  }
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+  return { ok: true };
+}
+
 async function maybeAutoMergeRun(runId: string, state: RunState) {
   if (!state.autoMerge || !state.prUrl || state.status !== 'completed') return;
 
@@ -755,91 +1399,795 @@ async function maybeAutoMergeRun(runId: string, state: RunState) {
   }
 }
 
+/** Posts the PR link on the issue the run was started from. */
+async function commentOnRunIssue(runId: string, state: RunState) {
+  if (!state.issue || !state.prUrl || state.issueCommentUrl) return;
+
+  const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
+  try {
+    const { stdout } = await execFileAsync(
+      'gh',
+      ['issue', 'comment', String(state.issue.number), '--body', `Opened ${state.prUrl} to resolve this issue.`],
+      { cwd: state.repoPath, timeout: 30000 }
+    );
+    state.issueCommentUrl = stdout.trim().split('\n').pop() || state.issue.url;
+    const message = `Linked PR on issue #${state.issue.number}`;
+    handleLogEntry(runId, { timestamp, phase: 'ISSUE', message, raw: `[ISSUE] ${message}` }, state);
+  } catch (err) {
+    const message = `Failed to comment on issue #${state.issue.number}: ${err instanceof Error ? err.message : String(err)}`;
+    handleLogEntry(runId, { timestamp, phase: 'ISSUE', message, raw: `[ISSUE] ${message}` }, state);
+  }
+  sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
+  persistRunState(state);
+}
+
+type WorkflowCommandContext = {
+  repoPath: string;
+  configPath: string;
+};
+
+function buildWorkflowCommand(
+  workflow: WorkflowDefinition,
+  params: Record<string, WorkflowParamValue>,
+  context: WorkflowCommandContext
+): { args: string[]; env: Record<string, string> } {
+  const args = (workflow.args ?? []).map((arg) =>
+    arg.replace(/\{repoPath\}/g, context.repoPath).replace(/\{configPath\}/g, context.configPath)
+  );
+  const positional: string[] = [];
+  const env: Record<string, string> = {};
+
+  for (const param of workflow.parameters) {
+    const mapping = param.mapping;
+    // Hidden parameters are absent from `params` and must not reach the script.
+    if (!mapping || !(param.key in params)) continue;
+    const value = params[param.key];
+
+    if (typeof value === 'boolean') {
+      if (value && mapping.arg) args.push(mapping.arg);
+      if (!value && mapping.argWhenFalse) args.push(mapping.argWhenFalse);
+      if (mapping.env) env[mapping.env] = String(value);
+      continue;
+    }
+
+    const text = value.trim() || mapping.emptyValue || '';
+    if (!text) continue;
+    if (mapping.arg) args.push(mapping.arg, text);
+    if (mapping.env) env[mapping.env] = text;
+    if (mapping.positional) positional.push(text);
+  }
+
+  return { args: [...args, ...positional], env };
+}
+
+function getResumeParent(options: RunOptions, runId: string): { parent: RunState; phase: string } | null {
+  if (!options.resumeFromRunId) return null;
+
+  const parent = getRunState(options.resumeFromRunId);
+  if (!parent) {
+    throw new Error('Run to resume was not found');
+  }
+  const phase = (options.resumeFromPhase ?? '').toUpperCase();
+  // A run continued in place runs its remaining phases as the same run; its phase was checked when it was queued.
+  const phases =
+    parent.id === runId
+      ? parent.status === 'queued'
+        ? [phase]
+        : getContinuePhases(parent)
+      : canPromoteVariant(parent)
+        ? [VARIANT_PROMOTE_PHASE]
+        : getResumablePhases(parent);
+  if (!phases.includes(phase)) {
+    throw new Error(`Run cannot be ${parent.id === runId ? 'continued' : 'resumed'} from ${phase || 'this phase'}`);
+  }
+  const isPending = (run: RunState) => run.status === 'queued' || ACTIVE_RUN_STATUSES.includes(run.status);
+  if (listRunStates().some((run) => run.id !== runId && run.parentRunId === parent.id && isPending(run))) {
+    throw new Error('Run is already being resumed');
+  }
+  const workspaceDir = getWorkspaceDirForRun(parent);
+  if (!workspaceDir || !fs.existsSync(workspaceDir)) {
+    throw new Error('Workspace of the run no longer exists');
+  }
+
+  return { parent, phase };
+}
+
+/** Run whose open PR a new run is stacked on. */
+function getStackBase(options: RunOptions, workflow: WorkflowDefinition): RunState | null {
+  if (!options.stackOnRunId) return null;
+
+  const base = getRunState(options.stackOnRunId);
+  if (!base) {
+    throw new Error('Run to stack on was not found');
+  }
+  if (!supportsStackedRuns(workflow)) {
+    throw new Error(`${workflow.name} does not support stacked PRs`);
+  }
+  if (base.repoPath !== options.repoPath) {
+    throw new Error('A stacked run must use the repository of the run below it');
+  }
+  if (!canStackOnRun(base)) {
+    throw new Error('Runs can only be stacked on a completed run with an open PR');
+  }
+  return base;
+}
+
+/** Environment that lets the script skip the phases the parent run already completed. */
+function buildResumeEnv(parent: RunState, phase: string): Record<string, string> {
+  const env: Record<string, string> = {
+    OPENCODE_LOOP_RESUME_FROM: phase,
+    OPENCODE_LOOP_BRANCH_NAME: parent.branchName,
+    ...(parent.stack ? { OPENCODE_LOOP_BASE_BRANCH: parent.stack.baseBranch } : {}),
+  };
+
+  const phaseIndex = parent.workflowPhases.findIndex((item) => item.id === phase);
+  const planIndex = parent.workflowPhases.findIndex((item) => item.id === 'PLAN');
+  if (planIndex !== -1 && planIndex < phaseIndex && parent.planText) {
+    env.OPENCODE_LOOP_PLAN_TEXT = parent.planText;
+  }
+
+  if (phase === 'FIX') {
+    const findings = [...parent.reviewIterations].reverse().find((item) => item.findings)?.findings;
+    if (findings) env.OPENCODE_LOOP_REVIEW_TEXT = findings;
+  }
+
+  return env;
+}
+
 export function startRun(options: RunOptions): string {
-  const runId = uuidv4();
-  const config = loadConfig();
-  const workflow = getWorkflowById(options.workflowId || config.defaultWorkflowId);
-  const prompt = options.prompt?.trim() ?? '';
-  const planText = options.planText?.trim() ?? '';
+  if (options.chain?.length) return startChain(options, options.chain);
+  if (options.batchPrompts) return startBatch(options, options.batchPrompts);
+
+  const variants = options.variants ?? [];
+  if (variants.length < 2) return launchRun(options);
+
+  if (variants.length > MAX_RUN_VARIANTS) {
+    throw new Error(`At most ${MAX_RUN_VARIANTS} variants can run at once`);
+  }
+  const workflow = findWorkflowById(options.workflowId || loadConfig().defaultWorkflowId);
+  if (!workflow || !supportsRunVariants(workflow)) {
+    throw new Error('The workflow does not support model variants');
+  }
+
+  // Variants stay commit-only until one of them is promoted.
+  const groupId = uuidv4();
+  const launches = variants.map((modelOverrides, index) => ({
+    options: { ...options, variants: undefined, modelOverrides, skipPr: true, params: { ...options.params, skipPr: true } },
+    links: { variant: { groupId, index: index + 1, outcome: null }, batch: null, chain: null },
+  }));
+  // Validate every variant first so a bad later variant does not leave part of the group queued.
+  launches.forEach((launch) => validateLaunch(launch.options, launch.links));
+
+  const runIds = launches.map((launch) => launchRun(launch.options, launch.links));
+  return runIds[0];
+}
+
+function startBatch(options: RunOptions, batchPrompts: string[]): string {
+  const prompts = batchPrompts.map((prompt) => prompt.trim()).filter(Boolean);
+  if (prompts.length === 0) {
+    throw new Error('The batch has no tasks');
+  }
+  if (prompts.length > MAX_BATCH_RUNS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_RUNS} tasks`);
+  }
+  if ((options.variants ?? []).length > 1) {
+    throw new Error('Model variants cannot be combined with a batch');
+  }
+  const workflow = findWorkflowById(options.workflowId || loadConfig().defaultWorkflowId);
+  if (!workflow || !supportsBatchRuns(workflow)) {
+    throw new Error('The workflow does not take a prompt, so it cannot run a batch');
+  }
+  if (resolveWorkflowParams(workflow, options, loadConfig()).skipPlan === true) {
+    throw new Error('A batch cannot skip planning, since every task needs its own plan');
+  }
+
+  const batchId = uuidv4();
+  const launches = prompts.map((prompt, index) => ({
+    options: { ...options, batchPrompts: undefined, variants: undefined, prompt, params: { ...options.params, prompt } },
+    links: { variant: null, batch: { batchId, index: index + 1, size: prompts.length }, chain: null },
+  }));
+  // Validate every task first so a bad later task does not leave half a batch queued.
+  launches.forEach((launch) => validateLaunch(launch.options, launch.links));
+
+  const runIds = launches.map((launch) => launchRun(launch.options, launch.links));
+  return runIds[0];
+}
+
+function startChain(options: RunOptions, chain: RunChainStep[]): string {
+  const steps = [{ options: { ...options, chain: undefined }, trigger: null, includeContext: false }, ...chain];
+  if (steps.length > MAX_CHAIN_RUNS) {
+    throw new Error(`A chain can have at most ${MAX_CHAIN_RUNS} runs`);
+  }
+  if (steps.some((step) => (step.options.variants ?? []).length > 1 || step.options.batchPrompts || step.options.chain)) {
+    throw new Error('Model variants and batches cannot be part of a chain');
+  }
+  // Validate every step first so a bad later step does not leave half a chain queued.
+  steps.forEach((step) => validateLaunch(step.options, { variant: null, batch: null, chain: null }));
+
+  const chainId = uuidv4();
+  const runIds = steps.map((step, index) =>
+    launchRun(step.options, {
+      chain: {
+        chainId,
+        index: index + 1,
+        size: steps.length,
+        trigger: step.trigger,
+        includeContext: step.includeContext,
+        waiting: index > 0,
+        message: null,
+      },
+    })
+  );
+  return runIds[0];
+}
+
+/** Stops the active step of a chain and cancels the steps that have not started yet. */
+export function cancelRunChain(chainId: string): boolean {
+  const pending = listRunStates().filter(
+    (run) => run.chain?.chainId === chainId && (run.status === 'queued' || ACTIVE_RUN_STATUSES.includes(run.status))
+  );
+  for (const run of pending) stopRun(run.id);
+  return pending.length > 0;
+}
 
-  if (workflow.requiresPrompt && options.skipPlan && !planText) {
-    throw new Error('Plan text is required when skipping the plan phase');
+/** Moves a waiting chain step to the end of the run queue, with the previous step's context added to its prompt. */
+async function releaseChainStep(run: RunState, previous: RunState) {
+  let options = run.queue!.options;
+  if (run.chain!.includeContext) {
+    const diff = await getRunDiff(previous.id);
+    const context = buildChainContext(previous, diff.ok ? diff.files ?? [] : null);
+    const basePrompt = typeof options.params?.prompt === 'string' ? options.params.prompt : options.prompt ?? '';
+    const prompt = [basePrompt.trim(), context].filter(Boolean).join('\n\n');
+    options = { ...options, prompt, params: { ...options.params, prompt } };
   }
+  // The step can be cancelled while the diff is read.
+  if (run.status !== 'queued' || !run.chain?.waiting) return;
+
+  run.chain = { ...run.chain, waiting: false, message: null };
+  run.queue = { options, order: Math.max(0, ...getQueuedRuns().map((item) => item.queue!.order)) + 1 };
+  sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+  persistRunState(run);
+}
+
+function ignoreChainError() {
+  // Non-fatal: errors of single steps are recorded on them, and the next monitor check tries again.
+}
 
-  if (workflow.requiresPrompt && !options.skipPlan && !prompt) {
-    throw new Error('Prompt is required');
+/**
+ * Releases chain steps whose previous step reached their trigger. With `refreshPrs`, the PR status of
+ * previous steps that still have to become ready or merged is refreshed first.
+ */
+async function advanceRunChains(refreshPrs: boolean) {
+  if (advancingChains) {
+    chainsChanged = true;
+    return;
   }
+  advancingChains = true;
+  try {
+    const waiting = listRunStates().filter((run) => run.status === 'queued' && run.chain?.waiting);
+    for (const run of waiting) {
+      const previous = getPreviousChainStep(listRunStates(), run);
+      const trigger = run.chain!.trigger ?? 'completed';
+      if (!previous) continue;
+
+      try {
+        const awaitsPr = trigger !== 'completed' && previous.status === 'completed' && !!previous.prUrl;
+        if (refreshPrs && awaitsPr && !isChainTriggerMet(previous, trigger)) {
+          await refreshRunPrStatus(previous.id);
+        }
+        if (isChainTriggerMet(previous, trigger)) await releaseChainStep(run, previous);
+      } catch (err) {
+        // The step keeps waiting and is tried again on the next check.
+        if (!run.chain) continue;
+        run.chain = { ...run.chain, message: `Failed to start the step: ${err instanceof Error ? err.message : String(err)}` };
+        sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+        persistRunState(run);
+      }
+    }
+  } finally {
+    advancingChains = false;
+  }
+  processRunQueue();
 
-  const executionPrompt = workflow.requiresPrompt
-    ? (prompt || 'Use the provided implementation plan.')
-    : (prompt || `Run the ${workflow.name} workflow.`);
+  if (chainsChanged) {
+    chainsChanged = false;
+    await advanceRunChains(false);
+  }
+}
+
+type GhStackBaseView = {
+  state: string;
+  headRefOid: string;
+  baseRefName: string;
+};
+
+/**
+ * Replays the commits a stacked run added on top of `upstream` onto `onto` in a temporary clone and
+ * force-pushes its PR branch. Returns the commit of `onto` the branch builds on afterwards.
+ */
+async function rebaseStackedRun(state: RunState, onto: string, upstream: string): Promise<string> {
+  if (!state.prUrl || !state.prHeadRef) {
+    throw new Error('PR branch metadata is unavailable. Refresh PR status first.');
+  }
+  const repo = parseRepoFromPrUrl(state.prUrl);
+  if (!repo) throw new Error('Could not determine repository from PR URL.');
+
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'opencode-loop-stack-'));
+  const cloneDir = path.join(tempRoot, 'repo');
+  const git = (args: string[], timeout = 30000) => execFileAsync('git', ['-C', cloneDir, ...args], { timeout });
+
+  try {
+    await execFileAsync('gh', ['repo', 'clone', repo, cloneDir], {
+      cwd: state.repoPath,
+      timeout: 120000,
+    });
+    await git(['config', 'user.name', 'CodeLoop'], 15000);
+    await git(['config', 'user.email', 'codeloop@local'], 15000);
+    await git(['fetch', 'origin', onto, state.prHeadRef]);
+    await git(['checkout', state.prHeadRef]);
+
+    try {
+      await git(['rebase', '--onto', `origin/${onto}`, upstream], 60000);
+    } catch {
+      await git(['rebase', '--abort'], 15000).catch(() => undefined);
+      throw new Error(`Rebasing onto ${onto} has conflicts. Rebase ${state.prHeadRef} by hand, then merge the stack again.`);
+    }
+
+    await git(['push', '--force-with-lease', 'origin', `HEAD:${state.prHeadRef}`], 60000);
+    const { stdout } = await git(['rev-parse', `origin/${onto}`], 15000);
+    return stdout.trim();
+  } finally {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Follows the PR below a stacked run: rebases onto its new commits, or once it has merged, rebases
+ * onto the branch it merged into and retargets the run's PR there.
+ */
+async function syncStackedRun(run: RunState) {
+  const stack = run.stack!;
+  const base = getRunById(stack.baseRunId);
+  // After the PR below merged, the run's PR targets a regular branch and has nothing left to follow.
+  if (!base?.prUrl || !isStackedOnOpenPr(run, base)) return;
+
+  let view: GhStackBaseView;
+  try {
+    const { stdout } = await execFileAsync(
+      'gh',
+      ['pr', 'view', base.prUrl, '--json', 'state,headRefOid,baseRefName'],
+      { cwd: base.repoPath, timeout: 30000 }
+    );
+    view = JSON.parse(stdout) as GhStackBaseView;
+  } catch {
+    // Try again on the next check.
+    return;
+  }
+
+  const attempt = `${view.state}:${view.headRefOid}`;
+  if (view.state === 'OPEN' && view.headRefOid === stack.baseCommit) return;
+  if (failedStackSyncs.get(run.id) === attempt) return;
+
+  try {
+    if (view.state === 'CLOSED') {
+      throw new Error('The PR below was closed without merging. Retarget this PR by hand.');
+    }
+    if (view.state === 'MERGED') {
+      const baseCommit = await rebaseStackedRun(run, view.baseRefName, stack.baseCommit!);
+      await execFileAsync('gh', ['pr', 'edit', run.prUrl!, '--base', view.baseRefName], {
+        cwd: run.repoPath,
+        timeout: 30000,
+      });
+      run.stack = { ...stack, baseBranch: view.baseRefName, baseCommit, message: null };
+      if (base.prMergeStatus !== 'merged') await refreshRunPrStatus(base.id);
+    } else {
+      const baseCommit = await rebaseStackedRun(run, stack.baseBranch, stack.baseCommit!);
+      run.stack = { ...stack, baseCommit, message: null };
+    }
+    failedStackSyncs.delete(run.id);
+  } catch (err) {
+    // Not retried until the PR below changes again or the stack is merged by hand.
+    failedStackSyncs.set(run.id, attempt);
+    run.stack = { ...stack, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+  persistRunState(run);
+  if (run.stack.baseCommit !== stack.baseCommit) await refreshRunPrStatus(run.id);
+}
+
+/** Keeps stacked PRs on top of the PRs below them and merges the runs queued to merge with their stack. */
+async function syncRunStacks() {
+  if (syncingStacks) return;
+  syncingStacks = true;
+  try {
+    // Oldest first, so a run is updated before the runs stacked on it.
+    const stacked = listRunStates()
+      .filter(
+        (run) =>
+          run.stack?.baseCommit && run.status === 'completed' && !!run.prUrl && run.prMergeStatus !== 'merged'
+      )
+      .sort((a, b) => a.startedAt - b.startedAt);
+
+    for (const run of stacked) {
+      await syncStackedRun(run);
+
+      const stack = run.stack!;
+      if (!stack.mergeWhenReady || stack.message || isStackedOnOpenPr(run, getRunById(stack.baseRunId))) continue;
+      run.stack = { ...stack, mergeWhenReady: false };
+      const result = await mergeRunPr(run.id);
+      if (!result.ok) run.stack = { ...run.stack, message: `Failed to merge PR: ${result.error}` };
+      sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+      persistRunState(run);
+    }
+  } finally {
+    syncingStacks = false;
+  }
+}
+
+/**
+ * Merges a stack bottom-up: the lowest open PR right away, every PR above it once the PR below it
+ * has merged and it was moved onto the branch that PR merged into.
+ */
+export async function mergeRunStack(runId: string): Promise<{ ok: boolean; error?: string }> {
+  const state = getRunById(runId);
+  if (!state) return { ok: false, error: 'Run not found.' };
+
+  const open = getRunStack(listRunStates(), state).filter((run) => run.prUrl && run.prMergeStatus !== 'merged');
+  if (open.length === 0) return { ok: false, error: 'Every PR of this stack has been merged.' };
+
+  for (const run of open) {
+    failedStackSyncs.delete(run.id);
+    if (!run.stack) continue;
+    const waitsForBase = run !== open[0] || isStackedOnOpenPr(run, getRunById(run.stack.baseRunId));
+    run.stack = { ...run.stack, mergeWhenReady: waitsForBase, message: null };
+    sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+    persistRunState(run);
+  }
+
+  const bottom = open[0];
+  if (!bottom.stack?.mergeWhenReady) {
+    const result = await mergeRunPr(bottom.id);
+    if (!result.ok) return { ok: false, error: result.error };
+  }
+  void syncRunStacks();
+  return { ok: true };
+}
+
+/** Checks waiting chain steps and stacked PRs periodically, as PRs change or merge outside the app. */
+export function startRunMonitor() {
+  if (monitorTimer) return;
+  const check = () => {
+    void advanceRunChains(true).catch(ignoreChainError);
+    void syncRunStacks();
+  };
+  check();
+  monitorTimer = setInterval(check, RUN_MONITOR_INTERVAL_MS);
+}
+
+function listRunStates(): RunState[] {
+  const runIds = new Set([...activeRuns.keys(), ...persistedRuns.keys()]);
+  return Array.from(runIds)
+    .map((runId) => getRunById(runId))
+    .filter((run): run is RunState => run !== null);
+}
+
+function getVariantGroup(groupId: string): RunState[] {
+  return listRunStates().filter((run) => run.variant?.groupId === groupId);
+}
+
+function getQueuedRuns(): RunState[] {
+  return sortQueuedRuns(listRunStates());
+}
+
+function hasRunCapacity(repoPath: string): boolean {
+  const { maxConcurrentRuns, maxConcurrentRunsPerRepo } = loadConfig();
+  const activeStates = listRunStates().filter((run) => ACTIVE_RUN_STATUSES.includes(run.status));
+  if (maxConcurrentRuns > 0 && activeStates.length >= maxConcurrentRuns) return false;
+  if (maxConcurrentRunsPerRepo > 0) {
+    return activeStates.filter((run) => run.repoPath === repoPath).length < maxConcurrentRunsPerRepo;
+  }
+  return true;
+}
+
+/**
+ * Starts queued runs in queue order while the global and per-repository limits allow it.
+ * A run whose repository is at its limit is passed over, so runs for other repositories can start.
+ */
+export function processRunQueue() {
+  if (runQueueClosed) return;
+  for (const queued of getQueuedRuns()) {
+    if (!hasRunCapacity(queued.repoPath)) continue;
+
+    let prepared: PreparedRun;
+    try {
+      prepared = prepareRun(queued.queue!.options, queued, queued.id);
+    } catch (err) {
+      // The workflow, script or resumed run can change while the run waits.
+      failQueuedRun(queued, err instanceof Error ? err.message : String(err));
+      continue;
+    }
+    const continued = queued.queue!.options.resumeFromRunId === queued.id;
+
+    // Runs queued before the budget ran low do not start either.
+    const budgetBlock = getLaunchBudgetBlock(prepared.state, continued ? sumUsageCost(queued.usage) : 0);
+    if (budgetBlock) {
+      failQueuedRun(queued, budgetBlock);
+      continue;
+    }
+    if (continued) {
+      spawnContinuedRun(queued, prepared);
+      continue;
+    }
+    prepared.state.startedAt = queued.startedAt;
+    prepared.state.runningAt = Date.now();
+    spawnRun(prepared);
+  }
+}
+
+function failQueuedRun(queued: RunState, message: string) {
+  queued.status = 'failed';
+  queued.queue = null;
+  queued.finishedAt = Date.now();
+  queued.errorMessage = message;
+  sendToRenderer(IPC.RUN_STATUS, { runId: queued.id, state: { ...queued } });
+  sendRunDone(queued.id, queued);
+  persistRunState(queued);
+}
+
+function scheduleRunQueue() {
+  if (queueTimer) return;
+  queueTimer = setTimeout(() => {
+    queueTimer = null;
+    processRunQueue();
+  }, 0);
+}
+
+/** Moves a queued run to another position in the queue. */
+export function moveQueuedRun(runId: string, toIndex: number): boolean {
+  const queued = getQueuedRuns();
+  const fromIndex = queued.findIndex((run) => run.id === runId);
+  if (fromIndex === -1) return false;
+
+  const [moved] = queued.splice(fromIndex, 1);
+  queued.splice(Math.max(0, Math.min(queued.length, toIndex)), 0, moved);
+  queued.forEach((run, index) => {
+    run.queue = { ...run.queue!, order: index + 1 };
+    sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+    persistRunState(run);
+  });
+
+  processRunQueue();
+  return true;
+}
+
+/** Pushes a variant and opens its PR by resuming it at PUSH; the other variants are stopped and their workspaces removed. */
+export function promoteRunVariant(runId: string): string {
+  const state = getRunById(runId);
+  if (!state?.variant || !canPromoteVariant(state)) {
+    throw new Error('Only a completed variant that has not been promoted or discarded can be promoted');
+  }
+
+  const promotedRunId = launchRun(
+    {
+      repoPath: state.repoPath,
+      workflowId: state.workflowId,
+      prompt: state.prompt,
+      skipPlan: state.skipPlan,
+      background: state.background,
+      autoMerge: state.autoMerge,
+      skipPr: false,
+      params: { ...state.params, skipPr: false },
+      maxReviewIterations: state.maxReviewIterations,
+      modelOverrides: state.modelOverrides ?? undefined,
+      resumeFromRunId: state.id,
+      resumeFromPhase: VARIANT_PROMOTE_PHASE,
+    }
+  );
+
+  for (const run of getVariantGroup(state.variant.groupId)) {
+    const promoted = run.id === runId;
+    run.variant = { ...run.variant!, outcome: promoted ? 'promoted' : 'discarded' };
+    if (!promoted) {
+      stopRun(run.id);
+      removeRunWorkspace(run);
+    }
+    sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+    persistRunState(run);
+  }
+
+  return promotedRunId;
+}
+
+/**
+ * Queues the remaining phases of a failed or stopped run from COMMIT, PUSH or PR against its workspace as
+ * it is, updating the same run. The phases between the failure and the continue phase are marked skipped,
+ * since the workspace was fixed by hand.
+ */
+export function continueRun(runId: string, phase: string): { ok: boolean; error?: string } {
+  const run = getRunById(runId);
+  if (!run) return { ok: false, error: 'Run not found.' };
+  const options: RunOptions = {
+    repoPath: run.repoPath,
+    workflowId: run.workflowId,
+    prompt: run.prompt,
+    skipPlan: run.skipPlan,
+    background: run.background,
+    autoMerge: run.autoMerge,
+    skipPr: run.skipPr,
+    params: run.params,
+    maxReviewIterations: run.maxReviewIterations,
+    modelOverrides: run.modelOverrides ?? undefined,
+    resumeFromRunId: run.id,
+    resumeFromPhase: phase,
+  };
+
+  let prepared: PreparedRun;
+  try {
+    prepared = prepareRun(options, run, run.id);
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  const budgetBlock = getLaunchBudgetBlock(prepared.state, sumUsageCost(run.usage));
+  if (budgetBlock) return { ok: false, error: budgetBlock };
+
+  const continueFrom = prepared.state.resumedFromPhase!;
+  for (const item of run.workflowPhases) {
+    if (item.id === continueFrom) break;
+    if (prepared.state.phases[item.id] !== 'completed') run.phases[item.id] = 'skipped';
+  }
+  run.status = 'queued';
+  run.errorMessage = null;
+  run.finishedAt = null;
+  run.resumedFromPhase = continueFrom;
+  run.queue = {
+    options: { ...options, resumeFromPhase: continueFrom },
+    order: Math.max(0, ...getQueuedRuns().map((item) => item.queue!.order)) + 1,
+  };
+  persistRunState(run);
+  sendToRenderer(IPC.RUN_STATUS, { runId: run.id, state: { ...run } });
+
+  processRunQueue();
+  return { ok: true };
+}
+
+/** Starts a run continued in place as the same run, keeping its history. */
+function spawnContinuedRun(run: RunState, prepared: PreparedRun) {
+  removeEventsFile(run);
+  spawnRun({
+    ...prepared,
+    state: {
+      ...run,
+      status: 'running',
+      currentPhase: 'INIT',
+      checkpoints: prepared.state.checkpoints,
+      runningAt: Date.now(),
+      pid: null,
+      logFilePath: null,
+      logFileOffset: 0,
+      eventsFilePath: prepared.state.eventsFilePath,
+      eventsFileOffset: 0,
+      eventProtocol: null,
+      scriptResult: null,
+      queue: null,
+    },
+  });
+}
+
+/** Prepares a run to check that it can start and that the budgets leave room for its first agent call. */
+function validateLaunch(options: RunOptions, links: RunLinks): RunState {
+  const { state } = prepareRun(options, links, uuidv4());
+  const budgetBlock = getLaunchBudgetBlock(state);
+  if (budgetBlock) throw new Error(budgetBlock);
+  return state;
+}
+
+/** Queues a run; it starts right away when the concurrency limits allow it. */
+function launchRun(options: RunOptions, links: Partial<RunLinks> = {}): string {
+  // Validate up front so problems are reported when the run is requested, not when it leaves the queue.
+  const state = validateLaunch(options, {
+    variant: links.variant ?? null,
+    batch: links.batch ?? null,
+    chain: links.chain ?? null,
+  });
+  state.status = 'queued';
+  state.queue = { options, order: Math.max(0, ...getQueuedRuns().map((run) => run.queue!.order)) + 1 };
+  persistRunState(state);
+  sendToRenderer(IPC.RUN_STATUS, { runId: state.id, state: { ...state } });
+
+  processRunQueue();
+  return state.id;
+}
+
+function prepareRun(options: RunOptions, { variant, batch, chain }: RunLinks, runId: string): PreparedRun {
+  const config = loadConfig();
+  const resume = getResumeParent(options, runId);
+  const workflowId = resume?.parent.workflowId || options.workflowId || config.defaultWorkflowId;
+  const workflow = findWorkflowById(workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`);
+  }
+  const params = getActiveWorkflowParams(workflow, resolveWorkflowParams(workflow, options, config));
+  const missingParam = findMissingRequiredParam(workflow, params);
+  if (missingParam) {
+    throw new Error(`${missingParam.label} is required`);
+  }
 
   const scriptPath = resolveScriptPath(workflow.id);
   if (!fs.existsSync(scriptPath)) {
     throw new Error(`Script not found: ${scriptPath}`);
   }
 
+  const readText = (key: string) => (typeof params[key] === 'string' ? (params[key] as string).trim() : '');
+  const prompt = readText('prompt');
+  const planText = readText('planText');
+  const targetBranch = readText('targetBranch');
+  const skipPlan = params.skipPlan === true;
+  const skipPr = params.skipPr === true;
+  const runMode = params.background === true ? 'background' : 'foreground';
+
+  const command = buildWorkflowCommand(workflow, params, {
+    repoPath: options.repoPath,
+    configPath: path.join(os.homedir(), '.opencode-loop.conf'),
+  });
+
+  const maxReviewIterations = Math.max(
+    1,
+    Math.min(MAX_REVIEW_ITERATIONS_LIMIT, Math.floor(options.maxReviewIterations ?? config.maxReviewIterations) || 1)
+  );
+
+  fs.mkdirSync(RUN_EVENTS_DIR, { recursive: true });
+  const eventsFilePath = path.join(RUN_EVENTS_DIR, `${runId}.ndjson`);
+  const requirePlanApproval =
+    options.requirePlanApproval === true && !skipPlan && workflow.phases.some((phase) => phase.id === 'PLAN');
+
+  // A resumed run opens the PR for the issue its parent was started from.
+  const issue = resume?.parent.issue ?? options.issue ?? null;
+  const stackBase = resume ? null : getStackBase(options, workflow);
+
   // Build environment overrides
-  const mergedModels = { ...config.models, ...options.modelOverrides };
+  // The script starts each slot with the first model of its chain and asks for fallbacks.
+  const mergedModels = mergeModelChains(config.models, options.modelOverrides);
+  const modelEnv = Object.fromEntries(
+    (Object.keys(MODEL_SLOTS) as ModelKey[]).map((key) => [`OPENCODE_LOOP_MODEL_${MODEL_SLOTS[key]}`, mergedModels[key][0] ?? ''])
+  );
   const env: Record<string, string> = {
     ...process.env as Record<string, string>,
     OPENCODE_LOOP_WORKSPACE_ROOT: config.workspaceRoot,
-    OPENCODE_LOOP_MODEL_PLAN: mergedModels.modelPlan,
-    OPENCODE_LOOP_MODEL_IMPLEMENT: mergedModels.modelImplement,
-    OPENCODE_LOOP_MODEL_REVIEW: mergedModels.modelReview,
-    OPENCODE_LOOP_MODEL_FIX: mergedModels.modelFix,
-    OPENCODE_LOOP_MODEL_COMMIT: mergedModels.modelCommit,
-    OPENCODE_LOOP_MODEL_PR: mergedModels.modelPr,
-    OPENCODE_LOOP_MODEL_BRANCH: mergedModels.modelBranch,
+    OPENCODE_LOOP_WORKSPACE_STRATEGY: config.workspaceStrategy,
+    ...getAgentBackend(config).scriptEnv(),
+    // Workspaces are removed by the retention policy in the workspace manager.
+    OPENCODE_LOOP_KEEP_WORKSPACE: 'true',
+    ...modelEnv,
+    OPENCODE_LOOP_MODEL_FALLBACK_FILE: getModelFallbackFilePath(runId),
     OPENCODE_LOOP_MAX_RETRIES: String(config.maxRetries),
+    OPENCODE_LOOP_MAX_REVIEW_ITERATIONS: String(maxReviewIterations),
+    OPENCODE_LOOP_MAX_VERIFY_ATTEMPTS: String(config.maxVerifyAttempts),
+    OPENCODE_LOOP_VERIFY_COMMANDS: config.verifyCommands.join('\n'),
     OPENCODE_LOOP_NOTIFICATION_SOUND: String(config.notificationSound),
     OPENCODE_LOOP_AUTO_APPROVE_EXTERNAL_DIRECTORY: String(config.autoApproveExternalDirectory),
     OPENCODE_LOOP_BRANCH_PREFIX: config.branchPrefix || 'codeloop',
-    OPENCODE_LOOP_SKIP_PR: String(workflow.id === 'development-auto-pr' ? (options.skipPr ?? config.skipPr ?? false) : false),
+    OPENCODE_LOOP_SKIP_PR: 'false',
+    OPENCODE_LOOP_REPO_DIR: options.repoPath,
+    OPENCODE_LOOP_EVENTS_FILE: eventsFilePath,
+    ...(requirePlanApproval ? { OPENCODE_LOOP_PLAN_APPROVAL_FILE: getApprovalFilePath(runId) } : {}),
+    ...command.env,
+    ...(resume ? buildResumeEnv(resume.parent, resume.phase) : {}),
+    ...(variant ? { OPENCODE_LOOP_BRANCH_SUFFIX: `v${variant.index}` } : {}),
+    ...(issue ? { OPENCODE_LOOP_ISSUE_NUMBER: String(issue.number) } : {}),
+    ...(stackBase ? { OPENCODE_LOOP_BASE_BRANCH: stackBase.prHeadRef! } : {}),
   };
+  const args = command.args;
 
-  const runMode = workflow.id === 'development-auto-pr' && options.background ? 'background' : 'foreground';
-
-  // Build args
-  const args: string[] = [];
-  if (workflow.id === 'development-auto-pr') {
-    args.push(
-      runMode === 'background' ? '--bg' : '--fg',
-      '--log-opencode',
-      '--config',
-      path.join(os.homedir(), '.opencode-loop.conf'),
-      '--repo-dir',
-      options.repoPath,
-    );
-
-    if (options.skipPlan && planText) {
-      env.OPENCODE_LOOP_PLAN_TEXT = planText;
-      args.push('--skip-plan');
-    }
-
-    if (options.skipPr) {
-      args.push('--skip-pr');
-    }
-
-    args.push(executionPrompt);
-  } else if (workflow.id === 'pr-autofix') {
-    if (options.targetBranch?.trim()) {
-      args.push('--branch', options.targetBranch.trim());
-    }
-    if (!options.autoMerge) {
-      args.push('--skip-merge');
+  const repoName = options.repoPath.split('/').pop() || 'repo';
+  const phases = createInitialPhases(workflow.phases, params);
+  if (resume) {
+    for (const phase of resume.parent.workflowPhases) {
+      if (phase.id === resume.phase) break;
+      phases[phase.id] = resume.parent.phases[phase.id] ?? phases[phase.id];
     }
   }
 
-  const repoName = options.repoPath.split('/').pop() || 'repo';
-  const phases =
-    workflow.id === 'development-auto-pr'
-      ? createInitialPhases(options.skipPlan, !!options.skipPr)
-      : PIPELINE_PHASES.reduce((acc, phase) => {
-          acc[phase] = 'skipped';
-          return acc;
-        }, {} as Record<PipelinePhase, PhaseStatus>);
-
   const state: RunState = {
     id: runId,
     repoPath: options.repoPath,
@@ -847,10 +2195,20 @@ export function startRun(options: RunOptions): string {
     workflowId: workflow.id,
     workflowName: workflow.name,
     prompt,
-    branchName: options.targetBranch?.trim() || '',
+    branchName: resume?.parent.branchName || targetBranch,
+    baseBranch: resume?.parent.baseBranch ?? null,
     status: 'running',
     currentPhase: 'INIT',
     phases,
+    workflowPhases: workflow.phases,
+    phaseDurations: {},
+    artifacts: {},
+    errorMessage: null,
+    maxReviewIterations,
+    reviewIterations: [],
+    verifyResults: [],
+    // The workspace is shared, so the checkpoints of the phases being skipped carry over.
+    checkpoints: resume ? resume.parent.checkpoints.filter((checkpoint) => phases[checkpoint.phase] !== 'pending') : [],
     logs: [],
     prUrl: null,
     prTitle: null,
@@ -859,32 +2217,70 @@ export function startRun(options: RunOptions): string {
     prBaseRef: null,
     prMergeStatus: 'none',
     prMergeMessage: null,
+    prMergedAt: null,
     startedAt: Date.now(),
+    runningAt: null,
     finishedAt: null,
     pid: null,
-    skipPlan: workflow.requiresPrompt ? options.skipPlan : true,
+    skipPlan,
     background: runMode === 'background',
     modelOverrides: options.modelOverrides ?? null,
-    planText: workflow.requiresPrompt && options.skipPlan ? planText || null : null,
+    phaseModels: resume
+      ? Object.fromEntries(Object.entries(resume.parent.phaseModels).filter(([phase]) => phases[phase] !== 'pending'))
+      : {},
+    modelFallbacks: [],
+    usage: [],
+    planText: resume ? resume.parent.planText : skipPlan ? planText || null : null,
     runMode,
     logFilePath: null,
     logFileOffset: 0,
-    autoMerge: !!options.autoMerge,
-    skipPr: workflow.id === 'development-auto-pr' && !!options.skipPr,
+    eventsFilePath,
+    eventsFileOffset: 0,
+    eventProtocol: null,
+    scriptResult: null,
+    requirePlanApproval,
+    resumable: workflow.resumable === true,
+    parentRunId: resume?.parent.id ?? null,
+    resumedFromPhase: resume?.phase ?? null,
+    keepWorkspace: resume?.parent.keepWorkspace ?? options.keepWorkspace === true,
+    variant,
+    // A resumed batch task stays part of its batch.
+    batch: resume?.parent.batch ?? batch,
+    // A resumed step stays in its chain; the steps after it wait for the resumed run.
+    chain: resume?.parent.chain ? { ...resume.parent.chain, waiting: false, message: null } : chain,
+    stack:
+      resume?.parent.stack ??
+      (stackBase
+        ? { baseRunId: stackBase.id, baseBranch: stackBase.prHeadRef!, baseCommit: null, message: null, mergeWhenReady: false }
+        : null),
+    issue,
+    issueCommentUrl: null,
+    scheduleId: options.scheduleId ?? null,
+    queue: null,
+    autoMerge: params.autoMerge === true,
+    skipPr,
+    params,
   };
 
+  return { state, env, args, scriptPath };
+}
+
+function spawnRun({ state, env, args, scriptPath }: PreparedRun) {
+  const runId = state.id;
   const child = spawn('bash', [scriptPath, ...args], {
     env,
-    cwd: options.repoPath,
-    detached: runMode === 'foreground',
+    cwd: state.repoPath,
+    detached: state.runMode === 'foreground',
     stdio: ['ignore', 'pipe', 'pipe'],
   });
 
   state.pid = child.pid ?? null;
-  activeRuns.set(runId, { state, process: child, logPoller: null, logLineBuffer: '' });
+  activeRuns.set(runId, { state, process: child, logPoller: null, logLineBuffer: '', eventLineBuffer: '' });
+  // A run continued in place replaces its earlier process, whose late output and exit must not touch the new state.
+  const isSuperseded = () => activeRuns.get(runId)?.process !== child;
 
   // Add to recent repos once run has been successfully created.
-  addRecentRepo(config, options.repoPath);
+  addRecentRepo(loadConfig(), state.repoPath);
 
   persistRunState(state);
 
@@ -895,13 +2291,16 @@ export function startRun(options: RunOptions): string {
   let stderrBuffer = '';
 
   child.stdout?.on('data', (data: Buffer) => {
+    if (isSuperseded()) return;
     stdoutBuffer += data.toString();
     const lines = stdoutBuffer.split('\n');
     stdoutBuffer = lines.pop() || '';
+    // Events are written before the log lines they describe, so read them first.
+    drainRunEvents(runId, state);
     for (const line of lines) {
       if (!line.trim()) continue;
 
-      const bgBootstrap = line.match(BG_BOOTSTRAP_REGEX);
+      const bgBootstrap = state.eventProtocol === null ? line.match(BG_BOOTSTRAP_REGEX) : null;
       if (bgBootstrap) {
         state.logFilePath = bgBootstrap[1].trim();
         state.pid = Number(bgBootstrap[2]);
@@ -916,19 +2315,18 @@ export function startRun(options: RunOptions): string {
 
       const entry = parseLine(line);
       if (entry) {
-        // Detect branch name
-        if (entry.phase === 'INIT' && entry.message.startsWith('Target branch:')) {
-          state.branchName = entry.message.replace('Target branch:', '').trim();
-        }
         handleLogEntry(runId, entry, state);
       }
     }
   });
 
   child.stderr?.on('data', (data: Buffer) => {
+    if (isSuperseded()) return;
     stderrBuffer += data.toString();
     const lines = stderrBuffer.split('\n');
     stderrBuffer = lines.pop() || '';
+    // Agent calls run in command substitutions, so requests they make are followed by stderr output only.
+    drainRunEvents(runId, state);
     for (const line of lines) {
       if (!line.trim()) continue;
       const entry = parseLine(line);
@@ -939,7 +2337,9 @@ export function startRun(options: RunOptions): string {
   });
 
   child.on('close', (code) => {
+    if (isSuperseded()) return;
     // Flush remaining buffers
+    drainRunEvents(runId, state);
     if (stdoutBuffer.trim()) {
       const entry = parseLine(stdoutBuffer);
       if (entry) handleLogEntry(runId, entry, state);
@@ -955,17 +2355,15 @@ export function startRun(options: RunOptions): string {
         state.finishedAt = Date.now();
         state.prMergeStatus = state.prUrl ? 'checking' : 'none';
         state.prMergeMessage = 'Background run exited before streaming started.';
-        cleanupRunWorkspace(state);
         sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
-        sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+        sendRunDone(runId, state);
         persistRunState(state);
       }
-      if (code !== 0 && state.status === 'running') {
+      if (code !== 0 && ACTIVE_RUN_STATUSES.includes(state.status)) {
         state.status = 'failed';
         state.finishedAt = Date.now();
-        cleanupRunWorkspace(state);
         sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
-        sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+        sendRunDone(runId, state);
         persistRunState(state);
       }
       return;
@@ -977,9 +2375,7 @@ export function startRun(options: RunOptions): string {
       // Already marked as stopped
     } else if (code === 0) {
       state.status = 'completed';
-      for (const p of PIPELINE_PHASES) {
-        if (state.phases[p] === 'active') state.phases[p] = 'completed';
-      }
+      finishPhases(state, 'completed');
 
       showNotification(
         'CodeLoop',
@@ -990,47 +2386,56 @@ export function startRun(options: RunOptions): string {
       );
     } else {
       state.status = 'failed';
-      for (const p of PIPELINE_PHASES) {
-        if (state.phases[p] === 'active') state.phases[p] = 'failed';
-      }
-      cleanupRunWorkspace(state);
+      finishPhases(state, 'failed');
       showNotification('CodeLoop', `Run failed (exit code ${code})`);
     }
+    removeEventsFile(state);
 
     sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
-    sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+    sendRunDone(runId, state);
     persistRunState(state);
 
     if (state.status === 'completed' && state.prUrl) {
       void maybeAutoMergeRun(runId, state);
+      void commentOnRunIssue(runId, state);
     }
   });
 
   child.on('error', (err) => {
+    if (isSuperseded()) return;
     state.status = 'failed';
     state.finishedAt = Date.now();
-    cleanupRunWorkspace(state);
     sendToRenderer(IPC.RUN_ERROR, { runId, error: err.message });
     sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...state } });
-    sendToRenderer(IPC.RUN_DONE, { runId, prUrl: state.prUrl, status: state.status, finishedAt: state.finishedAt });
+    sendRunDone(runId, state);
     persistRunState(state);
   });
-
-  return runId;
 }
 
 export function stopRun(runId: string): boolean {
   const run = activeRuns.get(runId);
   const persisted = persistedRuns.get(runId);
-  if (!run && (!persisted || persisted.status !== 'running')) return false;
+  // A run continued in place is queued with the state of its earlier process.
+  const queued = getRunById(runId);
+  if (queued?.status === 'queued') {
+    // Nothing was spawned yet; cancelling only takes the run out of the queue.
+    queued.status = 'stopped';
+    queued.queue = null;
+    queued.finishedAt = Date.now();
+    sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...queued } });
+    sendRunDone(runId, queued);
+    persistRunState(queued);
+    return true;
+  }
+  if (!run && (!persisted || !ACTIVE_RUN_STATUSES.includes(persisted.status))) return false;
 
   const targetState = run?.state ?? persisted!;
-  if (targetState.status !== 'running') return false;
+  if (!ACTIVE_RUN_STATUSES.includes(targetState.status)) return false;
 
   targetState.status = 'stopped';
   targetState.finishedAt = Date.now();
   sendToRenderer(IPC.RUN_STATUS, { runId, state: { ...targetState } });
-  sendToRenderer(IPC.RUN_DONE, { runId, prUrl: targetState.prUrl, status: targetState.status, finishedAt: targetState.finishedAt });
+  sendRunDone(runId, targetState);
   persistRunState(targetState);
 
   stopPolling(runId);
@@ -1064,7 +2469,7 @@ export function stopRun(runId: string): boolean {
     }
   }
 
-  cleanupRunWorkspace(targetState);
+  removeEventsFile(targetState);
   return true;
 }
 
@@ -1114,7 +2519,7 @@ export function cleanupAllRuns() {
     }
 
     // Mark running runs as stopped
-    if (run.state.status === 'running') {
+    if (ACTIVE_RUN_STATUSES.includes(run.state.status)) {
       run.state.status = 'stopped';
       run.state.finishedAt = Date.now();
       persistedRuns.set(runId, { ...run.state, phases: { ...run.state.phases }, logs: [...run.state.logs] });
@@ -1123,6 +2528,13 @@ export function cleanupAllRuns() {
 
   activeRuns.clear();
 
+  // Queued runs stay queued and start after the next launch.
+  runQueueClosed = true;
+  if (queueTimer) clearTimeout(queueTimer);
+  queueTimer = null;
+  if (monitorTimer) clearInterval(monitorTimer);
+  monitorTimer = null;
+
   // Persist synchronously so data isn't lost
   try {
     persistRunsNow();
@@ -0,0 +1,185 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { loadConfig } from './config-manager';
+import { getWorkspaceDirForRun, getWorktreeRepoGitDir, listRuns, removeWorkspaceDir } from './script-runner';
+import { ACTIVE_RUN_STATUSES } from '../shared/types';
+import type { RunState, WorkspaceInfo, WorkspaceKind, WorkspaceRetention } from '../shared/types';
+
+const execFileAsync = promisify(execFile);
+
+const SWEEP_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+type WorkspaceOwner = {
+  /** Latest run that used the workspace. */
+  run: RunState;
+  /** A queued or active run uses the workspace, e.g. a pending resume. */
+  inUse: boolean;
+};
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+function listWorkspaceDirs(workspaceRoot: string): string[] {
+  try {
+    return (
+      fs
+        .readdirSync(workspaceRoot, { withFileTypes: true })
+        // Dot directories hold data shared by all runs, such as the mirror cache.
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map((entry) => path.join(workspaceRoot, entry.name))
+    );
+  } catch {
+    return [];
+  }
+}
+
+function mapWorkspaceOwners(): Map<string, WorkspaceOwner> {
+  const owners = new Map<string, WorkspaceOwner>();
+  for (const run of listRuns()) {
+    const dir = getWorkspaceDirForRun(run);
+    if (!dir) continue;
+    const inUse = run.status === 'queued' || ACTIVE_RUN_STATUSES.includes(run.status);
+    const current = owners.get(dir);
+    owners.set(dir, {
+      run: !current || run.startedAt > current.run.startedAt ? run : current.run,
+      inUse: inUse || current?.inUse === true,
+    });
+  }
+  return owners;
+}
+
+async function readGit(dir: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', dir, ...args], { timeout: 15000 });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function measureDir(dir: string): Promise<number | null> {
+  try {
+    const { stdout } = await execFileAsync('du', ['-sk', dir], { timeout: 120000 });
+    const kilobytes = parseInt(stdout, 10);
+    return Number.isFinite(kilobytes) ? kilobytes * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+function getRetentionDays(kind: WorkspaceKind, retention: WorkspaceRetention): number {
+  if (kind === 'failed') return retention.failedDays;
+  if (kind === 'pushed') return retention.pushedDays;
+  if (kind === 'local') return retention.localDays;
+  return 0;
+}
+
+async function readWorkspace(
+  dir: string,
+  owner: WorkspaceOwner | undefined,
+  retention: WorkspaceRetention,
+  withSize: boolean
+): Promise<WorkspaceInfo> {
+  const run = owner?.run ?? null;
+  const branchName = (await readGit(dir, ['rev-parse', '--abbrev-ref', 'HEAD'])) ?? run?.branchName ?? null;
+  const upstream = await readGit(dir, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+  const pushed = !!upstream || !!run?.prUrl;
+
+  const kind: WorkspaceKind = owner?.inUse
+    ? 'active'
+    : run?.status === 'failed' || run?.status === 'stopped'
+      ? 'failed'
+      : pushed
+        ? 'pushed'
+        : 'local';
+  const updatedAt = run?.finishedAt ?? fs.statSync(dir).mtimeMs;
+  // Kept for the user to fix by hand and continue the run; directories no run owns are never removed.
+  const days = !run || (kind === 'failed' && run.keepWorkspace) ? 0 : getRetentionDays(kind, retention);
+
+  return {
+    path: dir,
+    name: path.basename(dir),
+    runId: run?.id ?? null,
+    repoName: run?.repoName ?? null,
+    branchName,
+    worktree: getWorktreeRepoGitDir(dir) !== null,
+    pushed,
+    kind,
+    sizeBytes: withSize ? await measureDir(dir) : null,
+    updatedAt,
+    expiresAt: days > 0 ? updatedAt + days * DAY_MS : null,
+  };
+}
+
+async function readWorkspaces(withSize: boolean): Promise<WorkspaceInfo[]> {
+  const config = loadConfig();
+  const owners = mapWorkspaceOwners();
+  const workspaces: WorkspaceInfo[] = [];
+  // One at a time: measuring large workspaces in parallel thrashes the disk.
+  for (const dir of listWorkspaceDirs(config.workspaceRoot)) {
+    try {
+      workspaces.push(await readWorkspace(dir, owners.get(dir), config.workspaceRetention, withSize));
+    } catch {
+      // Removed while it was read.
+    }
+  }
+  return workspaces.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function listWorkspaces(): Promise<WorkspaceInfo[]> {
+  return readWorkspaces(true);
+}
+
+/** Deletes workspaces in the workspace root; workspaces of queued and active runs are kept. */
+export function deleteWorkspaces(paths: string[]): { ok: boolean; error?: string } {
+  const config = loadConfig();
+  const dirs = new Set(listWorkspaceDirs(config.workspaceRoot));
+  const owners = mapWorkspaceOwners();
+
+  let kept = 0;
+  for (const dir of paths) {
+    if (!dirs.has(dir)) continue;
+    if (owners.get(dir)?.inUse) {
+      kept += 1;
+      continue;
+    }
+    removeWorkspaceDir(dir);
+  }
+
+  if (kept > 0) {
+    return { ok: false, error: `${kept} ${kept === 1 ? 'workspace is' : 'workspaces are'} in use by a run and ${kept === 1 ? 'was' : 'were'} kept.` };
+  }
+  return { ok: true };
+}
+
+/** Deletes the workspaces of known runs that the retention policy no longer keeps. */
+async function sweepWorkspaces() {
+  if (sweeping) return;
+  sweeping = true;
+  try {
+    const now = Date.now();
+    for (const workspace of await readWorkspaces(false)) {
+      if (workspace.runId === null || workspace.expiresAt === null || workspace.expiresAt > now) continue;
+      // Reading the workspaces awaits git, so a run may have started on this one since it was classified.
+      const owner = mapWorkspaceOwners().get(workspace.path);
+      if (!owner || owner.inUse || owner.run.id !== workspace.runId) continue;
+      removeWorkspaceDir(workspace.path);
+    }
+  } finally {
+    sweeping = false;
+  }
+}
+
+export function startWorkspaceSweeper() {
+  if (sweepTimer) return;
+  void sweepWorkspaces();
+  sweepTimer = setInterval(() => void sweepWorkspaces(), SWEEP_INTERVAL_MS);
+}
+
+export function stopWorkspaceSweeper() {
+  if (sweepTimer) clearInterval(sweepTimer);
+  sweepTimer = null;
+}
@@ -7,9 +7,17 @@ import type {
   LogEntry,
   RepoMeta,
   RepoOpenPr,
+  RepoIssue,
+  RepoIssueDetail,
   RepoBranchLookup,
   LaunchRequirements,
+  ModelProviderReadiness,
   RunPrActionResult,
+  RunCheckpointDiffResult,
+  RunDiffResult,
+  RunScheduleStatus,
+  WorkflowDefinition,
+  WorkspaceInfo,
 } from '@shared/types';
 
 const api = {
@@ -27,6 +35,24 @@ const api = {
   mergeRunPr: (runId: string): Promise<RunPrActionResult> => ipcRenderer.invoke(IPC.RUN_PR_MERGE, runId),
   resolveAndMergeRunPr: (runId: string): Promise<RunPrActionResult> =>
     ipcRenderer.invoke(IPC.RUN_PR_RESOLVE_MERGE, runId),
+  backfillRunPrStatuses: (): Promise<void> => ipcRenderer.invoke(IPC.RUN_PR_BACKFILL),
+  approveRunPlan: (runId: string, planText: string): Promise<boolean> =>
+    ipcRenderer.invoke(IPC.RUN_PLAN_APPROVE, runId, planText),
+  rejectRunPlan: (runId: string): Promise<boolean> => ipcRenderer.invoke(IPC.RUN_PLAN_REJECT, runId),
+  getRunCheckpointDiff: (runId: string, index: number | null): Promise<RunCheckpointDiffResult> =>
+    ipcRenderer.invoke(IPC.RUN_CHECKPOINT_DIFF, runId, index),
+  rollbackRunToCheckpoint: (runId: string, index: number): Promise<{ ok: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC.RUN_CHECKPOINT_ROLLBACK, runId, index),
+  getRunDiff: (runId: string): Promise<RunDiffResult> => ipcRenderer.invoke(IPC.RUN_DIFF, runId),
+  promoteRunVariant: (runId: string): Promise<{ ok: boolean; runId?: string; error?: string }> =>
+    ipcRenderer.invoke(IPC.RUN_VARIANT_PROMOTE, runId),
+  cancelRunChain: (chainId: string): Promise<boolean> => ipcRenderer.invoke(IPC.RUN_CHAIN_CANCEL, chainId),
+  mergeRunStack: (runId: string): Promise<{ ok: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC.RUN_STACK_MERGE, runId),
+  continueRun: (runId: string, phase: string): Promise<{ ok: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC.RUN_CONTINUE, runId, phase),
+  moveQueuedRun: (runId: string, toIndex: number): Promise<boolean> =>
+    ipcRenderer.invoke(IPC.RUN_QUEUE_MOVE, runId, toIndex),
 
   // Run events (streaming)
   onRunLog: (callback: (data: { runId: string; entry: LogEntry }) => void) => {
@@ -63,12 +89,25 @@ const api = {
     return () => ipcRenderer.removeListener(IPC.RUN_STATUS, handler);
   },
 
+  // Schedules
+  getScheduleStatuses: (): Promise<Record<string, RunScheduleStatus>> => ipcRenderer.invoke(IPC.SCHEDULE_STATUS),
+  runScheduleNow: (scheduleId: string): Promise<{ ok: boolean; runIds?: string[]; error?: string }> =>
+    ipcRenderer.invoke(IPC.SCHEDULE_RUN_NOW, scheduleId),
+
+  // Workspaces
+  listWorkspaces: (): Promise<WorkspaceInfo[]> => ipcRenderer.invoke(IPC.WORKSPACE_LIST),
+  deleteWorkspaces: (paths: string[]): Promise<{ ok: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC.WORKSPACE_DELETE, paths),
+
   // Repo
   validateRepo: (path: string): Promise<boolean> => ipcRenderer.invoke(IPC.REPO_VALIDATE, path),
   getRepoMeta: (path: string): Promise<RepoMeta | null> => ipcRenderer.invoke(IPC.REPO_META, path),
   listRepoBranches: (path: string): Promise<{ branches: string[]; current: string | null }> =>
     ipcRenderer.invoke(IPC.REPO_BRANCHES, path),
   listMyOpenPrs: (path: string): Promise<RepoOpenPr[]> => ipcRenderer.invoke(IPC.REPO_OPEN_PRS, path),
+  listOpenIssues: (path: string): Promise<RepoIssue[]> => ipcRenderer.invoke(IPC.REPO_ISSUES, path),
+  getRepoIssue: (path: string, number: number): Promise<RepoIssueDetail | null> =>
+    ipcRenderer.invoke(IPC.REPO_ISSUE, path, number),
   lookupRepoBranch: (path: string, branch: string): Promise<RepoBranchLookup> =>
     ipcRenderer.invoke(IPC.REPO_BRANCH_LOOKUP, path, branch),
   pickFolder: (): Promise<{ path: string; meta: RepoMeta | null } | { error: string } | null> =>
@@ -80,6 +119,11 @@ const api = {
 
   // Models
   listModels: (): Promise<string[]> => ipcRenderer.invoke(IPC.MODELS_LIST),
+  checkModelProviders: (providers: string[]): Promise<ModelProviderReadiness[]> =>
+    ipcRenderer.invoke(IPC.MODEL_PROVIDERS_CHECK, providers),
+
+  // Workflows
+  listWorkflows: (): Promise<WorkflowDefinition[]> => ipcRenderer.invoke(IPC.WORKFLOWS_LIST),
 
   // Startup checks
   checkLaunchRequirements: (): Promise<LaunchRequirements> => ipcRenderer.invoke(IPC.APP_LAUNCH_REQUIREMENTS),
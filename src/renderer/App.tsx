@@ -2,24 +2,35 @@ import { useCallback, useEffect, useState } from 'react';
 import Sidebar from './components/Sidebar';
 import RunPanel from './components/RunPanel';
 import NewRunDialog from './components/NewRunDialog';
+import NewChainDialog from './components/NewChainDialog';
 import ConfigEditor from './components/ConfigEditor';
+import SchedulesView from './components/SchedulesView';
+import WorkspacesView from './components/WorkspacesView';
+import AnalyticsView from './components/AnalyticsView';
 import LaunchRequirementsDialog from './components/LaunchRequirementsDialog';
 import { useRuns } from './hooks/useRuns';
 import { useConfig } from './hooks/useConfig';
 import api from './lib/ipc';
+import { sortQueuedRuns } from '@shared/run-queue';
+import { getRunStack } from '@shared/run-stack';
 import type { RunOptions, LaunchRequirements } from '@shared/types';
 import { Button } from '@shared/components/ui/button';
 import { ModeToggle } from './components/theme/mode-toggle';
 import { RefreshCw } from 'lucide-react';
 
-type View = 'runs' | 'config';
+type View = 'runs' | 'schedules' | 'workspaces' | 'analytics' | 'config';
 
 export default function App() {
-  const { runs, selectedRun, selectedRunId, setSelectedRunId, startRun, stopRun } = useRuns();
+  const { runs, selectedRun, selectedRunId, setSelectedRunId, startRun, promoteVariant, stopRun, moveQueuedRun } =
+    useRuns();
+  const queuedRuns = sortQueuedRuns(runs);
+  const selectedQueueIndex = queuedRuns.findIndex((run) => run.id === selectedRunId);
+  const selectedStackRuns = selectedRun ? getRunStack(runs, selectedRun) : [];
   const { config, loading: configLoading, save: saveConfig, reload: reloadConfig } = useConfig();
   const [view, setView] = useState<View>('runs');
   const [showNewRun, setShowNewRun] = useState(false);
   const [newRunPreset, setNewRunPreset] = useState<Partial<RunOptions> | null>(null);
+  const [showNewChain, setShowNewChain] = useState(false);
   const [checkingLaunchRequirements, setCheckingLaunchRequirements] = useState(false);
   const [launchRequirements, setLaunchRequirements] = useState<LaunchRequirements | null>(null);
 
@@ -44,12 +55,17 @@ export default function App() {
       setLaunchRequirements({
         ready: false,
         checkedAt: Date.now(),
-        opencode: {
-          installed: false,
-          authenticated: false,
-          hint: 'Unable to verify OpenCode CLI status',
-          details: 'Failed to run startup checks. Please ensure terminal commands are available and try again.',
-        },
+        agents: [
+          {
+            backend: config.agentBackend,
+            name: 'Coding agent CLI',
+            installed: false,
+            authenticated: false,
+            hint: 'Unable to verify the coding agent CLI status',
+            details: 'Failed to run startup checks. Please ensure terminal commands are available and try again.',
+            providers: [],
+          },
+        ],
         gh: {
           installed: false,
           authenticated: false,
@@ -101,6 +117,7 @@ export default function App() {
           setNewRunPreset(null);
           setShowNewRun(true);
         }}
+        onNewChain={() => setShowNewChain(true)}
         view={view}
         onViewChange={setView}
       />
@@ -108,6 +125,28 @@ export default function App() {
       <main className="flex-1 flex flex-col overflow-hidden bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         {view === 'config' ? (
           <ConfigEditor key={JSON.stringify(config)} config={config} onSave={saveConfig} />
+        ) : view === 'schedules' ? (
+          <SchedulesView
+            config={config}
+            runs={runs}
+            onSave={(schedules) => saveConfig({ ...config, schedules })}
+            onSelectRun={(runId) => {
+              setSelectedRunId(runId);
+              setView('runs');
+            }}
+          />
+        ) : view === 'workspaces' ? (
+          <WorkspacesView
+            config={config}
+            runs={runs}
+            onSave={(workspaceRetention) => saveConfig({ ...config, workspaceRetention })}
+            onSelectRun={(runId) => {
+              setSelectedRunId(runId);
+              setView('runs');
+            }}
+          />
+        ) : view === 'analytics' ? (
+          <AnalyticsView runs={runs} />
         ) : selectedRun ? (
           <RunPanel
             run={selectedRun}
@@ -117,6 +156,25 @@ export default function App() {
               setNewRunPreset(options);
               setShowNewRun(true);
             }}
+            onResume={startRun}
+            variantRuns={
+              selectedRun.variant
+                ? runs.filter((run) => run.variant?.groupId === selectedRun.variant?.groupId)
+                : []
+            }
+            batchRuns={
+              selectedRun.batch ? runs.filter((run) => run.batch?.batchId === selectedRun.batch?.batchId) : []
+            }
+            chainRuns={
+              selectedRun.chain ? runs.filter((run) => run.chain?.chainId === selectedRun.chain?.chainId) : []
+            }
+            stackRuns={selectedStackRuns}
+            onSelectRun={setSelectedRunId}
+            onPromoteVariant={promoteVariant}
+            queuePosition={
+              selectedQueueIndex === -1 ? null : { index: selectedQueueIndex, length: queuedRuns.length }
+            }
+            onMoveQueued={moveQueuedRun}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center text-muted-foreground">
@@ -166,6 +224,21 @@ export default function App() {
         />
       )}
 
+      {showNewChain && (
+        <NewChainDialog
+          config={config}
+          onStart={async (options) => {
+            const result = await startRun(options);
+            if (result.ok) {
+              setShowNewChain(false);
+              setView('runs');
+            }
+            return result;
+          }}
+          onClose={() => setShowNewChain(false)}
+        />
+      )}
+
       <LaunchRequirementsDialog
         requirements={launchRequirements}
         checking={checkingLaunchRequirements}
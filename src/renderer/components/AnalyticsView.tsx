@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/ipc';
+import { computeRunAnalytics } from '@shared/run-analytics';
+import type { AnalyticsFilter, CostBucket, OutcomeStats, PhaseDurationStats } from '@shared/run-analytics';
+import { formatCost, getDayStart } from '@shared/cost-model';
+import type { RunState } from '@shared/types';
+import { Card } from '@shared/components/ui/card';
+import { Input } from '@shared/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+
+interface AnalyticsViewProps {
+  runs: RunState[];
+}
+
+type DateRange = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+const DAY_MS = 24 * 60 * 60_000;
+const ALL_REPOS = '__all__';
+
+const RANGE_OPTIONS: { value: DateRange; label: string; days: number | null }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: 'all', label: 'All time', days: null },
+  { value: 'custom', label: 'Custom range', days: null },
+];
+
+/** Local midnight of a `YYYY-MM-DD` date input value, or null while it is empty. */
+function parseDateInput(value: string): number | null {
+  return value ? new Date(`${value}T00:00`).getTime() : null;
+}
+
+function getDateRange(range: DateRange, customFrom: string, customTo: string, now: number) {
+  if (range === 'custom') {
+    const to = parseDateInput(customTo);
+    return { from: parseDateInput(customFrom), to: to === null ? null : to + DAY_MS };
+  }
+  const days = RANGE_OPTIONS.find((option) => option.value === range)?.days ?? null;
+  return { from: days === null ? null : getDayStart(now) - (days - 1) * DAY_MS, to: null };
+}
+
+function formatPercent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '—';
+}
+
+function formatSeconds(seconds: number): string {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
+
+function formatSpan(ms: number | null): string {
+  if (ms === null) return '—';
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
+      <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{label}</div>
+      <div className="text-2xl font-bold tabular-nums mt-1">{value}</div>
+      <div className="text-xs text-muted-foreground mt-0.5">{detail}</div>
+    </Card>
+  );
+}
+
+function OutcomeChart({ title, stats }: { title: string; stats: OutcomeStats[] }) {
+  return (
+    <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm space-y-2">
+      <h3 className="font-semibold">{title}</h3>
+      {stats.length === 0 && <p className="text-sm text-muted-foreground italic">No runs</p>}
+      {stats.map((item) => (
+        <div key={item.label} className="space-y-1">
+          <div className="flex items-center justify-between gap-4 text-xs">
+            <span className="truncate" title={item.label}>
+              {item.label}
+            </span>
+            <span className="text-muted-foreground tabular-nums shrink-0">
+              {formatPercent(item.completed, item.total)} succeeded · {item.total} {item.total === 1 ? 'run' : 'runs'}
+            </span>
+          </div>
+          <div
+            className="flex h-2 rounded-full overflow-hidden bg-muted"
+            title={`${item.completed} completed, ${item.failed} failed, ${item.stopped} stopped`}
+          >
+            <div className="bg-emerald-500" style={{ width: `${(item.completed / item.total) * 100}%` }} />
+            <div className="bg-destructive" style={{ width: `${(item.failed / item.total) * 100}%` }} />
+            <div className="bg-yellow-500" style={{ width: `${(item.stopped / item.total) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </Card>
+  );
+}
+
+function PhaseDurationChart({ phases }: { phases: PhaseDurationStats[] }) {
+  const longest = Math.max(1, ...phases.map((item) => item.average));
+  return (
+    <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm space-y-2">
+      <h3 className="font-semibold">Average Phase Duration</h3>
+      {phases.length === 0 && <p className="text-sm text-muted-foreground italic">No phase durations reported</p>}
+      {phases.map((item) => (
+        <div key={item.phase} className="flex items-center gap-3 text-xs">
+          <span className="w-20 shrink-0 font-medium">{item.phase}</span>
+          <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${(item.average / longest) * 100}%` }} />
+          </div>
+          <span className="w-16 shrink-0 text-right tabular-nums" title={`Over ${item.runs} runs`}>
+            {formatSeconds(item.average)}
+          </span>
+        </div>
+      ))}
+    </Card>
+  );
+}
+
+function CostChart({ buckets, bucketDays }: { buckets: CostBucket[]; bucketDays: number }) {
+  const highest = Math.max(0, ...buckets.map((bucket) => bucket.cost));
+  return (
+    <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Estimated Cost</h3>
+        <span className="text-xs text-muted-foreground">
+          Premium requests per {bucketDays === 1 ? 'day' : 'week'}
+          {highest > 0 && ` · peak ${formatCost(highest)}`}
+        </span>
+      </div>
+      {highest === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No priced agent calls in this range</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${buckets.length * 10} 100`} preserveAspectRatio="none" className="w-full h-32">
+            {buckets.map((bucket, index) => {
+              const height = (bucket.cost / highest) * 100;
+              return (
+                <rect
+                  key={bucket.start}
+                  x={index * 10 + 1}
+                  y={100 - height}
+                  width={8}
+                  height={height}
+                  className="fill-primary/70 hover:fill-primary"
+                >
+                  <title>{`${formatDay(bucket.start)}: ${formatCost(bucket.cost)}`}</title>
+                </rect>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-[10px] text-muted-foreground tabular-nums">
+            <span>{formatDay(buckets[0].start)}</span>
+            <span>{formatDay(buckets[buckets.length - 1].start)}</span>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
+
+export default function AnalyticsView({ runs }: AnalyticsViewProps) {
+  const [range, setRange] = useState<DateRange>('30d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [repoPath, setRepoPath] = useState(ALL_REPOS);
+  // Taken when the view opens, so the range does not shift while it is shown.
+  const [now] = useState(() => Date.now());
+
+  // PRs merged on GitHub count once their status is refreshed; the refreshed runs arrive as status updates.
+  useEffect(() => {
+    void api().backfillRunPrStatuses();
+  }, []);
+
+  const repos = [...new Map(runs.map((run) => [run.repoPath, run.repoName])).entries()].sort((a, b) =>
+    a[1].localeCompare(b[1])
+  );
+  const filter: AnalyticsFilter = {
+    ...getDateRange(range, customFrom, customTo, now),
+    repoPath: repoPath === ALL_REPOS ? null : repoPath,
+  };
+  const analytics = computeRunAnalytics(runs, filter, now);
+  const completed = analytics.byWorkflow.reduce((total, item) => total + item.completed, 0);
+
+  return (
+    <div className="flex-1 overflow-y-auto pt-12 bg-background/50">
+      <div className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4 sticky top-0 z-10 bg-background/80 backdrop-blur-xl py-4 -mx-6 px-6 border-b border-border/50 shadow-sm">
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight">Analytics</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {analytics.runs} finished {analytics.runs === 1 ? 'run' : 'runs'} from the run history
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {range === 'custom' && (
+              <>
+                <Input
+                  type="date"
+                  value={customFrom}
+                  onChange={(e) => setCustomFrom(e.target.value)}
+                  className="w-36 bg-background/50"
+                />
+                <Input
+                  type="date"
+                  value={customTo}
+                  onChange={(e) => setCustomTo(e.target.value)}
+                  className="w-36 bg-background/50"
+                />
+              </>
+            )}
+            <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+              <SelectTrigger className="w-[150px] bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={repoPath} onValueChange={setRepoPath}>
+              <SelectTrigger className="w-[180px] bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_REPOS}>All repositories</SelectItem>
+                {repos.map(([path, name]) => (
+                  <SelectItem key={path} value={path}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <StatCard
+            label="Success Rate"
+            value={formatPercent(completed, analytics.runs)}
+            detail={`${completed} of ${analytics.runs} runs completed`}
+          />
+          <StatCard
+            label="Needed Fixes"
+            value={formatPercent(analytics.fix.needed, analytics.fix.total)}
+            detail={`${analytics.fix.needed} of ${analytics.fix.total} reviewed runs`}
+          />
+          <StatCard
+            label="PR Merge Rate"
+            value={formatPercent(analytics.pr.merged, analytics.pr.opened)}
+            detail={`Median time to merge ${formatSpan(analytics.pr.medianTimeToMerge)}, average ${formatSpan(analytics.pr.averageTimeToMerge)}`}
+          />
+          <StatCard
+            label="Estimated Cost"
+            value={formatCost(analytics.cost.total)}
+            detail="Premium requests"
+          />
+        </div>
+
+        <CostChart buckets={analytics.cost.buckets} bucketDays={analytics.cost.bucketDays} />
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <OutcomeChart title="By Workflow" stats={analytics.byWorkflow} />
+          <OutcomeChart title="By Repository" stats={analytics.byRepo} />
+          <OutcomeChart title="By Model Mix" stats={analytics.byModelMix} />
+          <PhaseDurationChart phases={analytics.phaseDurations} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
 import { useState, useEffect } from 'react';
 import api from '../lib/ipc';
-import { PREDEFINED_WORKFLOWS } from '@shared/types';
-import type { AppConfig, ModelConfig } from '@shared/types';
+import ModelSelectItems from './ModelSelectItems';
+import { MAX_REVIEW_ITERATIONS_LIMIT, MAX_VERIFY_ATTEMPTS_LIMIT, PREDEFINED_WORKFLOWS } from '@shared/types';
+import type {
+  AgentBackendId,
+  AppConfig,
+  CommandAgentConfig,
+  CostBudget,
+  CostMultiplier,
+  ModelConfig,
+  ModelProviderReadiness,
+  WorkflowDefinition,
+  WorkspaceStrategy,
+} from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
 import { Button } from '@shared/components/ui/button';
 import { Input } from '@shared/components/ui/input';
 import { Label } from '@shared/components/ui/label';
@@ -9,7 +21,7 @@ import { Switch } from '@shared/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@shared/components/ui/card';
 import { Separator } from '@shared/components/ui/separator';
-import { Save, FolderOpen, Plus, X, CheckCircle2 } from 'lucide-react';
+import { Save, FolderOpen, Plus, X, CheckCircle2, Loader2, RefreshCw, ArrowUp } from 'lucide-react';
 
 interface ConfigEditorProps {
   config: AppConfig;
@@ -26,6 +38,20 @@ const MODEL_FIELDS: { key: keyof ModelConfig; label: string; description: string
   { key: 'modelBranch', label: 'Branch Name', description: 'Used for generating branch name slugs' },
 ];
 
+const WORKSPACE_STRATEGY_LABELS: Record<WorkspaceStrategy, string> = {
+  clone: 'Full clone per run',
+  worktree: 'Git worktree of the local repository',
+  mirror: 'Clone from a shared mirror cache',
+};
+
+const AGENT_BACKEND_LABELS: Record<AgentBackendId, string> = {
+  opencode: 'OpenCode CLI',
+  command: 'Other agent CLI',
+};
+
+const TEXTAREA_CLASS =
+  'w-full bg-background/50 border border-input rounded-md px-3 py-2 text-sm font-mono placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y';
+
 export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
   const [draft, setDraft] = useState<AppConfig>({ ...config });
   const [saving, setSaving] = useState(false);
@@ -33,6 +59,11 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
   const [availableModels, setAvailableModels] = useState<string[]>([]);
   const [loadingModels, setLoadingModels] = useState(true);
   const [newCommand, setNewCommand] = useState('');
+  const [newVerifyCommand, setNewVerifyCommand] = useState('');
+  const [newProvider, setNewProvider] = useState('');
+  const [providerChecks, setProviderChecks] = useState<Map<string, ModelProviderReadiness>>(new Map());
+  const [checkingProviders, setCheckingProviders] = useState(false);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>(PREDEFINED_WORKFLOWS);
 
   useEffect(() => {
     api()
@@ -42,23 +73,116 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
         setLoadingModels(false);
       })
       .catch(() => setLoadingModels(false));
+    api().listWorkflows().then(setWorkflows);
   }, []);
 
+  // Saved providers are checked when they change; unsaved edits with the Check button.
+  useEffect(() => {
+    if (config.agentBackend !== 'opencode') return;
+    let cancelled = false;
+    api()
+      .checkModelProviders(config.modelProviders)
+      .then((results) => {
+        if (!cancelled) setProviderChecks(new Map(results.map((result) => [result.id, result])));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [config.agentBackend, config.modelProviders]);
+
   const handleSave = async () => {
     setSaving(true);
-    await onSave(draft);
+    // Line lists keep blank lines while they are edited.
+    const commandAgent: CommandAgentConfig = {
+      command: draft.commandAgent.command.trim(),
+      args: draft.commandAgent.args.filter((arg) => arg.trim()),
+      models: draft.commandAgent.models.map((model) => model.trim()).filter(Boolean),
+    };
+    const costMultipliers = draft.costMultipliers
+      .map((entry) => ({ ...entry, pattern: entry.pattern.trim(), label: entry.label.trim() || entry.pattern.trim() }))
+      .filter((entry) => entry.pattern);
+    await onSave({ ...draft, commandAgent, costMultipliers });
     setSaving(false);
+    // The backend and its providers decide which models there are.
+    api().listModels().then(setAvailableModels);
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
-  const updateModel = (key: keyof ModelConfig, value: string) => {
+  const updateBudget = (key: keyof CostBudget, value: string) => {
+    const amount = parseFloat(value);
+    setDraft((prev) => ({
+      ...prev,
+      budget: { ...prev.budget, [key]: value.trim() === '' || Number.isNaN(amount) ? null : Math.max(0, amount) },
+    }));
+  };
+
+  const updateCostMultiplier = (index: number, update: Partial<CostMultiplier>) => {
+    setDraft((prev) => ({
+      ...prev,
+      costMultipliers: prev.costMultipliers.map((entry, i) => (i === index ? { ...entry, ...update } : entry)),
+    }));
+  };
+
+  const removeCostMultiplier = (index: number) => {
+    setDraft((prev) => ({ ...prev, costMultipliers: prev.costMultipliers.filter((_, i) => i !== index) }));
+  };
+
+  const addCostMultiplier = () => {
     setDraft((prev) => ({
       ...prev,
-      models: { ...prev.models, [key]: value },
+      costMultipliers: [...prev.costMultipliers, { pattern: '', label: '', multiplier: 1 }],
     }));
   };
 
+  const updateCommandAgent = (update: Partial<CommandAgentConfig>) => {
+    setDraft((prev) => ({ ...prev, commandAgent: { ...prev.commandAgent, ...update } }));
+  };
+
+  const addProvider = () => {
+    const provider = newProvider.trim();
+    if (!provider) return;
+    setDraft((prev) =>
+      prev.modelProviders.includes(provider) ? prev : { ...prev, modelProviders: [...prev.modelProviders, provider] }
+    );
+    setNewProvider('');
+  };
+
+  const removeProvider = (provider: string) => {
+    setDraft((prev) => ({ ...prev, modelProviders: prev.modelProviders.filter((p) => p !== provider) }));
+  };
+
+  const checkProviders = async () => {
+    setCheckingProviders(true);
+    const results = await api().checkModelProviders(draft.modelProviders);
+    setProviderChecks(new Map(results.map((result) => [result.id, result])));
+    setCheckingProviders(false);
+  };
+
+  const updateModelChain = (key: keyof ModelConfig, update: (chain: string[]) => string[]) => {
+    setDraft((prev) => ({
+      ...prev,
+      models: { ...prev.models, [key]: update(prev.models[key]) },
+    }));
+  };
+
+  const setChainModel = (key: keyof ModelConfig, index: number, value: string) => {
+    updateModelChain(key, (chain) => chain.map((model, i) => (i === index ? value : model)));
+  };
+
+  const moveChainModelUp = (key: keyof ModelConfig, index: number) => {
+    updateModelChain(key, (chain) => {
+      const next = [...chain];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const addFallbackModel = (key: keyof ModelConfig) => {
+    const model = availableModels.find((m) => !draft.models[key].includes(m));
+    if (model) updateModelChain(key, (chain) => [...chain, model]);
+  };
+
   const addCommand = () => {
     if (!newCommand.trim()) return;
     setDraft((prev) => ({
@@ -75,6 +199,22 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
     }));
   };
 
+  const addVerifyCommand = () => {
+    if (!newVerifyCommand.trim()) return;
+    setDraft((prev) => ({
+      ...prev,
+      verifyCommands: [...prev.verifyCommands, newVerifyCommand.trim()],
+    }));
+    setNewVerifyCommand('');
+  };
+
+  const removeVerifyCommand = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      verifyCommands: prev.verifyCommands.filter((_, i) => i !== index),
+    }));
+  };
+
   const handlePickWorkspaceRoot = async () => {
     const result = await api().pickFolder();
     if (result && 'path' in result) {
@@ -141,9 +281,33 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Workspace Strategy</Label>
+                <p className="text-xs text-muted-foreground">
+                  How each run gets its working copy. Worktrees and mirrors avoid a full clone per run on large repositories.
+                </p>
+                <Select
+                  value={draft.workspaceStrategy}
+                  onValueChange={(value) =>
+                    setDraft((prev) => ({ ...prev, workspaceStrategy: value as WorkspaceStrategy }))
+                  }
+                >
+                  <SelectTrigger className="w-[320px] bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WORKSPACE_STRATEGY_LABELS) as WorkspaceStrategy[]).map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>{WORKSPACE_STRATEGY_LABELS[strategy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label>Default Workflow</Label>
-                <p className="text-xs text-muted-foreground">Preselected in the New Run dialog</p>
+                <p className="text-xs text-muted-foreground">
+                  Preselected in the New Run dialog. Custom workflows are loaded from ~/.codeloop/workflows/
+                </p>
                 <Select
                   value={draft.defaultWorkflowId}
                   onValueChange={(value) => setDraft((prev) => ({ ...prev, defaultWorkflowId: value }))}
@@ -152,7 +316,7 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
                     <SelectValue placeholder="Select default workflow" />
                   </SelectTrigger>
                   <SelectContent>
-                    {PREDEFINED_WORKFLOWS.map((workflow) => (
+                    {workflows.map((workflow) => (
                       <SelectItem key={workflow.id} value={workflow.id}>{workflow.name}</SelectItem>
                     ))}
                   </SelectContent>
@@ -178,6 +342,57 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Review Iterations</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Review → fix passes until LGTM (1-{MAX_REVIEW_ITERATIONS_LIMIT})
+                  </p>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_REVIEW_ITERATIONS_LIMIT}
+                    value={draft.maxReviewIterations}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        maxReviewIterations: Math.max(1, Math.min(MAX_REVIEW_ITERATIONS_LIMIT, parseInt(e.target.value) || 1)),
+                      }))
+                    }
+                    className="w-24 bg-background/50"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Concurrent Runs</Label>
+                  <p className="text-xs text-muted-foreground">Runs active at once; more are queued (0 = unlimited)</p>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.maxConcurrentRuns}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, maxConcurrentRuns: Math.max(0, parseInt(e.target.value) || 0) }))
+                    }
+                    className="w-24 bg-background/50"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Concurrent Runs per Repository</Label>
+                  <p className="text-xs text-muted-foreground">Runs active at once in one repository (0 = unlimited)</p>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.maxConcurrentRunsPerRepo}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        maxConcurrentRunsPerRepo: Math.max(0, parseInt(e.target.value) || 0),
+                      }))
+                    }
+                    className="w-24 bg-background/50"
+                  />
+                </div>
+
                 <div className="space-y-3">
                   <Label>Notifications</Label>
                   <p className="text-xs text-muted-foreground">Play sound on completion</p>
@@ -230,11 +445,153 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
             </CardContent>
           </Card>
 
+          {/* Agent */}
+          <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Agent</CardTitle>
+              <CardDescription>The coding-agent CLI that runs every model call of the workflows and conflict resolution</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label>Agent Backend</Label>
+                <Select
+                  value={draft.agentBackend}
+                  onValueChange={(value) => setDraft((prev) => ({ ...prev, agentBackend: value as AgentBackendId }))}
+                >
+                  <SelectTrigger className="w-[320px] bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AGENT_BACKEND_LABELS) as AgentBackendId[]).map((backend) => (
+                      <SelectItem key={backend} value={backend}>{AGENT_BACKEND_LABELS[backend]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft.agentBackend === 'opencode' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label>Model Providers</Label>
+                      <p className="text-xs text-muted-foreground">
+                        OpenCode providers whose models are offered in the model pickers, as listed by{' '}
+                        <code>opencode auth list</code>
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => void checkProviders()}
+                      disabled={checkingProviders || draft.modelProviders.length === 0}
+                      className="shrink-0"
+                    >
+                      {checkingProviders ? (
+                        <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                      ) : (
+                        <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+                      )}
+                      Check
+                    </Button>
+                  </div>
+                  {draft.modelProviders.map((provider) => {
+                    const check = providerChecks.get(provider);
+                    return (
+                      <div key={provider} className="flex items-center gap-2 group">
+                        <div className="flex-1 flex items-center justify-between gap-2 bg-muted/50 border border-border rounded-md px-3 py-2 text-sm">
+                          <span className="font-mono">{provider}</span>
+                          {check && (
+                            <Badge
+                              variant={check.ready ? 'secondary' : 'destructive'}
+                              className="text-[10px]"
+                              title={check.details ?? undefined}
+                            >
+                              {check.ready ? `${check.modelCount} models` : 'Not ready'}
+                            </Badge>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeProvider(provider)}
+                          className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-all"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  {draft.modelProviders.length === 0 && (
+                    <div className="text-sm text-muted-foreground italic py-2">No providers enabled</div>
+                  )}
+                  <div className="flex gap-2 pt-2">
+                    <Input
+                      value={newProvider}
+                      onChange={(e) => setNewProvider(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addProvider()}
+                      placeholder="e.g., anthropic"
+                      className="font-mono text-sm bg-background/50"
+                    />
+                    <Button variant="secondary" onClick={addProvider} className="shrink-0">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Provider
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {draft.agentBackend === 'command' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Command</Label>
+                    <p className="text-xs text-muted-foreground">Executable on your PATH, run in the workspace</p>
+                    <Input
+                      value={draft.commandAgent.command}
+                      onChange={(e) => updateCommandAgent({ command: e.target.value })}
+                      placeholder="e.g., claude"
+                      className="w-[320px] font-mono text-sm bg-background/50"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Arguments</Label>
+                    <p className="text-xs text-muted-foreground">
+                      One per line. <code>{'{model}'}</code>, <code>{'{prompt}'}</code> and <code>{'{promptFile}'}</code> (a
+                      file holding the prompt) are substituted; without either prompt argument the prompt goes to stdin.
+                      Attached files are appended to the prompt.
+                    </p>
+                    <textarea
+                      value={draft.commandAgent.args.join('\n')}
+                      onChange={(e) => updateCommandAgent({ args: e.target.value.split('\n') })}
+                      rows={4}
+                      className={TEXTAREA_CLASS}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Models</Label>
+                    <p className="text-xs text-muted-foreground">One per line, offered in the model pickers once saved.</p>
+                    <textarea
+                      value={draft.commandAgent.models.join('\n')}
+                      onChange={(e) => updateCommandAgent({ models: e.target.value.split('\n') })}
+                      rows={4}
+                      placeholder="e.g., sonnet"
+                      className={TEXTAREA_CLASS}
+                    />
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Models */}
           <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
             <CardHeader>
               <CardTitle className="text-lg">AI Models</CardTitle>
-              <CardDescription>Select which models to use for different phases</CardDescription>
+              <CardDescription>
+                Select which models to use for different phases. When a model is unsupported, rate-limited or keeps
+                failing, the phase moves on to the next one in its list.
+              </CardDescription>
             </CardHeader>
             <CardContent>
               {loadingModels ? (
@@ -245,27 +602,56 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
               ) : (
                 <div className="space-y-4">
                   {MODEL_FIELDS.map(({ key, label, description }) => (
-                    <div key={key} className="flex items-center justify-between gap-4 py-2 border-b border-border/30 last:border-0">
+                    <div key={key} className="flex items-start justify-between gap-4 py-2 border-b border-border/30 last:border-0">
                       <div className="flex-1 min-w-0">
                         <Label className="text-sm">{label}</Label>
                         <p className="text-xs text-muted-foreground mt-0.5">{description}</p>
                       </div>
-                      <Select
-                        value={draft.models[key]}
-                        onValueChange={(value) => updateModel(key, value)}
-                      >
-                        <SelectTrigger className="w-[240px] bg-background/50">
-                          <SelectValue placeholder="Select model" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value={draft.models[key]}>{draft.models[key]}</SelectItem>
-                          {availableModels
-                            .filter((m) => m !== draft.models[key])
-                            .map((m) => (
-                              <SelectItem key={m} value={m}>{m}</SelectItem>
-                            ))}
-                        </SelectContent>
-                      </Select>
+                      <div className="space-y-1.5">
+                        {draft.models[key].map((model, index) => (
+                          <div key={`${model}-${index}`} className="flex items-center gap-1">
+                            <Select value={model} onValueChange={(value) => setChainModel(key, index, value)}>
+                              <SelectTrigger className="w-[240px] bg-background/50">
+                                <SelectValue placeholder="Select model" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={model}>{model}</SelectItem>
+                                <ModelSelectItems models={availableModels.filter((m) => !draft.models[key].includes(m))} />
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => moveChainModelUp(key, index)}
+                              disabled={index === 0}
+                              title="Try earlier"
+                              className="h-8 w-8 text-muted-foreground"
+                            >
+                              <ArrowUp className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => updateModelChain(key, (chain) => chain.filter((_, i) => i !== index))}
+                              disabled={draft.models[key].length === 1}
+                              title="Remove"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => addFallbackModel(key)}
+                          disabled={availableModels.every((m) => draft.models[key].includes(m))}
+                          className="h-7 text-xs text-muted-foreground"
+                        >
+                          <Plus className="w-3.5 h-3.5 mr-1" />
+                          Add Fallback
+                        </Button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -273,6 +659,92 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
             </CardContent>
           </Card>
 
+          {/* Cost & Budget */}
+          <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Cost & Budget</CardTitle>
+              <CardDescription>
+                Premium requests each agent call costs, by model. The first matching pattern applies; * matches any
+                text.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label>Per-Run Budget</Label>
+                  <p className="text-xs text-muted-foreground">Runs are stopped before a call that would go over it (empty = no cap)</p>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.budget.perRun ?? ''}
+                    onChange={(e) => updateBudget('perRun', e.target.value)}
+                    className="w-24 bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Daily Budget</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Runs are stopped before a call that would go over it, and blocked once today&apos;s runs spend it (empty = no cap)
+                  </p>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.budget.perDay ?? ''}
+                    onChange={(e) => updateBudget('perDay', e.target.value)}
+                    className="w-24 bg-background/50"
+                  />
+                </div>
+              </div>
+
+              <Separator className="my-4" />
+
+              <div className="space-y-2">
+                {draft.costMultipliers.map((entry, i) => (
+                  <div key={i} className="flex items-center gap-2 group">
+                    <Input
+                      value={entry.pattern}
+                      onChange={(e) => updateCostMultiplier(i, { pattern: e.target.value })}
+                      placeholder="*model-id*"
+                      className="flex-1 font-mono text-sm bg-background/50"
+                    />
+                    <Input
+                      value={entry.label}
+                      onChange={(e) => updateCostMultiplier(i, { label: e.target.value })}
+                      placeholder="Label"
+                      className="flex-1 text-sm bg-background/50"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={entry.multiplier}
+                      onChange={(e) => updateCostMultiplier(i, { multiplier: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-24 bg-background/50"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeCostMultiplier(i)}
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-all"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {draft.costMultipliers.length === 0 && (
+                  <div className="text-sm text-muted-foreground italic py-2">No multipliers; agent calls are not priced</div>
+                )}
+              </div>
+
+              <Button variant="secondary" onClick={addCostMultiplier}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Multiplier
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* Post-Clone Commands */}
           <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
             <CardHeader>
@@ -319,6 +791,74 @@ export default function ConfigEditor({ config, onSave }: ConfigEditorProps) {
             </CardContent>
           </Card>
 
+          {/* Verify Commands */}
+          <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Verify Commands</CardTitle>
+              <CardDescription>
+                Checks to run before committing (e.g., tests, lint, typecheck). Failures are sent to the fix model.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                {draft.verifyCommands.map((cmd, i) => (
+                  <div key={i} className="flex items-center gap-2 group">
+                    <div className="flex-1 bg-muted/50 border border-border rounded-md px-3 py-2 text-sm font-mono">
+                      {cmd}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeVerifyCommand(i)}
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-all"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {draft.verifyCommands.length === 0 && (
+                  <div className="text-sm text-muted-foreground italic py-2">No commands configured; the Verify phase is skipped</div>
+                )}
+              </div>
+
+              <Separator className="my-4" />
+
+              <div className="flex gap-2">
+                <Input
+                  value={newVerifyCommand}
+                  onChange={(e) => setNewVerifyCommand(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addVerifyCommand()}
+                  placeholder="e.g., pnpm test"
+                  className="font-mono text-sm bg-background/50"
+                />
+                <Button variant="secondary" onClick={addVerifyCommand} className="shrink-0">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Command
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Verify Attempts</Label>
+                <p className="text-xs text-muted-foreground">
+                  Verification runs before the run fails, with a fix pass after each failure (1-{MAX_VERIFY_ATTEMPTS_LIMIT})
+                </p>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_VERIFY_ATTEMPTS_LIMIT}
+                  value={draft.maxVerifyAttempts}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      maxVerifyAttempts: Math.max(1, Math.min(MAX_VERIFY_ATTEMPTS_LIMIT, parseInt(e.target.value) || 1)),
+                    }))
+                  }
+                  className="w-24 bg-background/50"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Retry Delays */}
           <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
             <CardHeader>
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/ipc';
+import type { RepoIssue, RepoIssueDetail, RunIssue } from '@shared/types';
+import { Label } from '@shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+interface IssuePickerProps {
+  repoPath: string;
+  value: RunIssue | null;
+  /** Called with the full issue, including body and comments, or null when the selection is cleared. */
+  onChange: (issue: RepoIssueDetail | null) => void;
+}
+
+const NO_ISSUE = 'none';
+
+export default function IssuePicker({ repoPath, value, onChange }: IssuePickerProps) {
+  const trimmedRepo = repoPath.trim();
+  const [issuesResult, setIssuesResult] = useState<{ repoPath: string; issues: RepoIssue[] } | null>(null);
+  const [loadingIssue, setLoadingIssue] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!trimmedRepo) return;
+    let cancelled = false;
+
+    api()
+      .listOpenIssues(trimmedRepo)
+      .then((issues) => {
+        if (!cancelled) setIssuesResult({ repoPath: trimmedRepo, issues });
+      })
+      .catch(() => {
+        if (!cancelled) setIssuesResult({ repoPath: trimmedRepo, issues: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmedRepo]);
+
+  const issues = issuesResult?.repoPath === trimmedRepo ? issuesResult.issues : [];
+  const loadingIssues = !!trimmedRepo && issuesResult?.repoPath !== trimmedRepo;
+
+  const handleSelect = async (selected: string) => {
+    setError(null);
+    if (selected === NO_ISSUE) {
+      onChange(null);
+      return;
+    }
+    const number = Number(selected);
+    setLoadingIssue(number);
+    const issue = await api().getRepoIssue(trimmedRepo, number);
+    setLoadingIssue(null);
+    if (issue) {
+      onChange(issue);
+    } else {
+      setError(`Failed to load issue #${number}`);
+    }
+  };
+
+  if (!trimmedRepo) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">GitHub Issue (Optional)</Label>
+      <Select
+        value={value ? String(value.number) : NO_ISSUE}
+        onValueChange={handleSelect}
+        disabled={loadingIssues || loadingIssue !== null}
+      >
+        <SelectTrigger className="h-9 bg-background">
+          <SelectValue placeholder={loadingIssues ? 'Loading open issues...' : 'Start from an open issue'} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ISSUE}>{loadingIssues ? 'Loading open issues...' : 'No issue'}</SelectItem>
+          {issues.map((issue) => (
+            <SelectItem key={issue.number} value={String(issue.number)}>
+              #{issue.number} · {issue.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {loadingIssue !== null ? (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+          Loading issue #{loadingIssue}...
+        </p>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : value ? (
+        <p className="text-xs text-muted-foreground">
+          The prompt was filled in from the issue. The PR will close it and the issue gets a comment with the PR link.
+        </p>
+      ) : (
+        !loadingIssues &&
+        issues.length === 0 && <p className="text-xs text-muted-foreground">No open issues were found in this repository.</p>
+      )}
+    </div>
+  );
+}
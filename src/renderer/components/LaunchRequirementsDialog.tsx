@@ -1,12 +1,30 @@
 import { useMemo } from 'react';
 import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
-import type { LaunchRequirements } from '@shared/types';
+import type { AgentBackendId, LaunchRequirements } from '@shared/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@shared/components/ui/dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@shared/components/ui/card';
 import { Badge } from '@shared/components/ui/badge';
 import { Button } from '@shared/components/ui/button';
 import api from '../lib/ipc';
 
+const AGENT_SETUP: Record<
+  AgentBackendId,
+  { installUrl: string; authUrl: string; installCommand: string; authCommand: string }
+> = {
+  opencode: {
+    installUrl: 'https://opencode.ai/docs',
+    authUrl: 'https://opencode.ai/docs',
+    installCommand: 'See installation steps in OpenCode docs',
+    authCommand: 'opencode auth login',
+  },
+  command: {
+    installUrl: 'https://github.com/natelindev/code-loop#agent-backends',
+    authUrl: 'https://github.com/natelindev/code-loop#agent-backends',
+    installCommand: 'Install the CLI, or set its command under Settings → Agent',
+    authCommand: 'Sign in to the CLI, then list its models under Settings → Agent',
+  },
+};
+
 type LaunchRequirementsDialogProps = {
   requirements: LaunchRequirements | null;
   checking: boolean;
@@ -24,15 +42,13 @@ export default function LaunchRequirementsDialog({
     if (!requirements) return [];
 
     return [
-      {
-        key: 'opencode',
-        name: 'OpenCode CLI',
-        installUrl: 'https://opencode.ai/docs',
-        authUrl: 'https://opencode.ai/docs',
-        installCommand: 'See installation steps in OpenCode docs',
-        authCommand: 'opencode models github-copilot',
-        status: requirements.opencode,
-      },
+      ...requirements.agents.map((agent) => ({
+        key: agent.backend,
+        name: agent.name,
+        ...AGENT_SETUP[agent.backend],
+        status: agent,
+        providers: agent.providers,
+      })),
       {
         key: 'gh',
         name: 'GitHub CLI',
@@ -41,6 +57,7 @@ export default function LaunchRequirementsDialog({
         installCommand: 'brew install gh',
         authCommand: 'gh auth login',
         status: requirements.gh,
+        providers: [],
       },
     ];
   }, [requirements]);
@@ -131,6 +148,20 @@ export default function LaunchRequirementsDialog({
                         Command: <span className="font-mono">{item.authCommand}</span>
                       </div>
                     )}
+                    {item.providers.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        {item.providers.map((provider) => (
+                          <Badge
+                            key={provider.id}
+                            variant={provider.ready ? 'secondary' : 'outline'}
+                            className="font-mono"
+                          >
+                            {provider.ready ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <AlertTriangle className="w-3 h-3 mr-1 text-amber-500" />}
+                            {provider.id}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     {item.status.details && (
                       <div className="rounded-md border border-border bg-muted/40 p-2 text-xs text-muted-foreground whitespace-pre-wrap break-words">
                         {item.status.details}
@@ -0,0 +1,34 @@
+import { groupModelsByProvider } from '@shared/model-providers';
+import { SelectGroup, SelectItem, SelectLabel } from '@shared/components/ui/select';
+
+interface ModelSelectItemsProps {
+  models: string[];
+}
+
+/** Model options for a model picker, under a heading per provider once models of several providers are listed. */
+export default function ModelSelectItems({ models }: ModelSelectItemsProps) {
+  const groups = groupModelsByProvider(models);
+
+  if (groups.length <= 1) {
+    return (
+      <>
+        {models.map((m) => (
+          <SelectItem key={m} value={m}>{m}</SelectItem>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {groups.map((group) => (
+        <SelectGroup key={group.provider}>
+          <SelectLabel>{group.provider || 'Other'}</SelectLabel>
+          {group.models.map((m) => (
+            <SelectItem key={m} value={m}>{m}</SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </>
+  );
+}
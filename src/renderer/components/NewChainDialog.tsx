@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import NewRunDialog from './NewRunDialog';
+import api from '../lib/ipc';
+import { CHAIN_TRIGGER_LABELS } from '@shared/run-chain';
+import { hasWorkflowParam } from '@shared/workflow-params';
+import { MAX_CHAIN_RUNS, PREDEFINED_WORKFLOWS } from '@shared/types';
+import type { AppConfig, RunChainTrigger, RunOptions, WorkflowDefinition } from '@shared/types';
+import { Button } from '@shared/components/ui/button';
+import { Label } from '@shared/components/ui/label';
+import { Switch } from '@shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@shared/components/ui/dialog';
+import { ArrowDown, Link2, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface NewChainDialogProps {
+  config: AppConfig;
+  onStart: (options: RunOptions) => Promise<{ ok: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+type ChainStepDraft = {
+  key: string;
+  options: RunOptions | null;
+  trigger: RunChainTrigger;
+  includeContext: boolean;
+};
+
+function createStep(): ChainStepDraft {
+  return { key: crypto.randomUUID(), options: null, trigger: 'pr-merged', includeContext: true };
+}
+
+/** Starting point for a new step: the previous step's repository and settings, without its task. */
+function presetFrom(options: RunOptions | null): Partial<RunOptions> | null {
+  if (!options) return null;
+  return { ...options, prompt: '', issue: undefined, params: { ...options.params, prompt: '' } };
+}
+
+export default function NewChainDialog({ config, onStart, onClose }: NewChainDialogProps) {
+  const [steps, setSteps] = useState<ChainStepDraft[]>(() => [createStep(), createStep()]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>(PREDEFINED_WORKFLOWS);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api().listWorkflows().then(setWorkflows);
+  }, []);
+
+  const updateStep = (index: number, partial: Partial<ChainStepDraft>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...partial } : step)));
+  };
+
+  const handleStart = async () => {
+    const missing = steps.findIndex((step) => !step.options);
+    if (missing !== -1) {
+      setError(`Set up step ${missing + 1} first`);
+      return;
+    }
+
+    setStarting(true);
+    setError(null);
+    const [first, ...rest] = steps;
+    const result = await onStart({
+      ...first.options!,
+      chain: rest.map((step) => ({
+        options: step.options!,
+        trigger: step.trigger,
+        includeContext: step.includeContext,
+      })),
+    });
+    setStarting(false);
+    if (!result.ok) setError(result.error || 'Failed to start the chain');
+  };
+
+  if (editingIndex !== null) {
+    const step = steps[editingIndex];
+    return (
+      <NewRunDialog
+        config={config}
+        initialOptions={step.options ?? presetFrom(steps[editingIndex - 1]?.options ?? null)}
+        submitLabel={`Use as Step ${editingIndex + 1}`}
+        onStart={async (options) => {
+          updateStep(editingIndex, { options });
+          setEditingIndex(null);
+          setError(null);
+          return { ok: true };
+        }}
+        onClose={() => setEditingIndex(null)}
+      />
+    );
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] bg-background/95 backdrop-blur-xl border-border shadow-2xl p-0 overflow-hidden">
+        <DialogHeader className="px-6 py-4 border-b border-border bg-muted/30">
+          <DialogTitle className="text-xl font-bold flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-primary" />
+            New Run Chain
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 py-5 space-y-3 max-h-[65vh] overflow-y-auto">
+          <p className="text-xs text-muted-foreground">
+            Each step starts once the step before it reaches its trigger, e.g. a migration first and then the code that
+            uses it.
+          </p>
+          {steps.map((step, index) => {
+            const workflow = step.options ? workflows.find((item) => item.id === step.options!.workflowId) : undefined;
+            const takesPrompt = !workflow || hasWorkflowParam(workflow, 'prompt');
+
+            return (
+              <div key={step.key} className="space-y-2">
+                {index > 0 && (
+                  <div className="flex flex-wrap items-center gap-3 pl-2">
+                    <ArrowDown className="w-4 h-4 text-muted-foreground" />
+                    <Select
+                      value={step.trigger}
+                      onValueChange={(value) => updateStep(index, { trigger: value as RunChainTrigger })}
+                    >
+                      <SelectTrigger className="h-8 w-[240px] text-xs bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CHAIN_TRIGGER_LABELS) as RunChainTrigger[]).map((trigger) => (
+                          <SelectItem key={trigger} value={trigger}>
+                            {CHAIN_TRIGGER_LABELS[trigger]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {takesPrompt && (
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Switch
+                          checked={step.includeContext}
+                          onCheckedChange={(includeContext) => updateStep(index, { includeContext })}
+                        />
+                        Include plan and diff summary
+                      </label>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/20">
+                  <div className="min-w-0 text-sm">
+                    <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Step {index + 1}
+                    </Label>
+                    {step.options ? (
+                      <>
+                        <p className="font-medium truncate">
+                          {step.options.repoPath.split('/').pop()} · {workflow?.name ?? step.options.workflowId}
+                        </p>
+                        {step.options.prompt && (
+                          <p className="text-xs text-muted-foreground truncate">{step.options.prompt}</p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">Not set up yet</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setEditingIndex(index)}>
+                      <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                      {step.options ? 'Edit' : 'Set Up'}
+                    </Button>
+                    {steps.length > 2 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Remove step"
+                        onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {steps.length < MAX_CHAIN_RUNS && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => setSteps((prev) => [...prev, createStep()])}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              Add Step
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 border-t border-border bg-muted/30 flex items-center justify-between sm:justify-between">
+          <div className="flex-1">
+            {error && <p className="text-sm text-destructive font-medium animate-in fade-in">{error}</p>}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} disabled={starting}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} disabled={starting} className="min-w-[100px]">
+              {starting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Starting
+                </>
+              ) : (
+                'Start Chain'
+              )}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
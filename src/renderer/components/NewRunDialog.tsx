@@ -1,15 +1,38 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import RepoPicker from './RepoPicker';
+import WorkflowParameterField from './WorkflowParameterField';
+import IssuePicker from './IssuePicker';
+import ModelSelectItems from './ModelSelectItems';
 import api from '../lib/ipc';
-import { PREDEFINED_WORKFLOWS } from '@shared/types';
-import type { AppConfig, RunOptions, ModelConfig, RepoMeta, RepoOpenPr, RepoBranchLookup } from '@shared/types';
+import { MAX_BATCH_RUNS, MAX_REVIEW_ITERATIONS_LIMIT, MAX_RUN_VARIANTS, PREDEFINED_WORKFLOWS } from '@shared/types';
+import type {
+  AppConfig,
+  RunIssue,
+  RunOptions,
+  ModelConfig,
+  RepoMeta,
+  WorkflowDefinition,
+  WorkflowParamValue,
+} from '@shared/types';
+import {
+  findMissingRequiredParam,
+  getActiveWorkflowParams,
+  hasWorkflowParam,
+  isParameterRequired,
+  isParameterVisible,
+  resolveWorkflowParams,
+} from '@shared/workflow-params';
+import { supportsRunVariants } from '@shared/run-variants';
+import { parseBatchTasks, supportsBatchRuns } from '@shared/run-batch';
+import { buildIssuePrompt } from '@shared/run-issue';
+import { supportsStackedRuns } from '@shared/run-stack';
 import { Button } from '@shared/components/ui/button';
 import { Label } from '@shared/components/ui/label';
-import { Switch } from '@shared/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@shared/components/ui/dialog';
 import { Input } from '@shared/components/ui/input';
-import { ChevronRight, Play, Loader2 } from 'lucide-react';
+import { Switch } from '@shared/components/ui/switch';
+import { ChevronRight, Play, Loader2, Plus, X, FileUp, Layers } from 'lucide-react';
 import { cn } from '@shared/lib/utils';
 
 interface NewRunDialogProps {
@@ -17,6 +40,8 @@ interface NewRunDialogProps {
   initialOptions?: Partial<RunOptions> | null;
   onStart: (options: RunOptions) => Promise<{ ok: boolean; error?: string }>;
   onClose: () => void;
+  /** Replaces the start button label, e.g. when the dialog edits a schedule's run template. */
+  submitLabel?: string;
 }
 
 const MODEL_FIELDS: { key: keyof ModelConfig; label: string }[] = [
@@ -29,176 +54,161 @@ const MODEL_FIELDS: { key: keyof ModelConfig; label: string }[] = [
   { key: 'modelBranch', label: 'Branch' },
 ];
 
-export default function NewRunDialog({ config, initialOptions, onStart, onClose }: NewRunDialogProps) {
+const BATCH_FILE_TYPES = '.md,.markdown,.json,.csv,.txt';
+
+function paramText(value: WorkflowParamValue | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export default function NewRunDialog({ config, initialOptions, onStart, onClose, submitLabel }: NewRunDialogProps) {
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>(PREDEFINED_WORKFLOWS);
   const [workflowId, setWorkflowId] = useState(initialOptions?.workflowId ?? config.defaultWorkflowId ?? PREDEFINED_WORKFLOWS[0].id);
   const [repoPath, setRepoPath] = useState(initialOptions?.repoPath ?? '');
-  const [prTargetMode, setPrTargetMode] = useState<'pr' | 'branch'>(initialOptions?.targetBranch ? 'branch' : 'pr');
-  const [myOpenPrs, setMyOpenPrs] = useState<RepoOpenPr[]>([]);
-  const [loadingMyOpenPrs, setLoadingMyOpenPrs] = useState(false);
-  const [selectedPrNumber, setSelectedPrNumber] = useState<string>('');
-  const [branchInput, setBranchInput] = useState(initialOptions?.targetBranch ?? '');
-  const [branchLookup, setBranchLookup] = useState<RepoBranchLookup | null>(null);
-  const [checkingBranch, setCheckingBranch] = useState(false);
-  const [prompt, setPrompt] = useState(initialOptions?.prompt ?? '');
-  const [skipPlan, setSkipPlan] = useState(initialOptions?.skipPlan ?? false);
-  const [background, setBackground] = useState(initialOptions?.background ?? false);
-  const [autoMerge, setAutoMerge] = useState(initialOptions?.autoMerge ?? false);
-  const [skipPr, setSkipPr] = useState(initialOptions?.skipPr ?? config.skipPr ?? false);
-  const [planText, setPlanText] = useState(initialOptions?.planText ?? '');
+  // Edited values are keyed by parameter key and shared across workflows, so switching
+  // workflows keeps common inputs (e.g. prompt) and ignores keys the workflow does not declare.
+  const [paramEdits, setParamEdits] = useState<Record<string, WorkflowParamValue>>(initialOptions?.params ?? {});
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [modelOverrides, setModelOverrides] = useState<Partial<ModelConfig>>({
-    ...config.lastModelOverrides,
-    ...(initialOptions?.modelOverrides ?? {}),
-  });
+  // The first entry holds the run's model overrides; further entries start the run as model variants.
+  const [variants, setVariants] = useState<Partial<ModelConfig>[]>([
+    { ...config.lastModelOverrides, ...(initialOptions?.modelOverrides ?? {}) },
+  ]);
+  const [activeVariant, setActiveVariant] = useState(0);
+  const [maxReviewIterations, setMaxReviewIterations] = useState(
+    initialOptions?.maxReviewIterations ?? config.maxReviewIterations
+  );
+  const [requirePlanApproval, setRequirePlanApproval] = useState(initialOptions?.requirePlanApproval ?? false);
+  const [keepWorkspace, setKeepWorkspace] = useState(initialOptions?.keepWorkspace ?? false);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchText, setBatchText] = useState('');
+  // Tasks loaded from a file replace the pasted list, since file tasks can span several lines.
+  const [batchFile, setBatchFile] = useState<{ name: string; tasks: string[] } | null>(null);
+  const batchFileInput = useRef<HTMLInputElement>(null);
+  const [issue, setIssue] = useState<RunIssue | null>(initialOptions?.issue ?? null);
+  const [stackOnRunId, setStackOnRunId] = useState(initialOptions?.stackOnRunId ?? null);
   const [availableModels, setAvailableModels] = useState<string[]>([]);
   const [starting, setStarting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const selectedWorkflow = PREDEFINED_WORKFLOWS.find((workflow) => workflow.id === workflowId) ?? PREDEFINED_WORKFLOWS[0];
-  const supportsPrompt = selectedWorkflow.requiresPrompt;
-  const supportsBackground = selectedWorkflow.id === 'development-auto-pr';
-  const supportsSkipPr = selectedWorkflow.id === 'development-auto-pr';
-  const supportsTargetBranch = selectedWorkflow.id === 'pr-autofix';
-  const modelFields = supportsTargetBranch ? MODEL_FIELDS.filter((field) => field.key === 'modelFix') : MODEL_FIELDS;
+  const selectedWorkflow = workflows.find((workflow) => workflow.id === workflowId) ?? workflows[0];
+  const runBatch = batchMode && supportsBatchRuns(selectedWorkflow);
+  const batchTasks = runBatch ? batchFile?.tasks ?? parseBatchTasks(batchText) : [];
+  const paramValues = resolveWorkflowParams(
+    selectedWorkflow,
+    // Required-field checks see the first task in place of the prompt.
+    { ...initialOptions, params: runBatch ? { ...paramEdits, prompt: batchTasks[0] ?? '' } : paramEdits },
+    config
+  );
+  const visibleParams = selectedWorkflow.parameters.filter(
+    (param) => isParameterVisible(param, paramValues) && !(runBatch && param.key === 'prompt')
+  );
+  const modelFields = selectedWorkflow.models
+    ? MODEL_FIELDS.filter((field) => selectedWorkflow.models?.includes(field.key))
+    : MODEL_FIELDS;
+  const canApprovePlan =
+    selectedWorkflow.phases.some((phase) => phase.id === 'PLAN') && paramValues.skipPlan !== true;
+  const canRunVariants = supportsRunVariants(selectedWorkflow) && !runBatch;
+  const runIssue = hasWorkflowParam(selectedWorkflow, 'prompt') && !runBatch ? issue : null;
+  const runVariants = canRunVariants && variants.length > 1 ? variants : null;
+  const stackError = !supportsStackedRuns(selectedWorkflow)
+    ? `${selectedWorkflow.name} does not support stacked PRs`
+    : runBatch || runVariants
+      ? 'Stacked runs cannot use batches or model variants'
+      : null;
+  const modelOverrides = variants[runVariants ? activeVariant : 0];
 
   useEffect(() => {
     api().listModels().then(setAvailableModels);
+    api().listWorkflows().then(setWorkflows);
   }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-
-    if (!supportsTargetBranch || !repoPath.trim()) {
-      if (!supportsTargetBranch) {
-        setPrTargetMode(initialOptions?.targetBranch ? 'branch' : 'pr');
-      }
-      setMyOpenPrs([]);
-      setSelectedPrNumber('');
-      return;
-    }
-
-    setLoadingMyOpenPrs(true);
-    api()
-      .listMyOpenPrs(repoPath.trim())
-      .then((prs) => {
-        if (cancelled) return;
-
-        setMyOpenPrs(prs);
-        setLoadingMyOpenPrs(false);
-
-        if (prTargetMode !== 'pr') return;
-        if (prs.length === 0) {
-          setSelectedPrNumber('');
-          return;
-        }
-
-        const preferredByBranch = branchInput ? prs.find((pr) => pr.headRefName === branchInput) : undefined;
-        const preferredByInitial = initialOptions?.targetBranch
-          ? prs.find((pr) => pr.headRefName === initialOptions.targetBranch)
-          : undefined;
-        const preferred = preferredByBranch ?? preferredByInitial ?? prs[0];
-
-        if (!selectedPrNumber || !prs.some((pr) => String(pr.number) === selectedPrNumber)) {
-          setSelectedPrNumber(String(preferred.number));
-        }
-      })
-      .catch(() => {
-        if (cancelled) return;
-        setMyOpenPrs([]);
-        setSelectedPrNumber('');
-        setLoadingMyOpenPrs(false);
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [repoPath, supportsTargetBranch, prTargetMode, selectedPrNumber, branchInput, initialOptions?.targetBranch]);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    if (!supportsTargetBranch || prTargetMode !== 'branch' || !repoPath.trim() || !branchInput.trim()) {
-      setBranchLookup(null);
-      setCheckingBranch(false);
-      return;
-    }
-
-    setCheckingBranch(true);
-    api()
-      .lookupRepoBranch(repoPath.trim(), branchInput.trim())
-      .then((result) => {
-        if (cancelled) return;
-        setBranchLookup(result);
-        setCheckingBranch(false);
-      })
-      .catch(() => {
-        if (cancelled) return;
-        setBranchLookup(null);
-        setCheckingBranch(false);
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [repoPath, supportsTargetBranch, prTargetMode, branchInput]);
+  const setParam = useCallback((key: string, value: WorkflowParamValue) => {
+    setParamEdits((prev) => ({ ...prev, [key]: value }));
+    setError(null);
+  }, []);
 
   const handleRepoChange = (path: string, _meta: RepoMeta | null) => {
+    if (path !== repoPath) setIssue(null);
     setRepoPath(path);
     setError(null);
-    if (!path.trim()) {
-      setSelectedPrNumber('');
-      setBranchInput('');
-      setBranchLookup(null);
-    }
   };
 
+  const updateOverrides = (update: (overrides: Partial<ModelConfig>) => Partial<ModelConfig>) => {
+    const index = runVariants ? activeVariant : 0;
+    setVariants((prev) => prev.map((overrides, i) => (i === index ? update(overrides) : overrides)));
+  };
+
+  // An override picks the model a phase starts with; the configured chain still follows it as fallbacks.
   const setOverride = (key: keyof ModelConfig, value: string) => {
-    setModelOverrides((prev) => {
+    updateOverrides((prev) => {
       const next = { ...prev };
-      if (value === config.models[key]) {
+      if (value === config.models[key][0]) {
         delete next[key];
       } else {
-        next[key] = value;
+        next[key] = [value];
       }
       return next;
     });
   };
 
+  const addVariant = () => {
+    setVariants((prev) => [...prev, { ...prev[prev.length - 1] }]);
+    setActiveVariant(variants.length);
+  };
+
+  const removeVariant = (index: number) => {
+    setVariants((prev) => prev.filter((_, i) => i !== index));
+    setActiveVariant((prev) => (prev >= index ? Math.max(0, prev - 1) : prev));
+  };
+
+  const handleBatchFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const tasks = parseBatchTasks(await file.text(), file.name);
+      setBatchFile({ name: file.name, tasks });
+      setError(tasks.length === 0 ? `No tasks found in ${file.name}` : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const handleStart = async () => {
     if (!repoPath.trim()) {
       setError('Please select a repository');
       return;
     }
-    if (supportsPrompt && skipPlan && !planText.trim()) {
-      setError('Please provide a plan when skipping the plan phase');
+
+    if (stackOnRunId && stackError) {
+      setError(stackError);
+      return;
+    }
+
+    if (runBatch && batchTasks.length === 0) {
+      setError('Add at least one task to the batch');
+      return;
+    }
+    if (batchTasks.length > MAX_BATCH_RUNS) {
+      setError(`A batch can have at most ${MAX_BATCH_RUNS} tasks`);
       return;
     }
-    if (supportsPrompt && !skipPlan && !prompt.trim()) {
-      setError('Please enter a prompt');
+    if (runBatch && paramValues.skipPlan === true) {
+      setError('A batch cannot skip planning, since every task needs its own plan');
       return;
     }
 
-    let resolvedTargetBranch = '';
-    if (supportsTargetBranch) {
-      if (prTargetMode === 'pr') {
-        const selectedPr = myOpenPrs.find((pr) => String(pr.number) === selectedPrNumber);
-        resolvedTargetBranch = selectedPr?.headRefName ?? '';
-        if (!resolvedTargetBranch) {
-          setError('Please select one of your open PRs for PR Autofix');
-          return;
-        }
-      } else {
-        resolvedTargetBranch = branchInput.trim();
-        if (!resolvedTargetBranch) {
-          setError('Please enter a target branch for PR Autofix');
-          return;
-        }
-        const lookup = await api().lookupRepoBranch(repoPath.trim(), resolvedTargetBranch);
-        setBranchLookup(lookup);
-        if (!lookup.exists) {
-          setError(`Branch '${resolvedTargetBranch}' was not found locally or on origin`);
-          return;
-        }
+    const missing = findMissingRequiredParam(selectedWorkflow, paramValues);
+    if (missing) {
+      setError(`${missing.label} is required for ${selectedWorkflow.name}`);
+      return;
+    }
+
+    const params = getActiveWorkflowParams(selectedWorkflow, paramValues);
+    for (const param of selectedWorkflow.parameters) {
+      const branch = param.type === 'pr' ? paramText(params[param.key]) : undefined;
+      if (!branch) continue;
+      const lookup = await api().lookupRepoBranch(repoPath.trim(), branch);
+      if (!lookup.exists) {
+        setError(`Branch '${branch}' was not found locally or on origin`);
+        return;
       }
     }
 
@@ -207,15 +217,23 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
 
     const options: RunOptions = {
       repoPath: repoPath.trim(),
-      workflowId,
-      targetBranch: supportsTargetBranch ? resolvedTargetBranch : undefined,
-      prompt: supportsPrompt ? prompt.trim() : undefined,
-      skipPlan: supportsPrompt ? skipPlan : false,
-      background: supportsBackground ? background : false,
-      autoMerge,
-      skipPr: supportsSkipPr ? skipPr : false,
-      planText: supportsPrompt && skipPlan ? planText.trim() : undefined,
-      modelOverrides: Object.keys(modelOverrides).length > 0 ? modelOverrides : undefined,
+      workflowId: selectedWorkflow.id,
+      targetBranch: paramText(params.targetBranch),
+      prompt: paramText(params.prompt),
+      skipPlan: params.skipPlan === true,
+      background: params.background === true,
+      autoMerge: params.autoMerge === true,
+      skipPr: params.skipPr === true,
+      planText: paramText(params.planText),
+      params,
+      maxReviewIterations,
+      requirePlanApproval: canApprovePlan && requirePlanApproval,
+      keepWorkspace: selectedWorkflow.resumable === true && keepWorkspace,
+      modelOverrides: Object.keys(variants[0]).length > 0 ? variants[0] : undefined,
+      variants: runVariants ?? undefined,
+      batchPrompts: runBatch ? batchTasks : undefined,
+      issue: runIssue ?? undefined,
+      stackOnRunId: stackOnRunId ?? undefined,
     };
 
     const result = await onStart(options);
@@ -250,25 +268,13 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
               onValueChange={(value) => {
                 setWorkflowId(value);
                 setError(null);
-                const selected = PREDEFINED_WORKFLOWS.find((workflow) => workflow.id === value);
-                if (selected?.id !== 'development-auto-pr') {
-                  setBackground(false);
-                  setSkipPr(false);
-                  setSkipPlan(false);
-                }
-                if (selected?.id !== 'pr-autofix') {
-                  setSelectedPrNumber('');
-                  setBranchInput('');
-                  setBranchLookup(null);
-                  setPrTargetMode('pr');
-                }
               }}
             >
               <SelectTrigger className="h-9 bg-background">
                 <SelectValue placeholder="Select workflow" />
               </SelectTrigger>
               <SelectContent>
-                {PREDEFINED_WORKFLOWS.map((workflow) => (
+                {workflows.map((workflow) => (
                   <SelectItem key={workflow.id} value={workflow.id}>{workflow.name}</SelectItem>
                 ))}
               </SelectContent>
@@ -276,146 +282,143 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
             <p className="text-xs text-muted-foreground">{selectedWorkflow.description}</p>
           </div>
 
-          {supportsTargetBranch && (
-            <div className="space-y-2">
-              <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">PR Target</Label>
-              <Select value={prTargetMode} onValueChange={(value) => setPrTargetMode(value as 'pr' | 'branch')}>
-                <SelectTrigger className="h-9 bg-background">
-                  <SelectValue placeholder="Select target type" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="pr">Pick my open PR</SelectItem>
-                  <SelectItem value="branch">Enter branch name</SelectItem>
-                </SelectContent>
-              </Select>
-
-              {prTargetMode === 'pr' ? (
-                <>
-                  <Select value={selectedPrNumber} onValueChange={setSelectedPrNumber} disabled={loadingMyOpenPrs || myOpenPrs.length === 0}>
-                    <SelectTrigger className="h-9 bg-background">
-                      <SelectValue placeholder={loadingMyOpenPrs ? 'Loading your open PRs...' : 'Select one of your open PRs'} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {myOpenPrs.map((pr) => (
-                        <SelectItem key={pr.number} value={String(pr.number)}>
-                          #{pr.number} · {pr.headRefName} → {pr.baseRefName}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {myOpenPrs.length > 0 && selectedPrNumber && (
-                    <p className="text-xs text-muted-foreground truncate">
-                      {myOpenPrs.find((pr) => String(pr.number) === selectedPrNumber)?.title}
-                    </p>
-                  )}
-                  {!loadingMyOpenPrs && myOpenPrs.length === 0 && (
-                    <p className="text-xs text-muted-foreground">No open PRs authored by you were found in this repository.</p>
-                  )}
-                </>
-              ) : (
-                <>
-                  <Input
-                    value={branchInput}
-                    onChange={(e) => setBranchInput(e.target.value)}
-                    placeholder="feature/my-branch"
-                    className="h-9 bg-background"
-                  />
-                  {!branchInput.trim() && <p className="text-xs text-muted-foreground">Enter a local or remote branch name.</p>}
-                  {!!branchInput.trim() && checkingBranch && <p className="text-xs text-muted-foreground">Checking branch availability...</p>}
-                  {!!branchInput.trim() && !checkingBranch && branchLookup?.exists && branchLookup.local && (
-                    <p className="text-xs text-muted-foreground">Branch found locally.</p>
-                  )}
-                  {!!branchInput.trim() && !checkingBranch && branchLookup?.exists && !branchLookup.local && branchLookup.remote && (
-                    <p className="text-xs text-muted-foreground">Branch found on origin. It will be pulled before PR Autofix starts.</p>
-                  )}
-                  {!!branchInput.trim() && !checkingBranch && branchLookup && !branchLookup.exists && (
-                    <p className="text-xs text-destructive">Branch was not found locally or on origin.</p>
-                  )}
-                </>
-              )}
-
-              <p className="text-xs text-muted-foreground">
-                PR Autofix runs on the selected PR branch and expects an open PR for that branch.
-              </p>
+          {stackOnRunId && (
+            <div className="flex items-start justify-between gap-3 p-3 rounded-lg border border-border bg-muted/20">
+              <div className="flex gap-2">
+                <Layers className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-medium">Stacked PR</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {stackError ?? 'Branches from the PR of the run this was started from and opens the PR against it.'}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setStackOnRunId(null);
+                  setError(null);
+                }}
+                className="text-muted-foreground hover:text-destructive"
+                aria-label="Do not stack this run"
+              >
+                <X className="w-4 h-4" />
+              </button>
             </div>
           )}
 
-          {/* Skip plan toggle */}
-          {supportsPrompt && (
+          {supportsBatchRuns(selectedWorkflow) && (
             <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
               <div className="space-y-0.5">
-                <Label className="text-sm font-medium">Skip Plan Phase</Label>
-                <p className="text-xs text-muted-foreground">Provide your own implementation plan</p>
+                <Label className="text-sm font-medium">Batch</Label>
+                <p className="text-xs text-muted-foreground">Create one run per task, all with the settings below</p>
               </div>
-              <Switch checked={skipPlan} onCheckedChange={setSkipPlan} />
+              <Switch checked={batchMode} onCheckedChange={setBatchMode} />
             </div>
           )}
 
-          <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
-            <div className="space-y-0.5">
-              <Label className="text-sm font-medium">Run in Background</Label>
-              <p className="text-xs text-muted-foreground">
-                {supportsBackground
-                  ? 'Keeps running even after app quit; logs still stream while app is open'
-                  : 'This workflow currently runs in foreground only'}
-              </p>
+          {runBatch && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Tasks</Label>
+                <span className="text-xs text-muted-foreground">
+                  {batchTasks.length} {batchTasks.length === 1 ? 'task' : 'tasks'}
+                </span>
+              </div>
+              {batchFile ? (
+                <div className="flex items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm">
+                  <span className="truncate">{batchFile.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setBatchFile(null)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Remove task file"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <textarea
+                  value={batchText}
+                  onChange={(e) => {
+                    setBatchText(e.target.value);
+                    setError(null);
+                  }}
+                  placeholder="One task per line"
+                  rows={6}
+                  className="w-full bg-background border border-input rounded-md px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y"
+                />
+              )}
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-[11px] text-muted-foreground/80">
+                  Or load a Markdown list, a JSON array or a CSV file with a prompt column.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs shrink-0"
+                  onClick={() => batchFileInput.current?.click()}
+                >
+                  <FileUp className="w-3.5 h-3.5 mr-1.5" />
+                  Load File
+                </Button>
+                <input
+                  ref={batchFileInput}
+                  type="file"
+                  accept={BATCH_FILE_TYPES}
+                  className="hidden"
+                  onChange={(e) => {
+                    void handleBatchFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
             </div>
-            <Switch checked={supportsBackground ? background : false} onCheckedChange={setBackground} disabled={!supportsBackground} />
-          </div>
+          )}
 
-          <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
-            <div className="space-y-0.5">
-              <Label className="text-sm font-medium">Auto Merge PR</Label>
-              <p className="text-xs text-muted-foreground">After PR creation, automatically merge when mergeable (default off)</p>
-            </div>
-            <Switch checked={autoMerge} onCheckedChange={setAutoMerge} disabled={skipPr} />
-          </div>
+          {hasWorkflowParam(selectedWorkflow, 'prompt') && !runBatch && (
+            <IssuePicker
+              repoPath={repoPath}
+              value={issue}
+              onChange={(detail) => {
+                setIssue(detail && { number: detail.number, title: detail.title, url: detail.url });
+                if (detail) setParam('prompt', buildIssuePrompt(detail));
+              }}
+            />
+          )}
 
-          <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
-            <div className="space-y-0.5">
-              <Label className="text-sm font-medium">Skip PR (Commit Only)</Label>
-              <p className="text-xs text-muted-foreground">
-                {supportsSkipPr
-                  ? 'Only commit changes locally — do not push or create a pull request'
-                  : 'This option is only available for Development + Auto PR'}
-              </p>
-            </div>
-            <Switch
-              checked={supportsSkipPr ? skipPr : false}
-              onCheckedChange={(checked) => { setSkipPr(checked); if (checked) setAutoMerge(false); }}
-              disabled={!supportsSkipPr}
+          {/* Workflow parameters */}
+          {visibleParams.map((param) => (
+            <WorkflowParameterField
+              key={`${selectedWorkflow.id}:${param.key}`}
+              param={param}
+              value={paramValues[param.key]}
+              required={isParameterRequired(param, paramValues)}
+              repoPath={repoPath}
+              onChange={(value) => setParam(param.key, value)}
             />
-          </div>
+          ))}
 
-          {/* Plan text area */}
-          {supportsPrompt && skipPlan && (
-            <div className="space-y-2 animate-in slide-in-from-top-2 fade-in duration-300">
-              <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Custom Plan</Label>
-              <textarea
-                value={planText}
-                onChange={(e) => setPlanText(e.target.value)}
-                placeholder="Paste your implementation plan here..."
-                rows={6}
-                className="w-full bg-background border border-input rounded-md px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring font-mono resize-y"
-              />
+          {canApprovePlan && (
+            <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">Pause for Plan Approval</Label>
+                <p className="text-xs text-muted-foreground">Review, edit or reject the plan before implementation starts</p>
+              </div>
+              <Switch checked={requirePlanApproval} onCheckedChange={setRequirePlanApproval} />
             </div>
           )}
 
-          {/* Prompt */}
-          {supportsPrompt && (
-            <div className="space-y-2">
-              <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                {skipPlan ? 'Task Description (Optional)' : 'Prompt'}
-              </Label>
-              <textarea
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder={skipPlan
-                  ? 'Optional: add extra context beyond your plan...'
-                  : 'Describe the task you want to accomplish...'}
-                rows={4}
-                className="w-full bg-background border border-input rounded-md px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y"
-              />
+          {selectedWorkflow.resumable && (
+            <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">Keep Workspace on Failure</Label>
+                <p className="text-xs text-muted-foreground">
+                  Exempt it from the retention policy, to fix it by hand and continue from commit, push or PR
+                </p>
+              </div>
+              <Switch checked={keepWorkspace} onCheckedChange={setKeepWorkspace} />
             </div>
           )}
 
@@ -426,18 +429,60 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
               className="flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors w-full py-2"
             >
               <ChevronRight className={cn("w-4 h-4 transition-transform duration-200", showAdvanced && "rotate-90")} />
-              Advanced: Model Overrides
+              Advanced: Model Overrides & Review Loop
             </button>
 
             {showAdvanced && (
               <div className="mt-4 space-y-3 animate-in slide-in-from-top-2 fade-in duration-300 p-4 rounded-lg bg-muted/20 border border-border/50">
+                {canRunVariants && (
+                  <div className="space-y-2 pb-3 border-b border-border/50">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {variants.map((_, index) => (
+                        <div
+                          key={index}
+                          className={cn(
+                            'flex items-center rounded-md border text-xs',
+                            runVariants && activeVariant === index
+                              ? 'border-primary/50 bg-primary/10 text-foreground'
+                              : 'border-border text-muted-foreground'
+                          )}
+                        >
+                          <button type="button" onClick={() => setActiveVariant(index)} className="px-2 h-7">
+                            Variant {index + 1}
+                          </button>
+                          {index > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => removeVariant(index)}
+                              className="pr-1.5 h-7 hover:text-destructive"
+                              aria-label={`Remove variant ${index + 1}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {variants.length < MAX_RUN_VARIANTS && (
+                        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={addVariant}>
+                          <Plus className="w-3.5 h-3.5 mr-1" />
+                          Add Variant
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-[11px] text-muted-foreground/80">
+                      {runVariants
+                        ? 'Each variant runs commit-only on its own branch. Compare them in the run panel and promote one to a PR.'
+                        : 'Add a variant to run the same prompt with different models side by side.'}
+                    </p>
+                  </div>
+                )}
                 <div className="flex justify-end">
                   <Button
                     type="button"
                     variant="ghost"
                     size="sm"
                     className="h-7 text-xs"
-                    onClick={() => setModelOverrides({})}
+                    onClick={() => updateOverrides(() => ({}))}
                   >
                     Reset to defaults
                   </Button>
@@ -446,23 +491,37 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
                   <div key={key} className="flex items-center justify-between gap-3">
                     <Label className="text-xs text-muted-foreground w-20 shrink-0">{label}</Label>
                     <Select
-                      value={modelOverrides[key] || config.models[key]}
+                      value={modelOverrides[key]?.[0] || config.models[key][0]}
                       onValueChange={(value) => setOverride(key, value)}
                     >
                       <SelectTrigger className="h-8 text-xs bg-background flex-1">
                         <SelectValue placeholder="Select model" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value={config.models[key]}>{config.models[key]} (Default)</SelectItem>
-                        {availableModels
-                          .filter((m) => m !== config.models[key])
-                          .map((m) => (
-                            <SelectItem key={m} value={m}>{m}</SelectItem>
-                          ))}
+                        <SelectItem value={config.models[key][0]}>{config.models[key][0]} (Default)</SelectItem>
+                        <ModelSelectItems models={availableModels.filter((m) => m !== config.models[key][0])} />
                       </SelectContent>
                     </Select>
                   </div>
                 ))}
+                <div className="flex items-center justify-between gap-3 pt-3 border-t border-border/50">
+                  <div className="space-y-0.5">
+                    <Label className="text-xs text-muted-foreground">Review Iterations</Label>
+                    <p className="text-[11px] text-muted-foreground/80">Review → fix passes before committing without LGTM</p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_REVIEW_ITERATIONS_LIMIT}
+                    value={maxReviewIterations}
+                    onChange={(e) =>
+                      setMaxReviewIterations(
+                        Math.max(1, Math.min(MAX_REVIEW_ITERATIONS_LIMIT, parseInt(e.target.value) || 1))
+                      )
+                    }
+                    className="h-8 w-20 text-xs bg-background"
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -482,6 +541,12 @@ export default function NewRunDialog({ config, initialOptions, onStart, onClose
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   Starting
                 </>
+              ) : submitLabel ? (
+                submitLabel
+              ) : runBatch ? (
+                `Start ${batchTasks.length} ${batchTasks.length === 1 ? 'Run' : 'Runs'}`
+              ) : runVariants ? (
+                `Start ${runVariants.length} Variants`
               ) : (
                 'Start Run'
               )}
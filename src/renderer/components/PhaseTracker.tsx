@@ -1,23 +1,26 @@
-import type { PhaseStatus } from '@shared/types';
-import { PIPELINE_PHASES } from '@shared/types';
+import type { PhaseStatus, WorkflowPhase } from '@shared/types';
 import { CheckCircle2, Circle, Loader2, XCircle, MinusCircle } from 'lucide-react';
 import { cn } from '@shared/lib/utils';
 
+/** A pass/fail check reported for a phase, such as one verification command. */
+export interface PhaseCheck {
+  label: string;
+  passed: boolean;
+}
+
 interface PhaseTrackerProps {
   phases: Record<string, PhaseStatus>;
+  workflowPhases: WorkflowPhase[];
+  durations?: Record<string, number>;
+  checks?: Record<string, PhaseCheck[]>;
+  /** Model each phase ran with, after any fallbacks. */
+  models?: Record<string, string>;
 }
 
-const PHASE_LABELS: Record<string, string> = {
-  CLONE: 'Clone',
-  SETUP: 'Setup',
-  PLAN: 'Plan',
-  IMPLEMENT: 'Implement',
-  REVIEW: 'Review',
-  FIX: 'Fix',
-  COMMIT: 'Commit',
-  PUSH: 'Push',
-  PR: 'PR',
-};
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
 
 function phaseIcon(status: PhaseStatus) {
   switch (status) {
@@ -60,14 +63,19 @@ function connectorColor(status: PhaseStatus): string {
   }
 }
 
-export default function PhaseTracker({ phases }: PhaseTrackerProps) {
+export default function PhaseTracker({ phases, workflowPhases, durations, checks, models }: PhaseTrackerProps) {
   return (
     <div className="flex items-center gap-0 px-4 py-3 overflow-x-auto scrollbar-none">
-      {PIPELINE_PHASES.map((phase, i) => {
-        const status = phases[phase] || 'pending';
+      {workflowPhases.map((phase, i) => {
+        const status = phases[phase.id] || 'pending';
+        const duration = durations?.[phase.id];
+        const phaseChecks = checks?.[phase.id] ?? [];
         return (
-          <div key={phase} className="flex items-center">
-            <div className={cn("flex flex-col items-center gap-1.5 min-w-[60px] transition-colors duration-300", phaseColor(status))}>
+          <div key={phase.id} className="flex items-center">
+            <div
+              title={models?.[phase.id]}
+              className={cn("flex flex-col items-center gap-1.5 min-w-[60px] transition-colors duration-300", phaseColor(status))}
+            >
               {phaseIcon(status)}
               <span
                 className={cn(
@@ -75,10 +83,24 @@ export default function PhaseTracker({ phases }: PhaseTrackerProps) {
                   status === 'active' ? 'text-blue-600 dark:text-blue-300' : ''
                 )}
               >
-                {PHASE_LABELS[phase] || phase}
+                {phase.label}
               </span>
+              {duration !== undefined && (
+                <span className="text-[10px] text-muted-foreground tabular-nums">{formatDuration(duration)}</span>
+              )}
+              {phaseChecks.length > 0 && (
+                <div className="flex items-center gap-0.5">
+                  {phaseChecks.map((check, index) => (
+                    <span
+                      key={`${check.label}-${index}`}
+                      title={`${check.passed ? 'Passed' : 'Failed'}: ${check.label}`}
+                      className={cn('w-1.5 h-1.5 rounded-full', check.passed ? 'bg-emerald-500' : 'bg-destructive')}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
-            {i < PIPELINE_PHASES.length - 1 && (
+            {i < workflowPhases.length - 1 && (
               <div className={cn("w-6 h-[2px] flex-shrink-0 transition-colors duration-300 rounded-full", connectorColor(status))} />
             )}
           </div>
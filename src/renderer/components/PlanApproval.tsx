@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import api from '../lib/ipc';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { Check, Loader2, X } from 'lucide-react';
+
+interface PlanApprovalProps {
+  runId: string;
+  planText: string;
+}
+
+export default function PlanApproval({ runId, planText }: PlanApprovalProps) {
+  const [draft, setDraft] = useState(planText);
+  const [busy, setBusy] = useState<'approve' | 'reject' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const edited = draft.trim() !== planText.trim();
+
+  const handleApprove = async () => {
+    if (!draft.trim()) {
+      setError('The plan cannot be empty.');
+      return;
+    }
+    setError(null);
+    setBusy('approve');
+    const ok = await api().approveRunPlan(runId, edited ? draft : '');
+    setBusy(null);
+    if (!ok) setError('The run is no longer waiting for approval.');
+  };
+
+  const handleReject = async () => {
+    setError(null);
+    setBusy('reject');
+    const ok = await api().rejectRunPlan(runId);
+    setBusy(null);
+    if (!ok) setError('The run is no longer waiting for approval.');
+  };
+
+  return (
+    <Card className="p-3 bg-amber-500/5 border-amber-500/30 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Plan Approval</h3>
+        <span className="text-xs text-muted-foreground">
+          {edited ? 'Edited — the implement step will use your version' : 'Review the plan before implementation starts'}
+        </span>
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={12}
+        className="w-full bg-background border border-input rounded-md px-3 py-2 text-xs font-mono focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleApprove} disabled={busy !== null} className="h-8 text-xs">
+          {busy === 'approve' ? (
+            <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+          ) : (
+            <Check className="w-3.5 h-3.5 mr-1.5" />
+          )}
+          {edited ? 'Approve Edited Plan' : 'Approve Plan'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReject}
+          disabled={busy !== null}
+          className="h-8 text-xs text-destructive hover:text-destructive"
+        >
+          {busy === 'reject' ? (
+            <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+          ) : (
+            <X className="w-3.5 h-3.5 mr-1.5" />
+          )}
+          Reject
+        </Button>
+      </div>
+    </Card>
+  );
+}
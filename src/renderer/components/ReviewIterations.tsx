@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { ReviewIteration, ReviewIterationStatus } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Card } from '@shared/components/ui/card';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface ReviewIterationsProps {
+  iterations: ReviewIteration[];
+  maxIterations: number;
+}
+
+const STATUS_LABELS: Record<ReviewIterationStatus, string> = {
+  reviewing: 'Reviewing',
+  lgtm: 'LGTM',
+  fixing: 'Fixing',
+  fixed: 'Fixed',
+  failed: 'Failed',
+};
+
+function statusClass(status: ReviewIterationStatus): string {
+  switch (status) {
+    case 'lgtm':
+    case 'fixed':
+      return 'text-emerald-600 dark:text-emerald-400 border-emerald-500/30';
+    case 'reviewing':
+    case 'fixing':
+      return 'text-blue-600 dark:text-blue-400 border-blue-500/30';
+    case 'failed':
+      return 'text-destructive border-destructive/30';
+  }
+}
+
+export default function ReviewIterations({ iterations, maxIterations }: ReviewIterationsProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Review Loop</h3>
+        <span className="text-xs text-muted-foreground">
+          {iterations.length}/{maxIterations} iterations
+        </span>
+      </div>
+      <div className="space-y-1">
+        {iterations.map((item) => {
+          const isExpanded = expanded === item.iteration;
+          const canExpand = !!item.findings && item.status !== 'lgtm';
+          return (
+            <div key={item.iteration}>
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : item.iteration)}
+                disabled={!canExpand}
+                className="flex items-center gap-2 w-full text-left text-sm py-1 disabled:cursor-default"
+              >
+                {canExpand ? (
+                  isExpanded ? (
+                    <ChevronDown className="w-3.5 h-3.5 text-muted-foreground/60 shrink-0" />
+                  ) : (
+                    <ChevronRight className="w-3.5 h-3.5 text-muted-foreground/60 shrink-0" />
+                  )
+                ) : (
+                  <span className="w-3.5 shrink-0" />
+                )}
+                <span className="font-medium">Iteration {item.iteration}</span>
+                <Badge variant="outline" className={cn('text-[10px]', statusClass(item.status))}>
+                  {STATUS_LABELS[item.status]}
+                </Badge>
+              </button>
+              {isExpanded && item.findings && (
+                <pre className="ml-5 mt-1 mb-2 max-h-48 overflow-auto rounded-md bg-background/60 border border-border/50 p-2 text-xs font-mono whitespace-pre-wrap">
+                  {item.findings}
+                </pre>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
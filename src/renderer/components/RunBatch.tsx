@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import api from '../lib/ipc';
+import { STATUS_CLASSES } from '../lib/run-status';
+import { summarizeBatch } from '@shared/run-batch';
+import type { RunState } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { Check, Copy, ExternalLink } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunBatchProps {
+  run: RunState;
+  /** Runs of the selected run's batch, including itself and resumed tasks. */
+  batchRuns: RunState[];
+  onSelectRun: (runId: string) => void;
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0];
+}
+
+export default function RunBatch({ run, batchRuns, onSelectRun }: RunBatchProps) {
+  const [copied, setCopied] = useState(false);
+  const summary = summarizeBatch(batchRuns);
+  if (!summary) return null;
+
+  const finished = summary.completed + summary.failed + summary.stopped;
+  const prRuns = summary.items.filter((item) => item.prUrl);
+  const segments = [
+    { count: summary.completed, className: 'bg-emerald-500' },
+    { count: summary.failed, className: 'bg-destructive' },
+    { count: summary.stopped, className: 'bg-yellow-500' },
+    { count: summary.active, className: 'bg-blue-500 animate-pulse' },
+  ];
+
+  const handleCopyPrs = () => {
+    const text = prRuns.map((item) => `- ${item.prTitle || firstLine(item.prompt)}: ${item.prUrl}`).join('\n');
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Batch</h3>
+        <span className="text-xs text-muted-foreground tabular-nums">
+          {finished} of {summary.size} finished
+        </span>
+      </div>
+      <div className="flex h-1.5 rounded-full bg-muted overflow-hidden mb-2">
+        {segments.map(
+          (segment, index) =>
+            segment.count > 0 && (
+              <div
+                key={index}
+                className={segment.className}
+                style={{ width: `${(segment.count / summary.size) * 100}%` }}
+              />
+            )
+        )}
+      </div>
+      <p className="mb-3 text-xs text-muted-foreground">
+        {summary.completed} completed · {summary.failed} failed · {summary.stopped} stopped · {summary.active} active ·{' '}
+        {summary.queued} queued
+      </p>
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full text-xs">
+          <tbody>
+            {summary.items.map((item) => (
+              <tr key={item.id} className={cn('border-t border-border/50', item.id === run.id && 'bg-muted/50')}>
+                <td className="py-1.5 pr-2 w-8 text-muted-foreground tabular-nums">{item.batch?.index}</td>
+                <td className="py-1.5 pr-3 max-w-0 w-full">
+                  <button
+                    type="button"
+                    onClick={() => onSelectRun(item.id)}
+                    className="block w-full text-left truncate hover:underline"
+                    title={item.prompt}
+                  >
+                    {firstLine(item.prompt)}
+                  </button>
+                </td>
+                <td className="py-1.5 pr-3">
+                  <Badge variant="outline" className={cn('text-[10px] capitalize', STATUS_CLASSES[item.status])}>
+                    {item.status.replace('-', ' ')}
+                  </Badge>
+                </td>
+                <td className="py-1.5 text-right whitespace-nowrap">
+                  {item.prUrl ? (
+                    <button
+                      type="button"
+                      onClick={() => api().openUrl(item.prUrl!)}
+                      className="inline-flex items-center gap-1 text-emerald-600 dark:text-emerald-400 hover:underline"
+                    >
+                      {item.prNumber ? `#${item.prNumber}` : 'PR'}
+                      <ExternalLink className="w-3 h-3" />
+                    </button>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {prRuns.length > 0 && (
+        <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/50">
+          <span className="text-xs text-muted-foreground">
+            {prRuns.length} {prRuns.length === 1 ? 'PR' : 'PRs'} opened
+          </span>
+          <Button variant="ghost" size="sm" onClick={handleCopyPrs} className="h-7 text-xs">
+            {copied ? <Check className="w-3.5 h-3.5 mr-1.5" /> : <Copy className="w-3.5 h-3.5 mr-1.5" />}
+            Copy PR List
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import api from '../lib/ipc';
+import { STATUS_CLASSES } from '../lib/run-status';
+import { ACTIVE_RUN_STATUSES } from '@shared/types';
+import type { RunState } from '@shared/types';
+import {
+  CHAIN_TRIGGER_LABELS,
+  describeChainWait,
+  getChainBlockReason,
+  getPreviousChainStep,
+  summarizeChain,
+} from '@shared/run-chain';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { ArrowDown, ExternalLink, Loader2, XCircle } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunChainProps {
+  run: RunState;
+  /** Runs of the selected run's chain, including itself and resumed steps. */
+  chainRuns: RunState[];
+  onSelectRun: (runId: string) => void;
+}
+
+export default function RunChain({ run, chainRuns, onSelectRun }: RunChainProps) {
+  const [cancelling, setCancelling] = useState(false);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const steps = summarizeChain(chainRuns);
+  if (steps.length === 0) return null;
+
+  const pending = steps.some((step) => step.status === 'queued' || ACTIVE_RUN_STATUSES.includes(step.status));
+
+  const handleCancel = async () => {
+    if (!confirmCancel) {
+      setConfirmCancel(true);
+      return;
+    }
+    setConfirmCancel(false);
+    setCancelling(true);
+    await api().cancelRunChain(run.chain!.chainId);
+    setCancelling(false);
+  };
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Chain</h3>
+        {pending && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCancel}
+            onBlur={() => setConfirmCancel(false)}
+            disabled={cancelling}
+            className={cn('h-7 text-xs', confirmCancel && 'text-destructive')}
+          >
+            {cancelling ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <XCircle className="w-3.5 h-3.5 mr-1.5" />}
+            {confirmCancel ? 'Confirm Cancel' : 'Cancel Chain'}
+          </Button>
+        )}
+      </div>
+      <ol className="space-y-1">
+        {steps.map((step) => {
+          const previous = step.chain!.index > 1 ? getPreviousChainStep(chainRuns, step) : null;
+          const trigger = step.chain!.trigger;
+          const waitNote =
+            step.status === 'queued' && step.chain!.waiting && trigger
+              ? getChainBlockReason(previous, trigger) ?? (previous ? describeChainWait(previous, trigger) : null)
+              : null;
+
+          return (
+            <li key={step.id}>
+              {trigger && (
+                <div className="flex items-center gap-1.5 pl-1 py-0.5 text-[11px] text-muted-foreground">
+                  <ArrowDown className="w-3 h-3" />
+                  {CHAIN_TRIGGER_LABELS[trigger]}
+                  {step.chain!.includeContext && ' · with its plan and diff summary'}
+                </div>
+              )}
+              <div
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1.5 rounded-md border border-border/50 text-xs',
+                  step.id === run.id && 'bg-muted/50'
+                )}
+              >
+                <span className="w-5 text-muted-foreground tabular-nums">{step.chain!.index}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelectRun(step.id)}
+                  className="flex-1 min-w-0 text-left truncate hover:underline"
+                  title={step.prompt}
+                >
+                  {step.prompt.split('\n')[0] || step.workflowName}
+                </button>
+                {step.prUrl && (
+                  <button
+                    type="button"
+                    onClick={() => api().openUrl(step.prUrl!)}
+                    className="inline-flex items-center gap-1 text-emerald-600 dark:text-emerald-400 hover:underline"
+                  >
+                    {step.prNumber ? `#${step.prNumber}` : 'PR'}
+                    {step.prMergeStatus === 'merged' && ' merged'}
+                    <ExternalLink className="w-3 h-3" />
+                  </button>
+                )}
+                <Badge variant="outline" className={cn('text-[10px] capitalize', STATUS_CLASSES[step.status])}>
+                  {step.chain!.waiting && step.status === 'queued' ? 'waiting' : step.status.replace('-', ' ')}
+                </Badge>
+              </div>
+              {waitNote && <p className="pl-9 pt-0.5 text-[11px] text-muted-foreground">{waitNote}</p>}
+              {step.chain!.message && <p className="pl-9 pt-0.5 text-[11px] text-destructive">{step.chain!.message}</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import api from '../lib/ipc';
+import type { RunState } from '@shared/types';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { ChevronDown, ChevronRight, FileDiff, Loader2, Undo2 } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunCheckpointsProps {
+  run: RunState;
+}
+
+type DiffTarget = number | 'all';
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+  if (line.startsWith('+')) return 'text-emerald-600 dark:text-emerald-400';
+  if (line.startsWith('-')) return 'text-destructive';
+  if (line.startsWith('@@')) return 'text-blue-600 dark:text-blue-400';
+  if (line.startsWith('diff --git')) return 'text-foreground font-semibold';
+  return 'text-muted-foreground';
+}
+
+function DiffView({ diff }: { diff: string }) {
+  if (!diff.trim()) {
+    return <p className="text-xs text-muted-foreground">No changes.</p>;
+  }
+  return (
+    <pre className="max-h-96 overflow-auto rounded-md bg-background/60 border border-border/50 p-2 text-xs font-mono">
+      {diff.split('\n').map((line, i) => (
+        <div key={i} className={diffLineClass(line)}>
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export default function RunCheckpoints({ run }: RunCheckpointsProps) {
+  const [target, setTarget] = useState<DiffTarget | null>(null);
+  const [diff, setDiff] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingRollback, setPendingRollback] = useState<number | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const canRollback = run.resumable && (run.status === 'failed' || run.status === 'stopped');
+  const phaseLabel = (id: string) => run.workflowPhases.find((phase) => phase.id === id)?.label ?? id;
+
+  const toggleDiff = async (next: DiffTarget) => {
+    if (target === next) {
+      setTarget(null);
+      return;
+    }
+    setTarget(next);
+    setDiff(null);
+    setError(null);
+    setLoading(true);
+    const result = await api().getRunCheckpointDiff(run.id, next === 'all' ? null : next);
+    setLoading(false);
+    if (result.ok) {
+      setDiff(result.diff ?? '');
+    } else {
+      setError(result.error || 'Failed to load diff');
+    }
+  };
+
+  const handleRollback = async (index: number) => {
+    if (pendingRollback !== index) {
+      setPendingRollback(index);
+      return;
+    }
+    setError(null);
+    setRollingBack(true);
+    const result = await api().rollbackRunToCheckpoint(run.id, index);
+    setRollingBack(false);
+    setPendingRollback(null);
+    setTarget(null);
+    if (!result.ok) setError(result.error || 'Failed to roll back');
+  };
+
+  const diffPanel = (
+    <div className="ml-5 mt-1 mb-2">
+      {loading ? (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+          Loading diff...
+        </p>
+      ) : (
+        diff !== null && <DiffView diff={diff} />
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Checkpoints</h3>
+        <Button
+          variant={target === 'all' ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => toggleDiff('all')}
+          className="h-7 text-xs"
+        >
+          <FileDiff className="w-3.5 h-3.5 mr-1.5" />
+          Cumulative Diff
+        </Button>
+      </div>
+      {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+      {target === 'all' && diffPanel}
+      <div className="space-y-1">
+        {run.checkpoints.map((checkpoint, index) => {
+          const isExpanded = target === index;
+          return (
+            <div key={checkpoint.ref}>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => toggleDiff(index)}
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left text-sm py-1"
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="w-3.5 h-3.5 text-muted-foreground/60 shrink-0" />
+                  ) : (
+                    <ChevronRight className="w-3.5 h-3.5 text-muted-foreground/60 shrink-0" />
+                  )}
+                  <span className="font-medium">After {phaseLabel(checkpoint.phase)}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{checkpoint.commit.slice(0, 8)}</span>
+                </button>
+                {canRollback && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRollback(index)}
+                    disabled={rollingBack}
+                    className={cn('h-7 text-xs', pendingRollback === index && 'text-destructive hover:text-destructive')}
+                  >
+                    {rollingBack && pendingRollback === index ? (
+                      <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                    ) : (
+                      <Undo2 className="w-3.5 h-3.5 mr-1.5" />
+                    )}
+                    {pendingRollback === index ? 'Confirm Roll Back' : 'Roll Back'}
+                  </Button>
+                )}
+              </div>
+              {isExpanded && diffPanel}
+            </div>
+          );
+        })}
+      </div>
+      {canRollback && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Rolling back discards the workspace changes made after the checkpoint; resume the run to continue from there.
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,370 @@
+import { useEffect, useMemo, useState } from 'react';
+import api from '../lib/ipc';
+import { highlightLine, languageForPath, type SyntaxTokenKind } from '../lib/syntax';
+import type { RunDiffFile, RunDiffFileStatus, RunDiffResult } from '@shared/types';
+import { Button } from '@shared/components/ui/button';
+import { Folder, Loader2, RefreshCw } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunDiffViewerProps {
+  runId: string;
+}
+
+type DiffMode = 'unified' | 'split';
+
+interface DiffRow {
+  kind: 'hunk' | 'context' | 'add' | 'del';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+interface SplitRow {
+  hunk: string | null;
+  left: DiffRow | null;
+  right: DiffRow | null;
+}
+
+interface TreeNode {
+  name: string;
+  children: TreeNode[];
+  file: RunDiffFile | null;
+}
+
+const STATUS_LETTERS: Record<RunDiffFileStatus, string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+};
+
+const STATUS_CLASSES: Record<RunDiffFileStatus, string> = {
+  added: 'text-emerald-600 dark:text-emerald-400',
+  modified: 'text-amber-600 dark:text-amber-400',
+  deleted: 'text-destructive',
+  renamed: 'text-blue-600 dark:text-blue-400',
+};
+
+const TOKEN_CLASSES: Record<SyntaxTokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-600 dark:text-purple-400',
+  string: 'text-amber-700 dark:text-amber-300',
+  comment: 'text-muted-foreground italic',
+  number: 'text-sky-600 dark:text-sky-400',
+};
+
+const ROW_CLASSES: Record<DiffRow['kind'], string> = {
+  hunk: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  context: '',
+  add: 'bg-emerald-500/10',
+  del: 'bg-destructive/10',
+};
+
+function parsePatch(patch: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      rows.push({ kind: 'hunk', text: line, oldLine: null, newLine: null });
+    } else if (line.startsWith('+')) {
+      rows.push({ kind: 'add', text: line.slice(1), oldLine: null, newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      rows.push({ kind: 'del', text: line.slice(1), oldLine: oldLine++, newLine: null });
+    } else if (!line.startsWith('\\')) {
+      rows.push({ kind: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return rows;
+}
+
+/** Pairs each run of deleted lines with the added lines that follow it. */
+function toSplitRows(rows: DiffRow[]): SplitRow[] {
+  const result: SplitRow[] = [];
+  let dels: DiffRow[] = [];
+  let adds: DiffRow[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i += 1) {
+      result.push({ hunk: null, left: dels[i] ?? null, right: adds[i] ?? null });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const row of rows) {
+    if (row.kind === 'del') {
+      if (adds.length > 0) flush();
+      dels.push(row);
+    } else if (row.kind === 'add') {
+      adds.push(row);
+    } else {
+      flush();
+      result.push(row.kind === 'hunk' ? { hunk: row.text, left: null, right: null } : { hunk: null, left: row, right: row });
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function buildTree(files: RunDiffFile[]): TreeNode[] {
+  const root: TreeNode = { name: '', children: [], file: null };
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    parts.forEach((part, index) => {
+      const isFile = index === parts.length - 1;
+      let child = isFile ? undefined : node.children.find((item) => item.name === part && !item.file);
+      if (!child) {
+        child = { name: part, children: [], file: isFile ? file : null };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+
+  // Collapse single-directory chains such as `src/main` into one row.
+  const compact = (node: TreeNode): TreeNode => {
+    let current = node;
+    while (!current.file && current.children.length === 1 && !current.children[0].file) {
+      const only = current.children[0];
+      current = { ...only, name: `${current.name}/${only.name}` };
+    }
+    return { ...current, children: current.children.map(compact) };
+  };
+
+  return root.children.map(compact);
+}
+
+function CodeText({ text, language }: { text: string; language: string | null }) {
+  return (
+    <>
+      {highlightLine(text, language).map((token, i) => (
+        <span key={i} className={TOKEN_CLASSES[token.kind]}>
+          {token.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function LineNumber({ value }: { value: number | null }) {
+  return <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground/60 select-none">{value ?? ''}</span>;
+}
+
+function UnifiedView({ rows, language }: { rows: DiffRow[]; language: string | null }) {
+  return (
+    <div className="min-w-max">
+      {rows.map((row, i) => (
+        <div key={i} className={cn('flex', ROW_CLASSES[row.kind])}>
+          <LineNumber value={row.oldLine} />
+          <LineNumber value={row.newLine} />
+          <span className="w-4 shrink-0 text-muted-foreground select-none">
+            {row.kind === 'add' ? '+' : row.kind === 'del' ? '-' : ''}
+          </span>
+          <span className="whitespace-pre pr-4">
+            {row.kind === 'hunk' ? row.text : <CodeText text={row.text} language={language} />}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SplitSide({ row, side, language }: { row: DiffRow | null; side: 'left' | 'right'; language: string | null }) {
+  return (
+    <div className={cn('flex min-w-0 overflow-hidden', row ? ROW_CLASSES[row.kind] : 'bg-muted/30')}>
+      <LineNumber value={row ? (side === 'left' ? row.oldLine : row.newLine) : null} />
+      <span className="whitespace-pre pr-4">{row && <CodeText text={row.text} language={language} />}</span>
+    </div>
+  );
+}
+
+function SplitView({ rows, language }: { rows: DiffRow[]; language: string | null }) {
+  const splitRows = useMemo(() => toSplitRows(rows), [rows]);
+  return (
+    <div>
+      {splitRows.map((row, i) =>
+        row.hunk !== null ? (
+          <div key={i} className={cn('pl-10 whitespace-pre', ROW_CLASSES.hunk)}>
+            {row.hunk}
+          </div>
+        ) : (
+          <div key={i} className="grid grid-cols-2 divide-x divide-border/50">
+            <SplitSide row={row.left} side="left" language={language} />
+            <SplitSide row={row.right} side="right" language={language} />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function FileTree({
+  nodes,
+  depth,
+  selected,
+  onSelect,
+}: {
+  nodes: TreeNode[];
+  depth: number;
+  selected: string | null;
+  onSelect: (path: string) => void;
+}) {
+  return (
+    <>
+      {nodes.map((node) =>
+        node.file ? (
+          <button
+            key={node.file.path}
+            type="button"
+            onClick={() => onSelect(node.file!.path)}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            className={cn(
+              'flex items-center gap-2 w-full text-left text-xs py-1 pr-2 rounded-sm hover:bg-muted/60',
+              selected === node.file.path && 'bg-muted'
+            )}
+            title={node.file.oldPath ? `${node.file.oldPath} → ${node.file.path}` : node.file.path}
+          >
+            <span className={cn('w-3 shrink-0 font-mono font-semibold', STATUS_CLASSES[node.file.status])}>
+              {STATUS_LETTERS[node.file.status]}
+            </span>
+            <span className="truncate flex-1">{node.name}</span>
+            <span className="shrink-0 font-mono text-[10px] text-emerald-600 dark:text-emerald-400">
+              +{node.file.additions}
+            </span>
+            <span className="shrink-0 font-mono text-[10px] text-destructive">-{node.file.deletions}</span>
+          </button>
+        ) : (
+          <div key={`${depth}:${node.name}`}>
+            <div
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              className="flex items-center gap-1.5 text-xs py-1 text-muted-foreground"
+            >
+              <Folder className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{node.name}</span>
+            </div>
+            <FileTree nodes={node.children} depth={depth + 1} selected={selected} onSelect={onSelect} />
+          </div>
+        )
+      )}
+    </>
+  );
+}
+
+export default function RunDiffViewer({ runId }: RunDiffViewerProps) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const [result, setResult] = useState<{ key: string; diff: RunDiffResult } | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('unified');
+
+  const requestKey = `${runId}:${reloadCount}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api()
+      .getRunDiff(runId)
+      .then((diff) => {
+        if (!cancelled) setResult({ key: requestKey, diff });
+      })
+      .catch((err) => {
+        if (!cancelled) setResult({ key: requestKey, diff: { ok: false, error: String(err) } });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, requestKey]);
+
+  const loading = result?.key !== requestKey;
+  const diff = result?.diff ?? null;
+  const files = useMemo(() => diff?.files ?? [], [diff]);
+  const tree = useMemo(() => buildTree(files), [files]);
+  const selectedFile = files.find((file) => file.path === selectedPath) ?? files[0] ?? null;
+  const rows = useMemo(() => (selectedFile ? parsePatch(selectedFile.patch) : []), [selectedFile]);
+  const language = selectedFile ? languageForPath(selectedFile.path) : null;
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+  return (
+    <div className="flex flex-col h-full min-h-0 gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground truncate">
+          {loading
+            ? 'Loading changes...'
+            : diff?.ok
+              ? `${files.length} file${files.length === 1 ? '' : 's'} changed · +${additions} -${deletions} against ${diff.base} · from ${diff.source === 'workspace' ? 'the workspace' : 'origin'}`
+              : ''}
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex rounded-md border border-border overflow-hidden">
+            {(['unified', 'split'] as const).map((item) => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setMode(item)}
+                className={cn(
+                  'px-2.5 h-7 text-xs capitalize transition-colors',
+                  mode === item ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {item}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setReloadCount((count) => count + 1)} disabled={loading} className="h-7 text-xs">
+            <RefreshCw className={cn('w-3.5 h-3.5 mr-1.5', loading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading changes...
+        </div>
+      ) : !diff?.ok ? (
+        <p className="rounded-md border border-destructive/30 bg-destructive/10 px-4 py-2 text-xs text-destructive">
+          {diff?.error || 'Failed to load changes'}
+        </p>
+      ) : files.length === 0 ? (
+        <p className="text-xs text-muted-foreground">The run has no changes against {diff.base}.</p>
+      ) : (
+        <div className="flex flex-1 min-h-0 rounded-md border border-border overflow-hidden">
+          <div className="w-64 shrink-0 overflow-auto border-r border-border py-1 bg-muted/20">
+            <FileTree nodes={tree} depth={0} selected={selectedFile?.path ?? null} onSelect={setSelectedPath} />
+            {diff.truncated && (
+              <p className="px-2 py-1 text-[10px] text-muted-foreground">The diff was too large; later files are not shown.</p>
+            )}
+          </div>
+          <div className="flex-1 min-w-0 overflow-auto font-mono text-xs">
+            {selectedFile && (
+              <>
+                <div className="sticky top-0 z-10 px-3 py-1.5 border-b border-border bg-background/95 font-sans text-xs font-medium truncate">
+                  {selectedFile.oldPath ? `${selectedFile.oldPath} → ${selectedFile.path}` : selectedFile.path}
+                </div>
+                {selectedFile.binary ? (
+                  <p className="p-3 font-sans text-muted-foreground">Binary file not shown.</p>
+                ) : rows.length === 0 ? (
+                  <p className="p-3 font-sans text-muted-foreground">No content changes.</p>
+                ) : mode === 'split' ? (
+                  <SplitView rows={rows} language={language} />
+                ) : (
+                  <UnifiedView rows={rows} language={language} />
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
 import { useState, useEffect } from 'react';
-import PhaseTracker from './PhaseTracker';
+import PhaseTracker, { type PhaseCheck } from './PhaseTracker';
 import LogViewer from './LogViewer';
+import ReviewIterations from './ReviewIterations';
+import PlanApproval from './PlanApproval';
+import RunCheckpoints from './RunCheckpoints';
+import RunUsage from './RunUsage';
+import RunDiffViewer from './RunDiffViewer';
+import RunVariants from './RunVariants';
+import RunBatch from './RunBatch';
+import RunChain from './RunChain';
+import RunStack from './RunStack';
 import api from '../lib/ipc';
-import type { RunState, RunOptions, AppConfig } from '@shared/types';
+import { ACTIVE_RUN_STATUSES } from '@shared/types';
+import { getContinuePhases, getResumablePhases } from '@shared/run-resume';
+import { canStackOnRun } from '@shared/run-stack';
+import type { RunState, RunOptions, AppConfig, ModelFallback } from '@shared/types';
 import { Button } from '@shared/components/ui/button';
 import { Badge } from '@shared/components/ui/badge';
 import { Card } from '@shared/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@shared/components/ui/dropdown-menu';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@shared/components/ui/dialog';
-import { Square, ExternalLink, Copy, CheckCircle2, XCircle, StopCircle, GitBranch, ChevronDown, ChevronRight, RotateCcw, Loader2, RefreshCw, Code2 } from 'lucide-react';
+import { Square, ExternalLink, Copy, CheckCircle2, XCircle, StopCircle, GitBranch, ChevronDown, ChevronRight, RotateCcw, Loader2, RefreshCw, Code2, PauseCircle, StepForward, FastForward, CornerDownRight, FileDiff, Clock, ArrowUp, ArrowDown, CircleDot, Layers } from 'lucide-react';
 import { cn } from '@shared/lib/utils';
 import { getSubAgentActivity } from '../lib/sub-agent';
 
@@ -16,6 +30,20 @@ interface RunPanelProps {
   config: AppConfig;
   onStop: (runId: string) => void;
   onRerun: (options: RunOptions) => void;
+  onResume: (options: RunOptions) => Promise<{ ok: boolean; error?: string }>;
+  /** Runs of the selected run's variant group, including itself. */
+  variantRuns: RunState[];
+  /** Runs of the selected run's batch, including itself. */
+  batchRuns: RunState[];
+  /** Runs of the selected run's chain, including itself. */
+  chainRuns: RunState[];
+  /** Runs of the selected run's stack, bottom first; empty unless other runs are stacked with it. */
+  stackRuns: RunState[];
+  onSelectRun: (runId: string) => void;
+  onPromoteVariant: (runId: string) => Promise<{ ok: boolean; error?: string }>;
+  /** 0-based position of the run in the run queue and the queue length; null unless the run is queued. */
+  queuePosition: { index: number; length: number } | null;
+  onMoveQueued: (runId: string, toIndex: number) => void;
 }
 
 function formatElapsed(startedAt: number, finishedAt: number | null): string {
@@ -30,8 +58,28 @@ function formatElapsed(startedAt: number, finishedAt: number | null): string {
   return `${hours}h ${mins}m`;
 }
 
+const FALLBACK_REASON_LABELS: Record<ModelFallback['reason'], string> = {
+  unsupported: 'is not supported',
+  'rate-limited': 'was rate-limited',
+  failing: 'kept failing',
+};
+
+function formatModelFallback(fallback: ModelFallback): string {
+  const subject = `${fallback.phase ?? fallback.key}: ${fallback.from} ${FALLBACK_REASON_LABELS[fallback.reason]}`;
+  if (fallback.to === null) return `${subject}; no fallback model was left`;
+  if (fallback.to === fallback.from) return `${subject}; retried it`;
+  return `${subject}; switched to ${fallback.to}`;
+}
+
 function statusIndicator(status: RunState['status']) {
   switch (status) {
+    case 'queued':
+      return (
+        <Badge variant="secondary" className="bg-muted text-muted-foreground hover:bg-muted/80 border-border gap-1.5 py-1">
+          <Clock className="w-3.5 h-3.5" />
+          Queued
+        </Badge>
+      );
     case 'running':
       return (
         <Badge variant="secondary" className="bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/20 border-blue-500/20 gap-1.5 py-1">
@@ -39,6 +87,13 @@ function statusIndicator(status: RunState['status']) {
           Running
         </Badge>
       );
+    case 'awaiting-approval':
+      return (
+        <Badge variant="secondary" className="bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-500/20 border-amber-500/20 gap-1.5 py-1">
+          <PauseCircle className="w-3.5 h-3.5" />
+          Awaiting Approval
+        </Badge>
+      );
     case 'completed':
       return (
         <Badge variant="secondary" className="bg-green-500/10 text-green-600 dark:text-green-400 hover:bg-green-500/20 border-green-500/20 gap-1.5 py-1">
@@ -63,25 +118,49 @@ function statusIndicator(status: RunState['status']) {
   }
 }
 
-export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps) {
+export default function RunPanel({
+  run,
+  config,
+  onStop,
+  onRerun,
+  onResume,
+  variantRuns,
+  batchRuns,
+  chainRuns,
+  stackRuns,
+  onSelectRun,
+  onPromoteVariant,
+  queuePosition,
+  onMoveQueued,
+}: RunPanelProps) {
   const [_tick, setTick] = useState(0);
   const [promptExpanded, setPromptExpanded] = useState(false);
   const [prActionBusy, setPrActionBusy] = useState<'refresh' | 'merge' | 'resolve' | null>(null);
   const [prActionError, setPrActionError] = useState<string | null>(null);
   const [pendingMergeAction, setPendingMergeAction] = useState<'merge' | 'resolve' | null>(null);
+  const [resumePhase, setResumePhase] = useState<string | null>(null);
+  const [resuming, setResuming] = useState(false);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const [diffOpen, setDiffOpen] = useState(false);
   const subAgentActivity = getSubAgentActivity(run.logs);
+  const isActive = ACTIVE_RUN_STATUSES.includes(run.status);
+  const isQueued = run.status === 'queued';
+  const latestVerifyAttempt = run.verifyResults.reduce((max, result) => Math.max(max, result.attempt), 0);
+  const verifyChecks: PhaseCheck[] = run.verifyResults
+    .filter((result) => result.attempt === latestVerifyAttempt)
+    .map((result) => ({ label: result.command, passed: result.passed }));
 
   useEffect(() => {
-    if (run.status !== 'running') return;
+    if (!isActive) return;
     const interval = setInterval(() => {
       setTick((value) => value + 1);
     }, 1000);
     return () => clearInterval(interval);
-  }, [run.status, run.startedAt]);
+  }, [isActive, run.startedAt]);
 
   const elapsed = formatElapsed(
-    run.startedAt,
-    run.status === 'running' ? null : run.finishedAt,
+    run.runningAt ?? run.startedAt,
+    isActive ? null : run.finishedAt,
   );
 
   const handleCopyLog = () => {
@@ -121,10 +200,67 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
       autoMerge: run.autoMerge,
       skipPr: run.skipPr,
       planText: run.planText,
+      params: { ...run.params, skipPlan: true, planText: run.planText },
+      maxReviewIterations: run.maxReviewIterations,
+      requirePlanApproval: run.requirePlanApproval,
+      keepWorkspace: run.keepWorkspace,
       modelOverrides: run.modelOverrides ?? undefined,
+      issue: run.issue ?? undefined,
     });
   };
 
+  const handleStackRun = () => {
+    onRerun({
+      repoPath: run.repoPath,
+      workflowId: run.workflowId,
+      skipPlan: false,
+      background: run.background,
+      maxReviewIterations: run.maxReviewIterations,
+      requirePlanApproval: run.requirePlanApproval,
+      keepWorkspace: run.keepWorkspace,
+      modelOverrides: run.modelOverrides ?? undefined,
+      stackOnRunId: run.id,
+    });
+  };
+
+  const resumablePhases = getResumablePhases(run);
+  // Default to the first phase that did not finish.
+  const selectedResumePhase =
+    resumePhase && resumablePhases.includes(resumePhase) ? resumePhase : resumablePhases[resumablePhases.length - 1];
+  const phaseLabel = (id: string) => run.workflowPhases.find((phase) => phase.id === id)?.label ?? id;
+
+  const handleResume = async () => {
+    if (!selectedResumePhase) return;
+    setResumeError(null);
+    setResuming(true);
+    const result = await onResume({
+      repoPath: run.repoPath,
+      workflowId: run.workflowId,
+      prompt: run.prompt,
+      skipPlan: run.skipPlan,
+      background: run.background,
+      autoMerge: run.autoMerge,
+      skipPr: run.skipPr,
+      params: run.params,
+      maxReviewIterations: run.maxReviewIterations,
+      modelOverrides: run.modelOverrides ?? undefined,
+      resumeFromRunId: run.id,
+      resumeFromPhase: selectedResumePhase,
+    });
+    setResuming(false);
+    if (!result.ok) setResumeError(result.error || 'Failed to resume run');
+  };
+
+  const continuePhases = getContinuePhases(run);
+
+  const handleContinue = async (phase: string) => {
+    setResumeError(null);
+    setResuming(true);
+    const result = await api().continueRun(run.id, phase);
+    setResuming(false);
+    if (!result.ok) setResumeError(result.error || 'Failed to continue run');
+  };
+
   const handleRefreshPr = async () => {
     setPrActionError(null);
     setPrActionBusy('refresh');
@@ -190,6 +326,23 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
                 {run.branchName}
               </Badge>
             )}
+            {run.issue && (
+              <Badge
+                variant="outline"
+                className="text-xs gap-1 text-muted-foreground cursor-pointer hover:text-foreground"
+                onClick={() => api().openUrl(run.issue!.url)}
+                title={run.issueCommentUrl ? `${run.issue.title}\nPR linked on the issue` : run.issue.title}
+              >
+                <CircleDot className="w-3 h-3" />
+                #{run.issue.number}
+              </Badge>
+            )}
+            {run.resumedFromPhase && (
+              <Badge variant="outline" className="text-xs gap-1 text-muted-foreground">
+                <CornerDownRight className="w-3 h-3" />
+                Resumed from {phaseLabel(run.resumedFromPhase)}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-4">
             {run.status === 'running' && subAgentActivity.active && (
@@ -202,11 +355,13 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
                 {subAgentActivity.task || 'Sub-agent running'}
               </Badge>
             )}
-            {run.runMode === 'background' && run.status === 'running' && (
+            {run.runMode === 'background' && isActive && (
               <Badge variant="outline" className="text-xs">Background</Badge>
             )}
             {statusIndicator(run.status)}
-            <span className="text-sm font-medium text-muted-foreground bg-muted/30 px-2.5 py-1 rounded-md">{elapsed}</span>
+            {!isQueued && (
+              <span className="text-sm font-medium text-muted-foreground bg-muted/30 px-2.5 py-1 rounded-md">{elapsed}</span>
+            )}
           </div>
         </div>
         <button
@@ -228,7 +383,7 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
 
         {/* Action bar */}
         <div className="flex items-center gap-2 mt-4">
-          {run.status === 'running' && (
+          {isActive && (
             <Button
               variant="destructive"
               size="sm"
@@ -239,6 +394,46 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
               {run.runMode === 'background' ? 'Terminate Run' : 'Stop Run'}
             </Button>
           )}
+          {isQueued && (
+            <>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => onStop(run.id)}
+                className="h-8 text-xs shadow-sm hover:shadow-red-500/20 transition-all"
+              >
+                <Square className="w-3.5 h-3.5 mr-1.5 fill-current" />
+                Cancel Run
+              </Button>
+              {queuePosition && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => onMoveQueued(run.id, queuePosition.index - 1)}
+                    disabled={queuePosition.index === 0}
+                    className="h-8 w-8"
+                    title="Move Up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => onMoveQueued(run.id, queuePosition.index + 1)}
+                    disabled={queuePosition.index === queuePosition.length - 1}
+                    className="h-8 w-8"
+                    title="Move Down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </Button>
+                  <span className="text-xs text-muted-foreground ml-1">
+                    Position {queuePosition.index + 1} of {queuePosition.length}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
           {canRerunWithPlan && (
             <Button
               variant="default"
@@ -250,6 +445,58 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
               Re-run from Plan
             </Button>
           )}
+          {selectedResumePhase && (
+            <div className="flex items-center gap-1.5">
+              <Select value={selectedResumePhase} onValueChange={setResumePhase} disabled={resuming}>
+                <SelectTrigger className="h-8 w-[130px] text-xs bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {resumablePhases.map((phase) => (
+                    <SelectItem key={phase} value={phase}>{phaseLabel(phase)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="default"
+                size="sm"
+                onClick={handleResume}
+                disabled={resuming}
+                className="h-8 text-xs shadow-sm transition-all"
+              >
+                {resuming ? (
+                  <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <StepForward className="w-3.5 h-3.5 mr-1.5" />
+                )}
+                Resume from Phase
+              </Button>
+            </div>
+          )}
+          {continuePhases.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={resuming}
+                  className="h-8 text-xs shadow-sm transition-all"
+                  title="Run the remaining phases in this run, against the workspace as it is now"
+                >
+                  <FastForward className="w-3.5 h-3.5 mr-1.5" />
+                  Continue
+                  <ChevronDown className="w-3.5 h-3.5 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {continuePhases.map((phase) => (
+                  <DropdownMenuItem key={phase} onClick={() => handleContinue(phase)} className="text-xs">
+                    Continue from {phaseLabel(phase)}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           {run.prUrl && (
             <Button
               variant="default"
@@ -261,7 +508,30 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
               Open PR
             </Button>
           )}
-          {run.skipPr && workDir && run.status !== 'running' && (
+          {canStackOnRun(run) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleStackRun}
+              className="h-8 text-xs"
+              title="Start a run that branches from this PR and opens its PR against it"
+            >
+              <Layers className="w-3.5 h-3.5 mr-1.5" />
+              Stack New Run
+            </Button>
+          )}
+          {run.branchName && !isActive && !isQueued && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDiffOpen(true)}
+              className="h-8 text-xs"
+            >
+              <FileDiff className="w-3.5 h-3.5 mr-1.5" />
+              View Changes
+            </Button>
+          )}
+          {run.skipPr && workDir && !isActive && !isQueued && (
             <Button
               variant="default"
               size="sm"
@@ -295,9 +565,78 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
 
       {/* Phase tracker */}
       <div className="border-b border-border flex-shrink-0 bg-muted/10">
-        <PhaseTracker phases={run.phases} />
+        <PhaseTracker
+          phases={run.phases}
+          workflowPhases={run.workflowPhases}
+          durations={run.phaseDurations}
+          checks={{ VERIFY: verifyChecks }}
+          models={run.phaseModels}
+        />
       </div>
 
+      {resumeError && (
+        <div className="mx-6 mt-4 rounded-md border border-destructive/30 bg-destructive/10 px-4 py-2 text-xs text-destructive">
+          {resumeError}
+        </div>
+      )}
+
+      {run.status === 'failed' && run.errorMessage && (
+        <div className="mx-6 mt-4 rounded-md border border-destructive/30 bg-destructive/10 px-4 py-2 text-xs text-destructive">
+          {run.errorMessage}
+        </div>
+      )}
+
+      {run.modelFallbacks.length > 0 && (
+        <div className="mx-6 mt-4 rounded-md border border-amber-500/30 bg-amber-500/10 px-4 py-2 text-xs text-amber-700 dark:text-amber-300 space-y-0.5">
+          {run.modelFallbacks.map((fallback, index) => (
+            <div key={`${fallback.at}-${index}`}>
+              {formatModelFallback(fallback)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Model variants */}
+      {variantRuns.length > 1 && (
+        <div className="mx-6 mt-4">
+          <RunVariants
+            run={run}
+            variants={variantRuns}
+            models={config.models}
+            onSelectRun={onSelectRun}
+            onPromote={onPromoteVariant}
+          />
+        </div>
+      )}
+
+      {/* Batch */}
+      {run.batch && batchRuns.length > 0 && (
+        <div className="mx-6 mt-4">
+          <RunBatch run={run} batchRuns={batchRuns} onSelectRun={onSelectRun} />
+        </div>
+      )}
+
+      {/* Chain */}
+      {run.chain && chainRuns.length > 0 && (
+        <div className="mx-6 mt-4">
+          <RunChain run={run} chainRuns={chainRuns} onSelectRun={onSelectRun} />
+        </div>
+      )}
+
+      {/* Stack */}
+      {stackRuns.length > 1 && (
+        <div className="mx-6 mt-4">
+          <RunStack run={run} stackRuns={stackRuns} onSelectRun={onSelectRun} />
+        </div>
+      )}
+
+      {/* Plan approval */}
+      {run.status === 'awaiting-approval' && (
+        <div className="mx-6 mt-4">
+          <PlanApproval key={run.id} runId={run.id} planText={run.planText ?? ''} />
+        </div>
+      )}
+
       {/* PR management */}
       {run.prUrl && (
         <div className="mx-6 mt-4 animate-in slide-in-from-top-2 fade-in duration-500">
@@ -405,6 +744,27 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
         </div>
       )}
 
+      {/* Review loop */}
+      {run.reviewIterations.length > 0 && (
+        <div className="mx-6 mt-4">
+          <ReviewIterations iterations={run.reviewIterations} maxIterations={run.maxReviewIterations} />
+        </div>
+      )}
+
+      {/* Workspace checkpoints */}
+      {run.checkpoints.length > 0 && (
+        <div className="mx-6 mt-4">
+          <RunCheckpoints key={run.id} run={run} />
+        </div>
+      )}
+
+      {/* Agent usage and cost */}
+      {run.usage.length > 0 && (
+        <div className="mx-6 mt-4">
+          <RunUsage usage={run.usage} />
+        </div>
+      )}
+
       {/* Log viewer */}
       <div className="flex-1 min-h-0 p-4">
         <Card className="h-full overflow-hidden border-border/50 shadow-sm bg-card/50 backdrop-blur-sm">
@@ -434,6 +794,22 @@ export default function RunPanel({ run, config, onStop, onRerun }: RunPanelProps
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={diffOpen} onOpenChange={setDiffOpen}>
+        <DialogContent className="sm:max-w-6xl h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Changes</DialogTitle>
+            <DialogDescription>
+              Files changed on <span className="font-mono">{run.branchName}</span>
+            </DialogDescription>
+          </DialogHeader>
+          {diffOpen && (
+            <div className="flex-1 min-h-0">
+              <RunDiffViewer runId={run.id} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
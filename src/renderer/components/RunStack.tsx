@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import api from '../lib/ipc';
+import type { RunState } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { ExternalLink, GitMerge, Loader2 } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunStackProps {
+  run: RunState;
+  /** Runs of the selected run's stack, bottom first. */
+  stackRuns: RunState[];
+  onSelectRun: (runId: string) => void;
+}
+
+function describeStackRun(run: RunState): { label: string; className: string } {
+  if (run.prMergeStatus === 'merged') {
+    return { label: 'merged', className: 'text-purple-600 dark:text-purple-400 border-purple-500/30' };
+  }
+  if (run.stack?.mergeWhenReady) {
+    return { label: 'merge queued', className: 'text-blue-600 dark:text-blue-400 border-blue-500/30' };
+  }
+  if (run.prMergeStatus === 'conflict' || run.prMergeStatus === 'failed' || run.stack?.message) {
+    return { label: 'needs attention', className: 'text-destructive border-destructive/30' };
+  }
+  if (run.prUrl) {
+    return { label: 'open', className: 'text-emerald-600 dark:text-emerald-400 border-emerald-500/30' };
+  }
+  return { label: run.status.replace('-', ' '), className: 'text-muted-foreground' };
+}
+
+export default function RunStack({ run, stackRuns, onSelectRun }: RunStackProps) {
+  const [merging, setMerging] = useState(false);
+  const [confirmMerge, setConfirmMerge] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  if (stackRuns.length < 2) return null;
+
+  const openRuns = stackRuns.filter((item) => item.prUrl && item.prMergeStatus !== 'merged');
+  const mergeQueued = openRuns.some((item) => item.stack?.mergeWhenReady);
+
+  const handleMerge = async () => {
+    if (!confirmMerge) {
+      setConfirmMerge(true);
+      return;
+    }
+    setConfirmMerge(false);
+    setMerging(true);
+    setError(null);
+    const result = await api().mergeRunStack(run.id);
+    setMerging(false);
+    if (!result.ok) setError(result.error || 'Failed to merge the stack');
+  };
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Stack</h3>
+        {openRuns.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleMerge}
+            onBlur={() => setConfirmMerge(false)}
+            disabled={merging}
+            className="h-7 text-xs"
+            title="Merge the lowest open PR, then every PR above it once the one below has merged"
+          >
+            {merging ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <GitMerge className="w-3.5 h-3.5 mr-1.5" />}
+            {confirmMerge ? `Confirm Merge of ${openRuns.length}` : mergeQueued ? 'Retry Merge' : 'Merge Stack'}
+          </Button>
+        )}
+      </div>
+      {error && <p className="mb-2 text-[11px] text-destructive">{error}</p>}
+      <ol className="space-y-1">
+        {stackRuns.map((item, index) => {
+          const status = describeStackRun(item);
+          return (
+            <li key={item.id}>
+              <div
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1.5 rounded-md border border-border/50 text-xs',
+                  item.id === run.id && 'bg-muted/50'
+                )}
+              >
+                <span className="w-5 text-muted-foreground tabular-nums">{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelectRun(item.id)}
+                  className="flex-1 min-w-0 text-left truncate hover:underline"
+                  title={item.prompt}
+                >
+                  {item.prTitle || item.prompt.split('\n')[0] || item.branchName}
+                </button>
+                {item.prUrl && (
+                  <button
+                    type="button"
+                    onClick={() => api().openUrl(item.prUrl!)}
+                    className="inline-flex items-center gap-1 text-emerald-600 dark:text-emerald-400 hover:underline"
+                    title={item.stack ? `Targets ${item.stack.baseBranch}` : undefined}
+                  >
+                    {item.prNumber ? `#${item.prNumber}` : 'PR'}
+                    <ExternalLink className="w-3 h-3" />
+                  </button>
+                )}
+                <Badge variant="outline" className={cn('text-[10px] capitalize', status.className)}>
+                  {status.label}
+                </Badge>
+              </div>
+              {item.stack?.message && (
+                <p className="pl-9 pt-0.5 text-[11px] text-destructive">{item.stack.message}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <p className="mt-2 text-[11px] text-muted-foreground">
+        Bottom first. PRs above are rebased when the PR below changes, and retargeted once it merges.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import type { ModelUsage } from '@shared/types';
+import { formatCost, hasUnpricedUsage, sumUsageCost, sumUsageTokens } from '@shared/cost-model';
+import { Card } from '@shared/components/ui/card';
+
+interface RunUsageProps {
+  usage: ModelUsage[];
+}
+
+type PhaseUsage = {
+  phase: string;
+  items: ModelUsage[];
+};
+
+function groupByPhase(usage: ModelUsage[]): PhaseUsage[] {
+  const groups: PhaseUsage[] = [];
+  for (const item of usage) {
+    const phase = item.phase ?? 'Other';
+    const group = groups.find((entry) => entry.phase === phase);
+    if (group) group.items.push(item);
+    else groups.push({ phase, items: [item] });
+  }
+  return groups;
+}
+
+function formatTokens(usage: ModelUsage[]): string {
+  const input = sumUsageTokens(usage, 'inputTokens');
+  const output = sumUsageTokens(usage, 'outputTokens');
+  if (input === null && output === null) return '—';
+  return `${(input ?? 0).toLocaleString()} in / ${(output ?? 0).toLocaleString()} out`;
+}
+
+function formatCostOf(usage: ModelUsage[]): string {
+  return `${formatCost(sumUsageCost(usage))}${hasUnpricedUsage(usage) ? '+' : ''}`;
+}
+
+export default function RunUsage({ usage }: RunUsageProps) {
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Usage</h3>
+        <span
+          className="text-xs text-muted-foreground"
+          title={hasUnpricedUsage(usage) ? 'Some models have no cost multiplier; add them in Settings' : undefined}
+        >
+          {formatCostOf(usage)} premium requests · {usage.length} {usage.length === 1 ? 'call' : 'calls'}
+        </span>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="font-medium py-1">Phase</th>
+            <th className="font-medium py-1">Models</th>
+            <th className="font-medium py-1 text-right">Calls</th>
+            <th className="font-medium py-1 text-right">Time</th>
+            <th className="font-medium py-1 text-right">Tokens</th>
+            <th className="font-medium py-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groupByPhase(usage).map(({ phase, items }) => {
+            const failed = items.filter((item) => item.status === 'failed').length;
+            return (
+              <tr key={phase} className="border-t border-border/30">
+                <td className="py-1 font-medium">{phase}</td>
+                <td className="py-1 font-mono text-muted-foreground truncate max-w-[240px]">
+                  {[...new Set(items.map((item) => item.model))].join(', ')}
+                </td>
+                <td className="py-1 text-right tabular-nums">
+                  {items.length}
+                  {failed > 0 && <span className="text-destructive"> ({failed} failed)</span>}
+                </td>
+                <td className="py-1 text-right tabular-nums">
+                  {items.reduce((total, item) => total + item.duration, 0)}s
+                </td>
+                <td className="py-1 text-right tabular-nums">{formatTokens(items)}</td>
+                <td className="py-1 text-right tabular-nums">{formatCostOf(items)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </Card>
+  );
+}
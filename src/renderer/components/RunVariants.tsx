@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/ipc';
+import { STATUS_CLASSES } from '../lib/run-status';
+import { canPromoteVariant } from '@shared/run-variants';
+import { mergeModelChains } from '@shared/model-chains';
+import { formatCost, hasUnpricedUsage, sumUsageCost } from '@shared/cost-model';
+import type { ModelConfig, RunState } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { GitPullRequest, Loader2 } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface RunVariantsProps {
+  run: RunState;
+  variants: RunState[];
+  models: ModelConfig;
+  onSelectRun: (runId: string) => void;
+  onPromote: (runId: string) => Promise<{ ok: boolean; error?: string }>;
+}
+
+interface DiffSize {
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+function formatElapsed(startedAt: number, finishedAt: number | null): string {
+  const seconds = Math.floor(((finishedAt || Date.now()) - startedAt) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Counts list items in the review findings; unstructured findings count once per review. */
+function countFindings(run: RunState): number {
+  return run.reviewIterations.reduce((sum, iteration) => {
+    if (!iteration.findings || iteration.status === 'lgtm') return sum;
+    const items = iteration.findings.split('\n').filter((line) => /^\s*(?:[-*•]|\d+[.)])\s+/.test(line)).length;
+    return sum + (items || 1);
+  }, 0);
+}
+
+function verifySummary(run: RunState): string {
+  const latestAttempt = run.verifyResults.reduce((max, result) => Math.max(max, result.attempt), 0);
+  const latest = run.verifyResults.filter((result) => result.attempt === latestAttempt);
+  if (latest.length === 0) return '—';
+  return `${latest.filter((result) => result.passed).length}/${latest.length} passed`;
+}
+
+export default function RunVariants({ run, variants, models, onSelectRun, onPromote }: RunVariantsProps) {
+  const [diffSizes, setDiffSizes] = useState<Record<string, DiffSize | null>>({});
+  const [promoting, setPromoting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = [...variants].sort((a, b) => (a.variant?.index ?? 0) - (b.variant?.index ?? 0));
+  // Only finished variants whose workspace is still around have a stable diff to measure.
+  const measurable = sorted
+    .filter((item) => item.status === 'completed' && item.variant?.outcome !== 'discarded')
+    .map((item) => item.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!measurable) return;
+    let cancelled = false;
+
+    for (const runId of measurable.split(',')) {
+      api()
+        .getRunDiff(runId)
+        .then((result) => {
+          if (cancelled) return;
+          const files = result.ok ? result.files ?? [] : null;
+          setDiffSizes((prev) => ({
+            ...prev,
+            [runId]: files && {
+              files: files.length,
+              additions: files.reduce((sum, file) => sum + file.additions, 0),
+              deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+            },
+          }));
+        })
+        .catch(() => {
+          if (!cancelled) setDiffSizes((prev) => ({ ...prev, [runId]: null }));
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [measurable]);
+
+  const handlePromote = async (runId: string) => {
+    setError(null);
+    setPromoting(runId);
+    const result = await onPromote(runId);
+    setPromoting(null);
+    if (!result.ok) setError(result.error || 'Failed to promote variant');
+  };
+
+  const modelsOf = (item: RunState) => mergeModelChains(models, item.modelOverrides);
+
+  return (
+    <Card className="p-3 bg-muted/30 border-border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Model Variants</h3>
+        <span className="text-xs text-muted-foreground">Promote one variant to open its PR; the others are discarded</span>
+      </div>
+      {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-medium py-1 pr-3">Variant</th>
+              <th className="font-medium py-1 pr-3">Status</th>
+              <th className="font-medium py-1 pr-3">Duration</th>
+              <th className="font-medium py-1 pr-3">Diff</th>
+              <th className="font-medium py-1 pr-3">Findings</th>
+              <th className="font-medium py-1 pr-3">Verify</th>
+              <th className="font-medium py-1 pr-3">Cost</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((item) => {
+              const itemModels = modelsOf(item);
+              const diffSize = diffSizes[item.id];
+              return (
+                <tr key={item.id} className={cn('border-t border-border/50', item.id === run.id && 'bg-muted/50')}>
+                  <td className="py-1.5 pr-3">
+                    <button
+                      type="button"
+                      onClick={() => onSelectRun(item.id)}
+                      className="text-left hover:underline"
+                      title={Object.entries(itemModels).map(([key, value]) => `${key}: ${value.join(' → ')}`).join('\n')}
+                    >
+                      <span className="font-medium">V{item.variant?.index}</span>
+                      <span className="block text-muted-foreground truncate max-w-56">
+                        {item.phaseModels.PLAN ?? itemModels.modelPlan[0]} ·{' '}
+                        {item.phaseModels.IMPLEMENT ?? itemModels.modelImplement[0]}
+                      </span>
+                    </button>
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <Badge variant="outline" className={cn('text-[10px] capitalize', STATUS_CLASSES[item.status])}>
+                      {item.status.replace('-', ' ')}
+                    </Badge>
+                  </td>
+                  <td className="py-1.5 pr-3 tabular-nums">{formatElapsed(item.runningAt ?? item.startedAt, item.finishedAt)}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">
+                    {diffSize ? (
+                      <>
+                        {diffSize.files} files{' '}
+                        <span className="text-emerald-600 dark:text-emerald-400">+{diffSize.additions}</span>{' '}
+                        <span className="text-destructive">-{diffSize.deletions}</span>
+                      </>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 tabular-nums">{countFindings(item)}</td>
+                  <td className="py-1.5 pr-3">{verifySummary(item)}</td>
+                  <td className="py-1.5 pr-3 tabular-nums" title="Premium requests">
+                    {item.usage.length > 0
+                      ? `${formatCost(sumUsageCost(item.usage))}${hasUnpricedUsage(item.usage) ? '+' : ''}`
+                      : '—'}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    {item.variant?.outcome === 'promoted' && (
+                      <Badge variant="outline" className="text-[10px] text-emerald-600 dark:text-emerald-400 border-emerald-500/30">
+                        Promoted
+                      </Badge>
+                    )}
+                    {item.variant?.outcome === 'discarded' && (
+                      <Badge variant="outline" className="text-[10px] text-muted-foreground">
+                        Discarded
+                      </Badge>
+                    )}
+                    {canPromoteVariant(item) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePromote(item.id)}
+                        disabled={promoting !== null}
+                        className="h-7 text-xs"
+                      >
+                        {promoting === item.id ? (
+                          <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                        ) : (
+                          <GitPullRequest className="w-3.5 h-3.5 mr-1.5" />
+                        )}
+                        Promote to PR
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
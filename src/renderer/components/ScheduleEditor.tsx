@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import NewRunDialog from './NewRunDialog';
+import api from '../lib/ipc';
+import { getNextCronTime, parseCron, validateCron } from '@shared/cron';
+import { PREDEFINED_WORKFLOWS } from '@shared/types';
+import type { AppConfig, RunOptions, RunSchedule, ScheduleMissedRunPolicy, WorkflowDefinition } from '@shared/types';
+import { Button } from '@shared/components/ui/button';
+import { Input } from '@shared/components/ui/input';
+import { Label } from '@shared/components/ui/label';
+import { Switch } from '@shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@shared/components/ui/dialog';
+import { CalendarClock, Pencil } from 'lucide-react';
+
+interface ScheduleEditorProps {
+  config: AppConfig;
+  /** Schedule to edit; null creates a new one. */
+  schedule: RunSchedule | null;
+  onSave: (schedule: RunSchedule) => Promise<void>;
+  onClose: () => void;
+}
+
+const PREVIEW_FIRE_TIMES = 3;
+
+function previewFireTimes(cron: string): number[] {
+  const schedule = parseCron(cron);
+  const times: number[] = [];
+  let after = Date.now();
+  while (times.length < PREVIEW_FIRE_TIMES) {
+    const next = getNextCronTime(schedule, after);
+    if (next === null) break;
+    times.push(next);
+    after = next;
+  }
+  return times;
+}
+
+export default function ScheduleEditor({ config, schedule, onSave, onClose }: ScheduleEditorProps) {
+  const [name, setName] = useState(schedule?.name ?? '');
+  const [cron, setCron] = useState(schedule?.cron ?? '0 2 * * *');
+  const [missedRunPolicy, setMissedRunPolicy] = useState<ScheduleMissedRunPolicy>(schedule?.missedRunPolicy ?? 'skip');
+  const [forEachOpenPr, setForEachOpenPr] = useState(schedule?.forEachOpenPr ?? false);
+  const [options, setOptions] = useState<RunOptions | null>(schedule?.options ?? null);
+  const [editingTemplate, setEditingTemplate] = useState(false);
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>(PREDEFINED_WORKFLOWS);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api().listWorkflows().then(setWorkflows);
+  }, []);
+
+  const cronError = validateCron(cron);
+  const fireTimes = cronError ? [] : previewFireTimes(cron);
+  const workflow = options ? workflows.find((item) => item.id === options.workflowId) : undefined;
+  const canRunForEachPr = !!workflow?.parameters.some((param) => param.type === 'pr');
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (cronError) {
+      setError(`Schedule: ${cronError}`);
+      return;
+    }
+    if (!options) {
+      setError('Set up the run template first');
+      return;
+    }
+
+    setSaving(true);
+    await onSave({
+      id: schedule?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      cron: cron.trim(),
+      enabled: schedule?.enabled ?? true,
+      missedRunPolicy,
+      options,
+      forEachOpenPr: canRunForEachPr && forEachOpenPr,
+    });
+    setSaving(false);
+  };
+
+  if (editingTemplate) {
+    return (
+      <NewRunDialog
+        config={config}
+        initialOptions={options}
+        submitLabel="Use as Template"
+        onStart={async (next) => {
+          setOptions(next);
+          setEditingTemplate(false);
+          setError(null);
+          return { ok: true };
+        }}
+        onClose={() => setEditingTemplate(false)}
+      />
+    );
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] bg-background/95 backdrop-blur-xl border-border shadow-2xl p-0 overflow-hidden">
+        <DialogHeader className="px-6 py-4 border-b border-border bg-muted/30">
+          <DialogTitle className="text-xl font-bold flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            {schedule ? 'Edit Schedule' : 'New Schedule'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 py-5 space-y-5 max-h-[65vh] overflow-y-auto">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nightly PR autofix"
+              className="h-9 bg-background"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Schedule</Label>
+            <Input
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              placeholder="0 2 * * *"
+              className="h-9 font-mono text-sm bg-background"
+            />
+            {cronError ? (
+              <p className="text-xs text-destructive">{cronError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Next: {fireTimes.map((time) => new Date(time).toLocaleString()).join(' · ') || 'never'}
+              </p>
+            )}
+            <p className="text-[11px] text-muted-foreground/80">
+              Cron format in local time: minute hour day-of-month month day-of-week, or @hourly, @daily, @weekly.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Missed Runs</Label>
+            <Select value={missedRunPolicy} onValueChange={(value) => setMissedRunPolicy(value as ScheduleMissedRunPolicy)}>
+              <SelectTrigger className="h-9 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Skip runs missed while the app was closed</SelectItem>
+                <SelectItem value="catch-up">Catch up once when the app starts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Run Template</Label>
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/20">
+              <div className="min-w-0 text-sm">
+                {options ? (
+                  <>
+                    <p className="font-medium truncate">
+                      {options.repoPath.split('/').pop()} · {workflow?.name ?? options.workflowId}
+                    </p>
+                    {options.prompt && <p className="text-xs text-muted-foreground truncate">{options.prompt}</p>}
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">Pick the repository, workflow and settings every run starts with.</p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" className="h-8 text-xs shrink-0" onClick={() => setEditingTemplate(true)}>
+                <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                {options ? 'Edit' : 'Set Up'}
+              </Button>
+            </div>
+          </div>
+
+          {canRunForEachPr && (
+            <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">Run for Each Open PR</Label>
+                <p className="text-xs text-muted-foreground">
+                  Start one run per open PR on a {config.branchPrefix || 'codeloop'}/ branch instead of the PR in the template
+                </p>
+              </div>
+              <Switch checked={forEachOpenPr} onCheckedChange={setForEachOpenPr} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 border-t border-border bg-muted/30 flex items-center justify-between sm:justify-between">
+          <div className="flex-1">
+            {error && <p className="text-sm text-destructive font-medium animate-in fade-in">{error}</p>}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="min-w-[100px]">
+              Save Schedule
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import ScheduleEditor from './ScheduleEditor';
+import api from '../lib/ipc';
+import { STATUS_CLASSES } from '../lib/run-status';
+import { getNextCronTime, parseCron } from '@shared/cron';
+import type { AppConfig, RunSchedule, RunScheduleStatus, RunState } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { Switch } from '@shared/components/ui/switch';
+import { CalendarClock, ChevronDown, ChevronRight, Loader2, Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface SchedulesViewProps {
+  config: AppConfig;
+  runs: RunState[];
+  onSave: (schedules: RunSchedule[]) => Promise<void>;
+  onSelectRun: (runId: string) => void;
+}
+
+function formatNextFire(schedule: RunSchedule): string {
+  if (!schedule.enabled) return 'Paused';
+  try {
+    const next = getNextCronTime(parseCron(schedule.cron), Date.now());
+    return next === null ? 'Never' : new Date(next).toLocaleString();
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export default function SchedulesView({ config, runs, onSave, onSelectRun }: SchedulesViewProps) {
+  const [statuses, setStatuses] = useState<Record<string, RunScheduleStatus>>({});
+  // undefined: closed, null: creating a new schedule.
+  const [editing, setEditing] = useState<RunSchedule | null | undefined>(undefined);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Scheduled firings add runs, so refresh the statuses whenever the run count changes.
+  useEffect(() => {
+    let cancelled = false;
+    api()
+      .getScheduleStatuses()
+      .then((next) => {
+        if (!cancelled) setStatuses(next);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runs.length]);
+
+  const schedules = config.schedules;
+
+  const saveSchedule = async (schedule: RunSchedule) => {
+    const exists = schedules.some((item) => item.id === schedule.id);
+    await onSave(exists ? schedules.map((item) => (item.id === schedule.id ? schedule : item)) : [...schedules, schedule]);
+    setEditing(undefined);
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (confirmDeleteId !== scheduleId) {
+      setConfirmDeleteId(scheduleId);
+      return;
+    }
+    setConfirmDeleteId(null);
+    await onSave(schedules.filter((item) => item.id !== scheduleId));
+  };
+
+  const handleRunNow = async (scheduleId: string) => {
+    setRunningId(scheduleId);
+    const result = await api().runScheduleNow(scheduleId);
+    setRunningId(null);
+    setErrors((prev) => {
+      const next = { ...prev };
+      if (result.ok) delete next[scheduleId];
+      else next[scheduleId] = result.error || 'Failed to run the schedule';
+      return next;
+    });
+    setStatuses(await api().getScheduleStatuses());
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto pt-12 bg-background/50">
+      <div className="max-w-3xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between sticky top-0 z-10 bg-background/80 backdrop-blur-xl py-4 -mx-6 px-6 border-b border-border/50 shadow-sm">
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight">Schedules</h2>
+            <p className="text-sm text-muted-foreground mt-1">Start runs on a recurring schedule</p>
+          </div>
+          <Button onClick={() => setEditing(null)} className="min-w-[120px]">
+            <Plus className="w-4 h-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+
+        {schedules.length === 0 && (
+          <div className="py-16 text-center text-muted-foreground">
+            <CalendarClock className="w-12 h-12 mx-auto mb-4 text-muted-foreground/40" />
+            <p className="text-sm">No schedules yet. Add one to run a workflow nightly, weekly or on any cron schedule.</p>
+          </div>
+        )}
+
+        {schedules.map((schedule) => {
+          const status = statuses[schedule.id];
+          const scheduleRuns = runs
+            .filter((run) => run.scheduleId === schedule.id)
+            .sort((a, b) => b.startedAt - a.startedAt);
+          const expanded = expandedId === schedule.id;
+          const error = errors[schedule.id] ?? status?.lastError;
+
+          return (
+            <Card key={schedule.id} className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold truncate">{schedule.name}</h3>
+                    <code className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">{schedule.cron}</code>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {schedule.options.repoPath.split('/').pop()} · {schedule.options.workflowId}
+                    {schedule.forEachOpenPr && ' · each open PR'}
+                    {' · '}
+                    {schedule.missedRunPolicy === 'catch-up' ? 'catches up missed runs' : 'skips missed runs'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Next: <span className="text-foreground">{formatNextFire(schedule)}</span>
+                    {status?.lastFiredAt && <> · Last: {new Date(status.lastFiredAt).toLocaleString()}</>}
+                  </p>
+                  {error && <p className="text-xs text-destructive">{error}</p>}
+                </div>
+                <Switch
+                  checked={schedule.enabled}
+                  onCheckedChange={(enabled) =>
+                    onSave(schedules.map((item) => (item.id === schedule.id ? { ...item, enabled } : item)))
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between mt-3 pt-3 border-t border-border/50">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs -ml-2"
+                  onClick={() => setExpandedId(expanded ? null : schedule.id)}
+                >
+                  {expanded ? <ChevronDown className="w-3.5 h-3.5 mr-1" /> : <ChevronRight className="w-3.5 h-3.5 mr-1" />}
+                  {scheduleRuns.length} {scheduleRuns.length === 1 ? 'run' : 'runs'}
+                </Button>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={runningId !== null}
+                    onClick={() => handleRunNow(schedule.id)}
+                  >
+                    {runningId === schedule.id ? (
+                      <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                    ) : (
+                      <Play className="w-3.5 h-3.5 mr-1.5" />
+                    )}
+                    Run Now
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(schedule)}>
+                    <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn('h-7 text-xs', confirmDeleteId === schedule.id && 'text-destructive')}
+                    onClick={() => handleDelete(schedule.id)}
+                    onBlur={() => setConfirmDeleteId(null)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+                    {confirmDeleteId === schedule.id ? 'Confirm' : 'Delete'}
+                  </Button>
+                </div>
+              </div>
+
+              {expanded && (
+                <div className="mt-2 max-h-64 overflow-y-auto">
+                  {scheduleRuns.length === 0 ? (
+                    <p className="py-2 text-xs text-muted-foreground">This schedule has not started any runs yet.</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {scheduleRuns.map((run) => (
+                          <tr key={run.id} className="border-t border-border/50">
+                            <td className="py-1.5 pr-3 whitespace-nowrap text-muted-foreground tabular-nums">
+                              {new Date(run.startedAt).toLocaleString()}
+                            </td>
+                            <td className="py-1.5 pr-3 max-w-0 w-full">
+                              <button
+                                type="button"
+                                onClick={() => onSelectRun(run.id)}
+                                className="block w-full text-left truncate hover:underline"
+                                title={run.prompt}
+                              >
+                                {run.prompt.split('\n')[0] || run.branchName}
+                              </button>
+                            </td>
+                            <td className="py-1.5 text-right">
+                              <Badge variant="outline" className={cn('text-[10px] capitalize', STATUS_CLASSES[run.status])}>
+                                {run.status.replace('-', ' ')}
+                              </Badge>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+
+      {editing !== undefined && (
+        <ScheduleEditor
+          config={config}
+          schedule={editing}
+          onSave={saveSchedule}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+    </div>
+  );
+}
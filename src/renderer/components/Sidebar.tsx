@@ -1,9 +1,11 @@
+import { ACTIVE_RUN_STATUSES } from '@shared/types';
 import type { RunState } from '@shared/types';
+import { sortQueuedRuns } from '@shared/run-queue';
 import { Button } from '@shared/components/ui/button';
 import { ScrollArea } from '@shared/components/ui/scroll-area';
 import { Separator } from '@shared/components/ui/separator';
 import { Badge } from '@shared/components/ui/badge';
-import { Settings, Play, Plus, RefreshCw, CheckCircle2, XCircle, StopCircle } from 'lucide-react';
+import { Settings, Play, Plus, RefreshCw, CheckCircle2, XCircle, StopCircle, PauseCircle, CornerDownRight, Clock, CalendarClock, Link2, HardDrive, BarChart3 } from 'lucide-react';
 import { cn } from '@shared/lib/utils';
 import { getSubAgentActivity } from '../lib/sub-agent';
 
@@ -12,8 +14,9 @@ interface SidebarProps {
   selectedRunId: string | null;
   onSelectRun: (id: string) => void;
   onNewRun: () => void;
-  view: 'runs' | 'config';
-  onViewChange: (view: 'runs' | 'config') => void;
+  onNewChain: () => void;
+  view: 'runs' | 'schedules' | 'workspaces' | 'analytics' | 'config';
+  onViewChange: (view: 'runs' | 'schedules' | 'workspaces' | 'analytics' | 'config') => void;
 }
 
 function formatElapsed(startedAt: number, finishedAt: number | null): string {
@@ -27,6 +30,13 @@ function formatElapsed(startedAt: number, finishedAt: number | null): string {
 
 function statusBadge(status: RunState['status']) {
   switch (status) {
+    case 'queued':
+      return (
+        <Badge variant="secondary" className="bg-muted text-muted-foreground hover:bg-muted/80 border-border gap-1">
+          <Clock className="w-3 h-3" />
+          Queued
+        </Badge>
+      );
     case 'running':
       return (
         <Badge variant="secondary" className="bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/20 border-blue-500/20 gap-1">
@@ -34,6 +44,13 @@ function statusBadge(status: RunState['status']) {
           Running
         </Badge>
       );
+    case 'awaiting-approval':
+      return (
+        <Badge variant="secondary" className="bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-500/20 border-amber-500/20 gap-1">
+          <PauseCircle className="w-3 h-3" />
+          Approval
+        </Badge>
+      );
     case 'completed':
       return (
         <Badge variant="secondary" className="bg-green-500/10 text-green-600 dark:text-green-400 hover:bg-green-500/20 border-green-500/20 gap-1">
@@ -63,12 +80,39 @@ export default function Sidebar({
   selectedRunId,
   onSelectRun,
   onNewRun,
+  onNewChain,
   view,
   onViewChange,
 }: SidebarProps) {
   const sortedRuns = [...runs].sort((a, b) => b.startedAt - a.startedAt);
-  const runningRuns = sortedRuns.filter((r) => r.status === 'running');
-  const finishedRuns = sortedRuns.filter((r) => r.status !== 'running');
+  const runningRuns = sortedRuns.filter((r) => ACTIVE_RUN_STATUSES.includes(r.status));
+  const queuedRuns = sortQueuedRuns(runs);
+  const waitingRuns = sortedRuns.filter((r) => r.status === 'queued' && r.chain?.waiting);
+  const finishedRuns = sortedRuns.filter((r) => r.status !== 'queued' && !ACTIVE_RUN_STATUSES.includes(r.status));
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+  const resumeCounts = new Map<string, number>();
+  for (const run of runs) {
+    if (run.parentRunId) resumeCounts.set(run.parentRunId, (resumeCounts.get(run.parentRunId) ?? 0) + 1);
+  }
+
+  const renderRunItem = (run: RunState, queuePosition: number | null = null) => (
+    <RunItem
+      key={run.id}
+      run={run}
+      parentRun={run.parentRunId ? runsById.get(run.parentRunId) ?? null : null}
+      resumeCount={resumeCounts.get(run.id) ?? 0}
+      queuePosition={queuePosition}
+      selected={selectedRunId === run.id && view === 'runs'}
+      onClick={() => {
+        onSelectRun(run.id);
+        onViewChange('runs');
+      }}
+      onSelectParent={(parentId) => {
+        onSelectRun(parentId);
+        onViewChange('runs');
+      }}
+    />
+  );
 
   return (
     <div className="w-72 bg-background/80 backdrop-blur-xl border-r border-border flex flex-col h-full shadow-2xl z-10">
@@ -78,19 +122,30 @@ export default function Sidebar({
           <RefreshCw className="w-4 h-4 text-primary" />
           CODELOOP
         </h1>
-        <Button
-          onClick={onNewRun}
-          size="icon"
-          variant="default"
-          className="w-8 h-8 rounded-full shadow-lg hover:shadow-primary/25 transition-all hover:scale-105"
-          title="New Run"
-        >
-          <Plus className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-1.5">
+          <Button
+            onClick={onNewChain}
+            size="icon"
+            variant="ghost"
+            className="w-8 h-8 rounded-full"
+            title="New Run Chain"
+          >
+            <Link2 className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={onNewRun}
+            size="icon"
+            variant="default"
+            className="w-8 h-8 rounded-full shadow-lg hover:shadow-primary/25 transition-all hover:scale-105"
+            title="New Run"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       <div className="px-3 pb-3">
-        <div className="flex gap-2 bg-muted/50 p-1 rounded-lg">
+        <div className="grid grid-cols-2 gap-1 bg-muted/50 p-1 rounded-lg">
           <Button
             variant={view === 'runs' ? 'secondary' : 'ghost'}
             size="sm"
@@ -100,11 +155,38 @@ export default function Sidebar({
             <Play className="w-3.5 h-3.5 mr-1.5" />
             Runs
           </Button>
+          <Button
+            variant={view === 'schedules' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onViewChange('schedules')}
+            className={cn("flex-1 text-xs font-medium transition-all", view === 'schedules' && "shadow-sm bg-background")}
+          >
+            <CalendarClock className="w-3.5 h-3.5 mr-1.5" />
+            Schedules
+          </Button>
+          <Button
+            variant={view === 'workspaces' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onViewChange('workspaces')}
+            className={cn("flex-1 text-xs font-medium transition-all", view === 'workspaces' && "shadow-sm bg-background")}
+          >
+            <HardDrive className="w-3.5 h-3.5 mr-1.5" />
+            Workspaces
+          </Button>
+          <Button
+            variant={view === 'analytics' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => onViewChange('analytics')}
+            className={cn("flex-1 text-xs font-medium transition-all", view === 'analytics' && "shadow-sm bg-background")}
+          >
+            <BarChart3 className="w-3.5 h-3.5 mr-1.5" />
+            Analytics
+          </Button>
           <Button
             variant={view === 'config' ? 'secondary' : 'ghost'}
             size="sm"
             onClick={() => onViewChange('config')}
-            className={cn("flex-1 text-xs font-medium transition-all", view === 'config' && "shadow-sm bg-background")}
+            className={cn("col-span-2 text-xs font-medium transition-all", view === 'config' && "shadow-sm bg-background")}
           >
             <Settings className="w-3.5 h-3.5 mr-1.5" />
             Settings
@@ -123,17 +205,29 @@ export default function Sidebar({
               Active
             </div>
             <div className="space-y-1 mt-1">
-              {runningRuns.map((run) => (
-                <RunItem
-                  key={run.id}
-                  run={run}
-                  selected={selectedRunId === run.id && view === 'runs'}
-                  onClick={() => {
-                    onSelectRun(run.id);
-                    onViewChange('runs');
-                  }}
-                />
-              ))}
+              {runningRuns.map((run) => renderRunItem(run))}
+            </div>
+          </div>
+        )}
+
+        {queuedRuns.length > 0 && (
+          <div className="mb-6 animate-in fade-in slide-in-from-left-2 duration-300">
+            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Queued
+            </div>
+            <div className="space-y-1 mt-1">
+              {queuedRuns.map((run, index) => renderRunItem(run, index + 1))}
+            </div>
+          </div>
+        )}
+
+        {waitingRuns.length > 0 && (
+          <div className="mb-6 animate-in fade-in slide-in-from-left-2 duration-300">
+            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Waiting
+            </div>
+            <div className="space-y-1 mt-1">
+              {waitingRuns.map((run) => renderRunItem(run))}
             </div>
           </div>
         )}
@@ -144,17 +238,7 @@ export default function Sidebar({
               History
             </div>
             <div className="space-y-1 mt-1">
-              {finishedRuns.map((run) => (
-                <RunItem
-                  key={run.id}
-                  run={run}
-                  selected={selectedRunId === run.id && view === 'runs'}
-                  onClick={() => {
-                    onSelectRun(run.id);
-                    onViewChange('runs');
-                  }}
-                />
-              ))}
+              {finishedRuns.map((run) => renderRunItem(run))}
             </div>
           </div>
         )}
@@ -175,12 +259,21 @@ export default function Sidebar({
 
 function RunItem({
   run,
+  parentRun,
+  resumeCount,
+  queuePosition,
   selected,
   onClick,
+  onSelectParent,
 }: {
   run: RunState;
+  parentRun: RunState | null;
+  resumeCount: number;
+  /** 1-based position of a queued run in the run queue. */
+  queuePosition: number | null;
   selected: boolean;
   onClick: () => void;
+  onSelectParent: (parentId: string) => void;
 }) {
   const subAgentActivity = getSubAgentActivity(run.logs);
 
@@ -209,11 +302,65 @@ function RunItem({
       <p className="text-xs text-muted-foreground truncate mb-1.5 group-hover:text-foreground/70 transition-colors">
         {run.prompt}
       </p>
+      {parentRun && (
+        <span
+          role="link"
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelectParent(parentRun.id);
+          }}
+          className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground mb-1.5 truncate"
+          title="Open the run this one resumed"
+        >
+          <CornerDownRight className="w-3 h-3 shrink-0" />
+          Resumed from {run.resumedFromPhase} of run started {new Date(parentRun.startedAt).toLocaleString()}
+        </span>
+      )}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-1.5 min-w-0">
-          <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
-            {run.currentPhase || 'INIT'}
-          </span>
+          {queuePosition !== null ? (
+            <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              #{queuePosition} in queue
+            </span>
+          ) : run.chain?.waiting ? (
+            <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              Waiting
+            </span>
+          ) : (
+            <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              {run.currentPhase || 'INIT'}
+            </span>
+          )}
+          {resumeCount > 0 && (
+            <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              Resumed ×{resumeCount}
+            </span>
+          )}
+          {run.variant && (
+            <span
+              className={cn(
+                "text-[10px] font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground",
+                run.variant.outcome === 'discarded' && "line-through"
+              )}
+              title="Model variant"
+            >
+              V{run.variant.index}
+            </span>
+          )}
+          {run.batch && (
+            <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground" title="Batch task">
+              {run.batch.index}/{run.batch.size}
+            </span>
+          )}
+          {run.chain && (
+            <span
+              className="flex items-center gap-0.5 text-[10px] font-medium px-1.5 py-0.5 rounded bg-muted text-muted-foreground"
+              title="Chain step"
+            >
+              <Link2 className="w-3 h-3" />
+              {run.chain.index}/{run.chain.size}
+            </span>
+          )}
           {run.status === 'running' && subAgentActivity.active && (
             <span
               className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-purple-500/10 text-purple-600 dark:text-purple-400 truncate"
@@ -224,7 +371,7 @@ function RunItem({
           )}
         </div>
         <span className="text-xs text-muted-foreground/70 font-medium">
-          {formatElapsed(run.startedAt, run.finishedAt)}
+          {formatElapsed(run.runningAt ?? run.startedAt, run.finishedAt)}
         </span>
       </div>
     </button>
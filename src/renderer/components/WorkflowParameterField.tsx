@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/ipc';
+import type { RepoBranchLookup, RepoOpenPr, WorkflowParameter, WorkflowParamValue } from '@shared/types';
+import { Label } from '@shared/components/ui/label';
+import { Switch } from '@shared/components/ui/switch';
+import { Input } from '@shared/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@shared/components/ui/select';
+
+interface WorkflowParameterFieldProps {
+  param: WorkflowParameter;
+  value: WorkflowParamValue;
+  required: boolean;
+  repoPath: string;
+  onChange: (value: WorkflowParamValue) => void;
+}
+
+const TEXTAREA_CLASS =
+  'w-full bg-background border border-input rounded-md px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y';
+
+function FieldLabel({ param, required }: { param: WorkflowParameter; required: boolean }) {
+  return (
+    <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+      {param.label}
+      {!required && param.type !== 'boolean' ? ' (Optional)' : ''}
+    </Label>
+  );
+}
+
+function PrTargetField({
+  repoPath,
+  value,
+  onChange,
+}: {
+  repoPath: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const trimmedRepo = repoPath.trim();
+  const [mode, setMode] = useState<'pr' | 'branch'>(value ? 'branch' : 'pr');
+  const [prsResult, setPrsResult] = useState<{ repoPath: string; prs: RepoOpenPr[] } | null>(null);
+  const [lookupResult, setLookupResult] = useState<{ key: string; lookup: RepoBranchLookup | null } | null>(null);
+
+  useEffect(() => {
+    if (!trimmedRepo) return;
+    let cancelled = false;
+
+    api()
+      .listMyOpenPrs(trimmedRepo)
+      .then((prs) => {
+        if (!cancelled) setPrsResult({ repoPath: trimmedRepo, prs });
+      })
+      .catch(() => {
+        if (!cancelled) setPrsResult({ repoPath: trimmedRepo, prs: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmedRepo]);
+
+  const myOpenPrs = prsResult?.repoPath === trimmedRepo ? prsResult.prs : [];
+  const loadingMyOpenPrs = !!trimmedRepo && prsResult?.repoPath !== trimmedRepo;
+  const selectedPr = myOpenPrs.find((pr) => pr.headRefName === value);
+
+  useEffect(() => {
+    if (mode !== 'pr' || !prsResult || prsResult.repoPath !== trimmedRepo || prsResult.prs.length === 0) return;
+    if (prsResult.prs.some((pr) => pr.headRefName === value)) return;
+    onChange(prsResult.prs[0].headRefName);
+  }, [mode, prsResult, trimmedRepo, value, onChange]);
+
+  const branchInput = value.trim();
+  const lookupKey = mode === 'branch' && trimmedRepo && branchInput ? `${trimmedRepo}\n${branchInput}` : '';
+
+  useEffect(() => {
+    if (!lookupKey) return;
+    let cancelled = false;
+
+    api()
+      .lookupRepoBranch(trimmedRepo, branchInput)
+      .then((lookup) => {
+        if (!cancelled) setLookupResult({ key: lookupKey, lookup });
+      })
+      .catch(() => {
+        if (!cancelled) setLookupResult({ key: lookupKey, lookup: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookupKey, trimmedRepo, branchInput]);
+
+  const branchLookup = lookupResult?.key === lookupKey ? lookupResult.lookup : null;
+  const checkingBranch = !!lookupKey && lookupResult?.key !== lookupKey;
+
+  return (
+    <>
+      <Select value={mode} onValueChange={(next) => setMode(next as 'pr' | 'branch')}>
+        <SelectTrigger className="h-9 bg-background">
+          <SelectValue placeholder="Select target type" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="pr">Pick my open PR</SelectItem>
+          <SelectItem value="branch">Enter branch name</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === 'pr' ? (
+        <>
+          <Select
+            value={selectedPr ? String(selectedPr.number) : ''}
+            onValueChange={(number) => {
+              const pr = myOpenPrs.find((item) => String(item.number) === number);
+              if (pr) onChange(pr.headRefName);
+            }}
+            disabled={loadingMyOpenPrs || myOpenPrs.length === 0}
+          >
+            <SelectTrigger className="h-9 bg-background">
+              <SelectValue placeholder={loadingMyOpenPrs ? 'Loading your open PRs...' : 'Select one of your open PRs'} />
+            </SelectTrigger>
+            <SelectContent>
+              {myOpenPrs.map((pr) => (
+                <SelectItem key={pr.number} value={String(pr.number)}>
+                  #{pr.number} · {pr.headRefName} → {pr.baseRefName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedPr && <p className="text-xs text-muted-foreground truncate">{selectedPr.title}</p>}
+          {!loadingMyOpenPrs && myOpenPrs.length === 0 && (
+            <p className="text-xs text-muted-foreground">No open PRs authored by you were found in this repository.</p>
+          )}
+        </>
+      ) : (
+        <>
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="feature/my-branch"
+            className="h-9 bg-background"
+          />
+          {!branchInput && <p className="text-xs text-muted-foreground">Enter a local or remote branch name.</p>}
+          {!!branchInput && checkingBranch && <p className="text-xs text-muted-foreground">Checking branch availability...</p>}
+          {!!branchInput && !checkingBranch && branchLookup?.exists && branchLookup.local && (
+            <p className="text-xs text-muted-foreground">Branch found locally.</p>
+          )}
+          {!!branchInput && !checkingBranch && branchLookup?.exists && !branchLookup.local && branchLookup.remote && (
+            <p className="text-xs text-muted-foreground">Branch found on origin. It will be pulled before the run starts.</p>
+          )}
+          {!!branchInput && !checkingBranch && branchLookup && !branchLookup.exists && (
+            <p className="text-xs text-destructive">Branch was not found locally or on origin.</p>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+function BranchSelectField({
+  repoPath,
+  value,
+  onChange,
+}: {
+  repoPath: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const trimmedRepo = repoPath.trim();
+  const [branchesResult, setBranchesResult] = useState<{
+    repoPath: string;
+    branches: string[];
+    current: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!trimmedRepo) return;
+    let cancelled = false;
+
+    api()
+      .listRepoBranches(trimmedRepo)
+      .then(({ branches, current }) => {
+        if (!cancelled) setBranchesResult({ repoPath: trimmedRepo, branches, current });
+      })
+      .catch(() => {
+        if (!cancelled) setBranchesResult({ repoPath: trimmedRepo, branches: [], current: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmedRepo]);
+
+  useEffect(() => {
+    if (value || !branchesResult?.current || branchesResult.repoPath !== trimmedRepo) return;
+    onChange(branchesResult.current);
+  }, [value, branchesResult, trimmedRepo, onChange]);
+
+  const branches = branchesResult?.repoPath === trimmedRepo ? branchesResult.branches : [];
+  const loading = !!trimmedRepo && branchesResult?.repoPath !== trimmedRepo;
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={loading || branches.length === 0}>
+      <SelectTrigger className="h-9 bg-background">
+        <SelectValue placeholder={loading ? 'Loading branches...' : 'Select a branch'} />
+      </SelectTrigger>
+      <SelectContent>
+        {branches.map((branch) => (
+          <SelectItem key={branch} value={branch}>{branch}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function WorkflowParameterField({ param, value, required, repoPath, onChange }: WorkflowParameterFieldProps) {
+  if (param.type === 'boolean') {
+    return (
+      <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/20">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">{param.label}</Label>
+          {param.description && <p className="text-xs text-muted-foreground">{param.description}</p>}
+        </div>
+        <Switch checked={value === true} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="space-y-2">
+      <FieldLabel param={param} required={required} />
+
+      {param.type === 'text' && (
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.placeholder}
+          rows={4}
+          className={TEXTAREA_CLASS}
+        />
+      )}
+
+      {param.type === 'string' && (
+        <Input
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.placeholder}
+          className="h-9 bg-background"
+        />
+      )}
+
+      {param.type === 'enum' && (
+        <Select value={text} onValueChange={onChange}>
+          <SelectTrigger className="h-9 bg-background">
+            <SelectValue placeholder={param.placeholder ?? 'Select an option'} />
+          </SelectTrigger>
+          <SelectContent>
+            {(param.options ?? []).map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {param.type === 'branch' && <BranchSelectField repoPath={repoPath} value={text} onChange={onChange} />}
+
+      {param.type === 'pr' && <PrTargetField repoPath={repoPath} value={text} onChange={onChange} />}
+
+      {param.description && <p className="text-xs text-muted-foreground">{param.description}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import api from '../lib/ipc';
+import type { AppConfig, RunState, WorkspaceInfo, WorkspaceKind, WorkspaceRetention } from '@shared/types';
+import { Badge } from '@shared/components/ui/badge';
+import { Button } from '@shared/components/ui/button';
+import { Card } from '@shared/components/ui/card';
+import { Input } from '@shared/components/ui/input';
+import { Label } from '@shared/components/ui/label';
+import { GitBranch, HardDrive, Loader2, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+
+interface WorkspacesViewProps {
+  config: AppConfig;
+  runs: RunState[];
+  onSave: (retention: WorkspaceRetention) => Promise<void>;
+  onSelectRun: (runId: string) => void;
+}
+
+const KIND_CLASSES: Record<WorkspaceKind, string> = {
+  active: 'text-blue-600 dark:text-blue-400 border-blue-500/30',
+  failed: 'text-destructive border-destructive/30',
+  pushed: 'text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  local: 'text-muted-foreground',
+};
+
+const RETENTION_FIELDS: { key: keyof WorkspaceRetention; label: string; description: string }[] = [
+  { key: 'failedDays', label: 'Failed', description: 'Failed and stopped runs' },
+  { key: 'pushedDays', label: 'Pushed', description: 'Branch pushed or PR opened' },
+  { key: 'localDays', label: 'Local', description: 'Nothing pushed' },
+];
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) return '—';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 60) return `${Math.max(minutes, 0)}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+export default function WorkspacesView({ config, runs, onSave, onSelectRun }: WorkspacesViewProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retention, setRetention] = useState<WorkspaceRetention>(config.workspaceRetention);
+
+  const applyWorkspaces = (next: WorkspaceInfo[]) => {
+    setWorkspaces(next);
+    setSelected((prev) => new Set(next.filter((item) => prev.has(item.path)).map((item) => item.path)));
+    setLoading(false);
+  };
+
+  // Runs starting and finishing change which workspaces are in use, so refresh with the run list.
+  useEffect(() => {
+    let cancelled = false;
+    api()
+      .listWorkspaces()
+      .then((next) => {
+        if (!cancelled) applyWorkspaces(next);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runs.length]);
+
+  const refresh = async () => {
+    setLoading(true);
+    applyWorkspaces(await api().listWorkspaces());
+  };
+
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+  const deletable = workspaces.filter((item) => item.kind !== 'active');
+  const totalBytes = workspaces.reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+  const selectedBytes = workspaces
+    .filter((item) => selected.has(item.path))
+    .reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+  const retentionChanged = RETENTION_FIELDS.some(({ key }) => retention[key] !== config.workspaceRetention[key]);
+
+  const toggle = (workspacePath: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(workspacePath)) next.delete(workspacePath);
+      else next.add(workspacePath);
+      return next;
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    setConfirmDelete(false);
+    setDeleting(true);
+    const result = await api().deleteWorkspaces([...selected]);
+    setDeleting(false);
+    setError(result.ok ? null : result.error || 'Failed to delete the workspaces');
+    await refresh();
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto pt-12 bg-background/50">
+      <div className="max-w-3xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between sticky top-0 z-10 bg-background/80 backdrop-blur-xl py-4 -mx-6 px-6 border-b border-border/50 shadow-sm">
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight">Workspaces</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {workspaces.length} in {config.workspaceRoot} · {formatSize(totalBytes)}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => void refresh()} disabled={loading}>
+              <RefreshCw className={cn('w-4 h-4 mr-2', loading && 'animate-spin')} />
+              Refresh
+            </Button>
+            <Button
+              variant={confirmDelete ? 'destructive' : 'default'}
+              onClick={handleDelete}
+              onBlur={() => setConfirmDelete(false)}
+              disabled={selected.size === 0 || deleting}
+              className="min-w-[140px]"
+            >
+              {deleting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+              {confirmDelete ? `Confirm (${formatSize(selectedBytes)})` : `Delete ${selected.size || ''}`.trim()}
+            </Button>
+          </div>
+        </div>
+
+        <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 shadow-sm space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">Retention</h3>
+              <p className="text-xs text-muted-foreground">
+                Days to keep a workspace after its run finished. 0 keeps it until you delete it.
+              </p>
+            </div>
+            <Button
+              size="sm"
+              disabled={!retentionChanged}
+              onClick={() => void onSave(retention)}
+              className="h-8 text-xs"
+            >
+              <Save className="w-3.5 h-3.5 mr-1.5" />
+              Save
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {RETENTION_FIELDS.map(({ key, label, description }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`retention-${key}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+                <Input
+                  id={`retention-${key}`}
+                  type="number"
+                  min={0}
+                  value={retention[key]}
+                  onChange={(e) =>
+                    setRetention((prev) => ({ ...prev, [key]: Math.max(0, parseInt(e.target.value) || 0) }))
+                  }
+                  className="w-24 bg-background/50"
+                />
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && workspaces.length === 0 && (
+          <div className="py-16 text-center text-muted-foreground">
+            <HardDrive className="w-12 h-12 mx-auto mb-4 text-muted-foreground/40" />
+            <p className="text-sm">No workspaces on disk.</p>
+          </div>
+        )}
+
+        {workspaces.length > 0 && (
+          <Card className="bg-card/50 backdrop-blur-sm border-border/50 shadow-sm overflow-hidden">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2 pl-4 pr-2 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={deletable.length > 0 && deletable.every((item) => selected.has(item.path))}
+                      onChange={(e) =>
+                        setSelected(e.target.checked ? new Set(deletable.map((item) => item.path)) : new Set())
+                      }
+                    />
+                  </th>
+                  <th className="py-2 pr-3 font-medium">Workspace</th>
+                  <th className="py-2 pr-3 font-medium">State</th>
+                  <th className="py-2 pr-3 font-medium text-right">Size</th>
+                  <th className="py-2 pr-3 font-medium text-right">Age</th>
+                  <th className="py-2 pr-4 font-medium text-right">Expires</th>
+                </tr>
+              </thead>
+              <tbody>
+                {workspaces.map((workspace) => {
+                  const run = workspace.runId ? runsById.get(workspace.runId) : undefined;
+                  return (
+                    <tr key={workspace.path} className="border-t border-border/50 align-top">
+                      <td className="py-2 pl-4 pr-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${workspace.name}`}
+                          checked={selected.has(workspace.path)}
+                          disabled={workspace.kind === 'active'}
+                          onChange={() => toggle(workspace.path)}
+                        />
+                      </td>
+                      <td className="py-2 pr-3 max-w-0 w-full">
+                        <p className="font-medium truncate" title={workspace.path}>
+                          {workspace.name}
+                          {workspace.worktree && <span className="ml-1.5 text-muted-foreground font-normal">worktree</span>}
+                        </p>
+                        {workspace.branchName && (
+                          <p className="flex items-center gap-1 text-muted-foreground truncate">
+                            <GitBranch className="w-3 h-3 shrink-0" />
+                            {workspace.branchName}
+                          </p>
+                        )}
+                        {run ? (
+                          <button
+                            type="button"
+                            onClick={() => onSelectRun(run.id)}
+                            className="block w-full text-left truncate text-muted-foreground hover:text-foreground hover:underline"
+                            title={run.prompt}
+                          >
+                            {run.prompt.split('\n')[0] || run.branchName}
+                          </button>
+                        ) : (
+                          <p className="text-muted-foreground/70">No run</p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="outline" className={cn('text-[10px] capitalize', KIND_CLASSES[workspace.kind])}>
+                            {workspace.kind}
+                          </Badge>
+                          {workspace.pushed && workspace.kind !== 'pushed' && (
+                            <Badge variant="outline" className={cn('text-[10px]', KIND_CLASSES.pushed)}>
+                              pushed
+                            </Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3 text-right tabular-nums whitespace-nowrap">{formatSize(workspace.sizeBytes)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums whitespace-nowrap text-muted-foreground">
+                        {formatAge(workspace.updatedAt)}
+                      </td>
+                      <td className="py-2 pr-4 text-right tabular-nums whitespace-nowrap text-muted-foreground">
+                        {workspace.expiresAt === null ? 'Kept' : new Date(workspace.expiresAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -102,10 +102,23 @@ export function useRuns() {
     return result;
   }, []);
 
+  const promoteVariant = useCallback(async (runId: string) => {
+    const result = await api().promoteRunVariant(runId);
+    if (result.ok && result.runId) {
+      logsRef.current.set(result.runId, []);
+      setSelectedRunId(result.runId);
+    }
+    return result;
+  }, []);
+
   const stopRun = useCallback(async (runId: string) => {
     await api().stopRun(runId);
   }, []);
 
+  const moveQueuedRun = useCallback(async (runId: string, toIndex: number) => {
+    await api().moveQueuedRun(runId, toIndex);
+  }, []);
+
   const selectedRun = runs.find((r) => r.id === selectedRunId) || null;
 
   return {
@@ -114,6 +127,8 @@ export function useRuns() {
     selectedRunId,
     setSelectedRunId,
     startRun,
+    promoteVariant,
     stopRun,
+    moveQueuedRun,
   };
 }
@@ -0,0 +1,11 @@
+import type { RunState } from '@shared/types';
+
+/** Text and border colours of the status badge shown for a run in lists of related runs. */
+export const STATUS_CLASSES: Record<RunState['status'], string> = {
+  queued: 'text-muted-foreground',
+  running: 'text-blue-600 dark:text-blue-400 border-blue-500/30',
+  'awaiting-approval': 'text-amber-600 dark:text-amber-400 border-amber-500/30',
+  completed: 'text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  failed: 'text-destructive border-destructive/30',
+  stopped: 'text-yellow-600 dark:text-yellow-400 border-yellow-500/30',
+};
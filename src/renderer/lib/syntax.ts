@@ -0,0 +1,158 @@
+export type SyntaxTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface SyntaxToken {
+  kind: SyntaxTokenKind;
+  text: string;
+}
+
+interface LanguageRules {
+  keywords: Set<string>;
+  lineComment: string[];
+  blockComment: [string, string] | null;
+}
+
+const C_LIKE_KEYWORDS =
+  'break case catch class const continue default do else enum export extends false finally for function if import in instanceof new null return static super switch this throw true try typeof var void while';
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  js: {
+    keywords: new Set(`${C_LIKE_KEYWORDS} as async await from interface let of type undefined yield`.split(' ')),
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+  },
+  c: {
+    keywords: new Set(
+      `${C_LIKE_KEYWORDS} abstract bool char double final float fn func go impl int interface let long match mut package private protected pub public struct trait use`.split(
+        ' '
+      )
+    ),
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+  },
+  python: {
+    keywords: new Set(
+      'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield'.split(
+        ' '
+      )
+    ),
+    lineComment: ['#'],
+    blockComment: null,
+  },
+  shell: {
+    keywords: new Set('case do done elif else esac export fi for function if in local return then until while'.split(' ')),
+    lineComment: ['#'],
+    blockComment: null,
+  },
+  ruby: {
+    keywords: new Set('begin class def do else elsif end ensure false if module nil require rescue return self true unless until while yield'.split(' ')),
+    lineComment: ['#'],
+    blockComment: null,
+  },
+  data: {
+    keywords: new Set(['true', 'false', 'null']),
+    lineComment: ['#'],
+    blockComment: null,
+  },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'js',
+  jsx: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  ts: 'js',
+  tsx: 'js',
+  mts: 'js',
+  cts: 'js',
+  c: 'c',
+  h: 'c',
+  cc: 'c',
+  cpp: 'c',
+  hpp: 'c',
+  cs: 'c',
+  go: 'c',
+  java: 'c',
+  kt: 'c',
+  rs: 'c',
+  swift: 'c',
+  php: 'c',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  rb: 'ruby',
+  yml: 'data',
+  yaml: 'data',
+  toml: 'data',
+  json: 'data',
+};
+
+/** Picks highlighting rules from the file extension; null means the file is shown as plain text. */
+export function languageForPath(filePath: string): string | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_LANGUAGES[extension] ?? null;
+}
+
+/**
+ * Splits one line into coloured tokens. Lines are highlighted on their own, so a block comment
+ * or string that spans several lines is only recognised on the line it starts on.
+ */
+export function highlightLine(line: string, language: string | null): SyntaxToken[] {
+  const rules = language ? LANGUAGES[language] : undefined;
+  if (!rules) return [{ kind: 'plain', text: line }];
+
+  const tokens: SyntaxToken[] = [];
+  const push = (kind: SyntaxTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const rest = line.slice(i);
+
+    if (rules.lineComment.some((marker) => rest.startsWith(marker))) {
+      push('comment', rest);
+      break;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = rest.indexOf(rules.blockComment[1], rules.blockComment[0].length);
+      const length = end === -1 ? rest.length : end + rules.blockComment[1].length;
+      push('comment', rest.slice(0, length));
+      i += length;
+      continue;
+    }
+
+    const char = line[i];
+    if (char === '"' || char === "'" || char === '`') {
+      let end = i + 1;
+      while (end < line.length && line[end] !== char) {
+        end += line[end] === '\\' ? 2 : 1;
+      }
+      push('string', line.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      push(rules.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^\d[\d_]*(\.\d+)?/);
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    i += 1;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,122 @@
+import type { CostBudget, CostMultiplier, ModelUsage, RunState } from './types';
+
+function toPatternRegex(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** The first cost multiplier whose pattern matches the model, or null when none does. */
+export function findCostMultiplier(model: string, multipliers: CostMultiplier[]): CostMultiplier | null {
+  return multipliers.find((entry) => entry.pattern.trim() && toPatternRegex(entry.pattern).test(model)) ?? null;
+}
+
+/** Premium requests an agent call costs; failed calls are recorded but not charged. */
+export function getUsageCost(
+  model: string,
+  status: ModelUsage['status'],
+  multipliers: CostMultiplier[]
+): number | null {
+  if (status === 'failed') return 0;
+  return findCostMultiplier(model, multipliers)?.multiplier ?? null;
+}
+
+export function sumUsageCost(usage: ModelUsage[]): number {
+  return usage.reduce((total, item) => total + (item.cost ?? 0), 0);
+}
+
+/** Agent calls whose model no multiplier matched, so the summed cost is a lower bound. */
+export function hasUnpricedUsage(usage: ModelUsage[]): boolean {
+  return usage.some((item) => item.cost === null);
+}
+
+/** Summed token counts, or null when no call reported them. */
+export function sumUsageTokens(usage: ModelUsage[], kind: 'inputTokens' | 'outputTokens'): number | null {
+  const counts = usage.map((item) => item[kind]).filter((count): count is number => count !== null);
+  return counts.length > 0 ? counts.reduce((total, count) => total + count, 0) : null;
+}
+
+export function getDayStart(now: number): number {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/** Premium requests all runs spent on the local day of `now`. */
+export function getDaySpend(runs: RunState[], now: number): number {
+  const dayStart = getDayStart(now);
+  return sumUsageCost(runs.flatMap((run) => run.usage.filter((item) => item.at >= dayStart)));
+}
+
+export function formatCost(cost: number): string {
+  return String(Math.round(cost * 100) / 100);
+}
+
+/** Premium requests a call with the model costs; 0 for models no multiplier matches. */
+export function getCallCost(model: string | null, multipliers: CostMultiplier[]): number {
+  return model ? (findCostMultiplier(model, multipliers)?.multiplier ?? 0) : 0;
+}
+
+/** Whether a call of `nextCost` on top of `spent` goes over the cap; nothing is spent once the cap is reached. */
+function exceedsCap(spent: number, nextCost: number, cap: number): boolean {
+  return spent >= cap || spent + nextCost > cap;
+}
+
+/**
+ * Why no run may start, or null while the per-run and daily budgets leave room for its next agent
+ * call of `nextCost` premium requests; `spent` is what a continued run spent before.
+ */
+export function getBudgetBlock(
+  runs: RunState[],
+  budget: CostBudget,
+  now: number,
+  nextCost = 0,
+  spent = 0
+): string | null {
+  if (budget.perRun !== null && exceedsCap(spent, nextCost, budget.perRun)) {
+    return `The per-run budget of ${formatCost(budget.perRun)} premium requests does not cover the next agent call, which costs ${formatCost(nextCost)}.`;
+  }
+  if (budget.perDay === null) return null;
+  const daySpend = getDaySpend(runs, now);
+  if (daySpend >= budget.perDay) {
+    return `The daily budget of ${formatCost(budget.perDay)} premium requests is spent; runs can start again tomorrow.`;
+  }
+  if (exceedsCap(daySpend, nextCost, budget.perDay)) {
+    return `The next agent call costs ${formatCost(nextCost)} premium requests, more than the ${formatCost(budget.perDay - daySpend)} left in today's budget.`;
+  }
+  return null;
+}
+
+/**
+ * Why the run has to stop before an agent call of `nextCost` premium requests, or null while the
+ * per-run and daily budgets leave room for it.
+ */
+export function getNextCallBlock(
+  run: RunState,
+  runs: RunState[],
+  budget: CostBudget,
+  now: number,
+  nextCost: number
+): string | null {
+  if (budget.perRun !== null && exceedsCap(sumUsageCost(run.usage), nextCost, budget.perRun)) {
+    return `Stopped: the next agent call would go over the run's budget of ${formatCost(budget.perRun)} premium requests.`;
+  }
+  if (budget.perDay !== null && exceedsCap(getDaySpend(runs, now), nextCost, budget.perDay)) {
+    return `Stopped: the next agent call would go over the daily budget of ${formatCost(budget.perDay)} premium requests.`;
+  }
+  return null;
+}
+
+/** Why the run has to stop, or null while it stays within the per-run and daily budgets. */
+export function getBudgetOverrun(run: RunState, runs: RunState[], budget: CostBudget, now: number): string | null {
+  if (budget.perRun !== null && sumUsageCost(run.usage) > budget.perRun) {
+    return `Stopped: the run went over its budget of ${formatCost(budget.perRun)} premium requests.`;
+  }
+  if (budget.perDay !== null && getDaySpend(runs, now) > budget.perDay) {
+    return `Stopped: today's runs went over the daily budget of ${formatCost(budget.perDay)} premium requests.`;
+  }
+  return null;
+}
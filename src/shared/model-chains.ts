@@ -0,0 +1,49 @@
+import type { ModelConfig } from './types';
+
+export type ModelKey = keyof ModelConfig;
+
+/** Name of each model slot in the workflow scripts, e.g. `OPENCODE_LOOP_MODEL_PLAN`. */
+export const MODEL_SLOTS: Record<ModelKey, string> = {
+  modelPlan: 'PLAN',
+  modelImplement: 'IMPLEMENT',
+  modelReview: 'REVIEW',
+  modelFix: 'FIX',
+  modelCommit: 'COMMIT',
+  modelPr: 'PR',
+  modelBranch: 'BRANCH',
+};
+
+export function getModelKeyForSlot(slot: string): ModelKey | null {
+  const entry = Object.entries(MODEL_SLOTS).find(([, value]) => value === slot.toUpperCase());
+  return entry ? (entry[0] as ModelKey) : null;
+}
+
+/** A fallback chain from stored config, which held a single model per slot before chains. */
+export function toModelChain(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  const models = items.filter((item): item is string => typeof item === 'string').map((item) => item.trim());
+  return [...new Set(models.filter(Boolean))];
+}
+
+export function normalizeModelOverrides(value: unknown): Partial<ModelConfig> {
+  if (!value || typeof value !== 'object') return {};
+  const overrides: Partial<ModelConfig> = {};
+  for (const key of Object.keys(MODEL_SLOTS) as ModelKey[]) {
+    const chain = toModelChain((value as Record<string, unknown>)[key]);
+    if (chain.length > 0) overrides[key] = chain;
+  }
+  return overrides;
+}
+
+/**
+ * The chain a run uses: its override first, then the configured models it does not already list.
+ * Overrides stored with queued runs and schedules may still be single models.
+ */
+export function mergeModelChains(models: ModelConfig, overrides?: Partial<ModelConfig> | null): ModelConfig {
+  const merged = { ...models };
+  for (const key of Object.keys(MODEL_SLOTS) as ModelKey[]) {
+    const override = toModelChain(overrides?.[key]);
+    if (override.length > 0) merged[key] = [...new Set([...override, ...models[key]])];
+  }
+  return merged;
+}
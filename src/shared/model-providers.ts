@@ -0,0 +1,21 @@
+export interface ModelProviderGroup {
+  /** Provider prefix of the model ids; empty for ids without one. */
+  provider: string;
+  models: string[];
+}
+
+/** Provider of a `provider/model` id, as OpenCode names models. */
+export function getModelProvider(model: string): string {
+  const slash = model.indexOf('/');
+  return slash > 0 ? model.slice(0, slash) : '';
+}
+
+/** Groups models by provider, keeping the order in which the providers first appear. */
+export function groupModelsByProvider(models: string[]): ModelProviderGroup[] {
+  const groups = new Map<string, string[]>();
+  for (const model of models) {
+    const provider = getModelProvider(model);
+    groups.set(provider, [...(groups.get(provider) ?? []), model]);
+  }
+  return [...groups].map(([provider, items]) => ({ provider, models: items }));
+}
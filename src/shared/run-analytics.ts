@@ -0,0 +1,164 @@
+import { getDayStart } from './cost-model';
+import type { RunState } from './types';
+
+const DAY_MS = 24 * 60 * 60_000;
+/** Longer ranges are charted by week so the cost chart keeps a readable number of bars. */
+const MAX_DAILY_BUCKETS = 92;
+
+export interface AnalyticsFilter {
+  /** Start of the range in ms; null for no lower bound. */
+  from: number | null;
+  /** End of the range in ms (exclusive); null for no upper bound. */
+  to: number | null;
+  repoPath: string | null;
+}
+
+export interface OutcomeStats {
+  label: string;
+  total: number;
+  completed: number;
+  failed: number;
+  stopped: number;
+}
+
+export interface PhaseDurationStats {
+  phase: string;
+  /** Average seconds over the runs that reported the phase. */
+  average: number;
+  runs: number;
+}
+
+export interface CostBucket {
+  start: number;
+  cost: number;
+}
+
+export interface RunAnalytics {
+  runs: number;
+  byWorkflow: OutcomeStats[];
+  byRepo: OutcomeStats[];
+  byModelMix: OutcomeStats[];
+  phaseDurations: PhaseDurationStats[];
+  /** Runs whose review loop ran the FIX phase, out of the runs that got that far. */
+  fix: { needed: number; total: number };
+  pr: {
+    opened: number;
+    merged: number;
+    /** Average and median ms from the run finishing to the PR merging; null without timed merges. */
+    averageTimeToMerge: number | null;
+    medianTimeToMerge: number | null;
+  };
+  /** Cost in premium requests per day, or per week for long ranges. */
+  cost: { total: number; bucketDays: number; buckets: CostBucket[] };
+}
+
+/** Finished runs started in the range, in the filtered repository. */
+export function filterAnalyticsRuns(runs: RunState[], filter: AnalyticsFilter): RunState[] {
+  return runs.filter(
+    (run) =>
+      (run.status === 'completed' || run.status === 'failed' || run.status === 'stopped') &&
+      (filter.from === null || run.startedAt >= filter.from) &&
+      (filter.to === null || run.startedAt < filter.to) &&
+      (filter.repoPath === null || run.repoPath === filter.repoPath)
+  );
+}
+
+/** The models a run ran with, without provider prefixes, e.g. `claude-opus-4.6 + gpt-5.2-codex`. */
+export function getModelMix(run: RunState): string {
+  const models = [
+    ...run.usage.filter((item) => item.status === 'completed').map((item) => item.model),
+    ...Object.values(run.phaseModels),
+  ];
+  const names = [...new Set(models.map((model) => model.slice(model.lastIndexOf('/') + 1)))].sort();
+  return names.length > 0 ? names.join(' + ') : 'Unknown';
+}
+
+function groupOutcomes(runs: RunState[], labelOf: (run: RunState) => string): OutcomeStats[] {
+  const groups = new Map<string, OutcomeStats>();
+  for (const run of runs) {
+    const label = labelOf(run);
+    const stats = groups.get(label) ?? { label, total: 0, completed: 0, failed: 0, stopped: 0 };
+    stats.total += 1;
+    if (run.status === 'completed') stats.completed += 1;
+    else if (run.status === 'failed') stats.failed += 1;
+    else stats.stopped += 1;
+    groups.set(label, stats);
+  }
+  return [...groups.values()].sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+function averagePhaseDurations(runs: RunState[]): PhaseDurationStats[] {
+  const totals = new Map<string, { seconds: number; runs: number }>();
+  for (const run of runs) {
+    // Workflow order, so the phases read like the pipeline.
+    const phases = [
+      ...run.workflowPhases.map((phase) => phase.id),
+      ...Object.keys(run.phaseDurations).filter((phase) => !run.workflowPhases.some((item) => item.id === phase)),
+    ];
+    for (const phase of phases) {
+      const seconds = run.phaseDurations[phase];
+      if (seconds === undefined) continue;
+      const total = totals.get(phase) ?? { seconds: 0, runs: 0 };
+      totals.set(phase, { seconds: total.seconds + seconds, runs: total.runs + 1 });
+    }
+  }
+  return [...totals].map(([phase, total]) => ({ phase, average: total.seconds / total.runs, runs: total.runs }));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function bucketCost(runs: RunState[], filter: AnalyticsFilter, now: number): RunAnalytics['cost'] {
+  const usage = runs.flatMap((run) => run.usage);
+  const first = filter.from ?? Math.min(now, ...usage.map((item) => item.at));
+  const start = getDayStart(first);
+  const end = Math.min(filter.to ?? now, now);
+  const bucketDays = Math.ceil((end - start) / DAY_MS) > MAX_DAILY_BUCKETS ? 7 : 1;
+  const bucketMs = bucketDays * DAY_MS;
+
+  const buckets: CostBucket[] = [];
+  for (let bucketStart = start; bucketStart < end; bucketStart += bucketMs) {
+    buckets.push({ start: bucketStart, cost: 0 });
+  }
+  for (const item of usage) {
+    const bucket = buckets[Math.floor((item.at - start) / bucketMs)];
+    if (bucket) bucket.cost += item.cost ?? 0;
+  }
+  // Only usage within the charted range counts, so the total matches the buckets.
+  return { total: buckets.reduce((total, bucket) => total + bucket.cost, 0), bucketDays, buckets };
+}
+
+export function computeRunAnalytics(allRuns: RunState[], filter: AnalyticsFilter, now: number): RunAnalytics {
+  const runs = filterAnalyticsRuns(allRuns, filter);
+
+  const fixDecided = runs.filter((run) => run.phases.FIX && run.phases.FIX !== 'pending');
+  const withPr = runs.filter((run) => run.prUrl);
+  const merged = withPr.filter((run) => run.prMergeStatus === 'merged');
+  const timesToMerge = merged
+    .filter((run) => run.prMergedAt !== null)
+    .map((run) => Math.max(0, run.prMergedAt! - (run.finishedAt ?? run.startedAt)));
+
+  return {
+    runs: runs.length,
+    byWorkflow: groupOutcomes(runs, (run) => run.workflowName),
+    byRepo: groupOutcomes(runs, (run) => run.repoName),
+    byModelMix: groupOutcomes(runs, getModelMix),
+    phaseDurations: averagePhaseDurations(runs),
+    fix: {
+      needed: fixDecided.filter((run) => run.phases.FIX === 'completed' || run.phases.FIX === 'failed').length,
+      total: fixDecided.length,
+    },
+    pr: {
+      opened: withPr.length,
+      merged: merged.length,
+      averageTimeToMerge:
+        timesToMerge.length > 0 ? timesToMerge.reduce((total, ms) => total + ms, 0) / timesToMerge.length : null,
+      medianTimeToMerge: median(timesToMerge),
+    },
+    cost: bucketCost(runs, filter, now),
+  };
+}
@@ -0,0 +1,173 @@
+import { ACTIVE_RUN_STATUSES } from './types';
+import type { RunState, WorkflowDefinition } from './types';
+import { hasWorkflowParam } from './workflow-params';
+
+/** Every batch item is a run of the same workflow with its own prompt. */
+export function supportsBatchRuns(workflow: WorkflowDefinition): boolean {
+  return hasWorkflowParam(workflow, 'prompt');
+}
+
+const LIST_ITEM_REGEX = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const HEADING_REGEX = /^#{1,6}\s+(.*)$/;
+const TASK_KEYS = ['prompt', 'task', 'title'];
+const DETAIL_KEYS = ['description', 'body', 'details'];
+
+function joinTask(title: string, details: string): string {
+  return [title.trim(), details.trim()].filter(Boolean).join('\n\n');
+}
+
+/** One task per non-empty line; list markers are dropped so pasted lists work as well. */
+function parseLines(text: string): string[] {
+  return text.split('\n').map((line) => line.match(LIST_ITEM_REGEX)?.[2] ?? line);
+}
+
+/**
+ * Top-level list items are tasks, with indented lines below an item added to it. A document
+ * without a list is split at its headings, each heading and the text below it forming one task.
+ */
+function parseMarkdown(text: string): string[] {
+  const tasks: string[] = [];
+  let listIndent: number | null = null;
+  for (const line of text.split('\n')) {
+    const item = line.match(LIST_ITEM_REGEX);
+    if (item && (listIndent === null || item[1].length <= listIndent)) {
+      listIndent = item[1].length;
+      tasks.push(item[2]);
+    } else if (tasks.length > 0 && /^\s+\S/.test(line)) {
+      tasks[tasks.length - 1] += `\n${line.trim()}`;
+    } else if (line.trim()) {
+      listIndent = null;
+    }
+  }
+  if (tasks.length > 0) return tasks;
+
+  const sections: { title: string; body: string[] }[] = [];
+  for (const line of text.split('\n')) {
+    const heading = line.match(HEADING_REGEX);
+    if (heading) sections.push({ title: heading[1], body: [] });
+    else sections[sections.length - 1]?.body.push(line);
+  }
+  return sections.map((section) => joinTask(section.title, section.body.join('\n')));
+}
+
+function readTaskObject(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object') return '';
+  const record = value as Record<string, unknown>;
+  const title = TASK_KEYS.map((key) => record[key]).find((item) => typeof item === 'string');
+  const details = DETAIL_KEYS.map((key) => record[key]).find((item) => typeof item === 'string');
+  return joinTask(typeof title === 'string' ? title : '', typeof details === 'string' ? details : '');
+}
+
+/** An array of strings or of `{ prompt | task | title, description | body | details }`, optionally under `tasks`. */
+function parseJson(text: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown } | null)?.tasks;
+  if (!Array.isArray(items)) {
+    throw new Error('The JSON file must contain an array of tasks');
+  }
+  return items.map(readTaskObject);
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/** Uses the `prompt`, `task` or `title` column (plus a description column) when there is a header, else the first column. */
+function parseCsv(text: string): string[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const titleColumn = header.findIndex((cell) => TASK_KEYS.includes(cell));
+  if (titleColumn === -1) return rows.map((cells) => cells[0] ?? '');
+
+  const detailColumn = header.findIndex((cell) => DETAIL_KEYS.includes(cell));
+  return rows.slice(1).map((cells) => joinTask(cells[titleColumn] ?? '', detailColumn === -1 ? '' : cells[detailColumn] ?? ''));
+}
+
+/**
+ * Reads batch tasks from pasted text or from the contents of a task file; the file extension picks
+ * the format (Markdown, JSON or CSV), anything else is read as one task per line.
+ */
+export function parseBatchTasks(text: string, fileName?: string): string[] {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  const tasks =
+    extension === 'md' || extension === 'markdown'
+      ? parseMarkdown(text)
+      : extension === 'json'
+        ? parseJson(text)
+        : extension === 'csv'
+          ? parseCsv(text)
+          : parseLines(text);
+  return tasks.map((task) => task.trim()).filter(Boolean);
+}
+
+export interface BatchSummary {
+  size: number;
+  queued: number;
+  active: number;
+  completed: number;
+  failed: number;
+  stopped: number;
+  /** Latest run of every task, in batch order. */
+  items: RunState[];
+}
+
+/** Aggregates a batch by its tasks; a resumed task counts with the state of its latest run. */
+export function summarizeBatch(runs: RunState[]): BatchSummary | null {
+  const batched = runs.filter((run) => run.batch);
+  if (batched.length === 0) return null;
+
+  const latest = new Map<number, RunState>();
+  for (const run of batched) {
+    const current = latest.get(run.batch!.index);
+    if (!current || run.startedAt > current.startedAt) latest.set(run.batch!.index, run);
+  }
+  const items = Array.from(latest.values()).sort((a, b) => a.batch!.index - b.batch!.index);
+  const count = (statuses: RunState['status'][]) => items.filter((run) => statuses.includes(run.status)).length;
+
+  return {
+    size: batched[0].batch!.size,
+    queued: count(['queued']),
+    active: count(ACTIVE_RUN_STATUSES),
+    completed: count(['completed']),
+    failed: count(['failed']),
+    stopped: count(['stopped']),
+    items,
+  };
+}
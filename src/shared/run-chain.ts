@@ -0,0 +1,87 @@
+import type { RunChainTrigger, RunDiffFile, RunState } from './types';
+
+export const CHAIN_TRIGGER_LABELS: Record<RunChainTrigger, string> = {
+  completed: 'Previous run completed',
+  'pr-ready': 'Previous PR is ready to merge',
+  'pr-merged': 'Previous PR is merged',
+};
+
+const CONTEXT_PLAN_MAX_CHARS = 20_000;
+const CONTEXT_MAX_FILES = 100;
+
+/** Latest run of every step, in chain order; a resumed step counts with its latest run. */
+export function summarizeChain(runs: RunState[]): RunState[] {
+  const latest = new Map<number, RunState>();
+  for (const run of runs) {
+    if (!run.chain) continue;
+    const current = latest.get(run.chain.index);
+    if (!current || run.startedAt > current.startedAt) latest.set(run.chain.index, run);
+  }
+  return Array.from(latest.values()).sort((a, b) => a.chain!.index - b.chain!.index);
+}
+
+/** Latest run of the step before `run` in its chain. */
+export function getPreviousChainStep(runs: RunState[], run: RunState): RunState | null {
+  if (!run.chain || run.chain.index <= 1) return null;
+  const chainRuns = runs.filter((item) => item.chain?.chainId === run.chain!.chainId);
+  return summarizeChain(chainRuns).find((item) => item.chain!.index === run.chain!.index - 1) ?? null;
+}
+
+export function isChainTriggerMet(previous: RunState, trigger: RunChainTrigger): boolean {
+  if (previous.status !== 'completed') return false;
+  if (trigger === 'completed') return true;
+  if (trigger === 'pr-ready') return previous.prMergeStatus === 'ready' || previous.prMergeStatus === 'merged';
+  return previous.prMergeStatus === 'merged';
+}
+
+/** Why a waiting step can never start without intervention, or null while its trigger can still be met. */
+export function getChainBlockReason(previous: RunState | null, trigger: RunChainTrigger): string | null {
+  if (!previous) return 'The previous step no longer exists.';
+  const step = previous.chain?.index ?? 0;
+  if (previous.status === 'failed' || previous.status === 'stopped') {
+    return `Step ${step} ${previous.status}. Resume it or cancel the chain.`;
+  }
+  if (previous.status === 'completed' && trigger !== 'completed' && !previous.prUrl) {
+    return `Step ${step} finished without a PR.`;
+  }
+  return null;
+}
+
+export function describeChainWait(previous: RunState, trigger: RunChainTrigger): string {
+  const step = previous.chain?.index ?? 0;
+  if (trigger === 'completed') return `Waiting for step ${step} to complete`;
+  if (trigger === 'pr-ready') return `Waiting for the PR of step ${step} to be ready to merge`;
+  return `Waiting for the PR of step ${step} to be merged`;
+}
+
+/** Context handed to the next step: what the previous step planned and which files it changed. */
+export function buildChainContext(previous: RunState, files: RunDiffFile[] | null): string {
+  const title = previous.prTitle || previous.prompt.split('\n')[0];
+  const lines = [
+    `This task follows an earlier run: ${title}${previous.prUrl ? ` (${previous.prUrl})` : ''}.`,
+    previous.prMergeStatus === 'merged'
+      ? 'Its changes have been merged into the base branch.'
+      : 'Its changes may not be on the base branch yet.',
+  ];
+
+  if (previous.planText) {
+    const plan =
+      previous.planText.length > CONTEXT_PLAN_MAX_CHARS
+        ? `${previous.planText.slice(0, CONTEXT_PLAN_MAX_CHARS)}\n… plan truncated`
+        : previous.planText;
+    lines.push('', 'Plan of the earlier run:', plan);
+  }
+
+  if (files && files.length > 0) {
+    lines.push('', 'Files changed by the earlier run:');
+    for (const file of files.slice(0, CONTEXT_MAX_FILES)) {
+      const counts = file.binary ? 'binary' : `+${file.additions} -${file.deletions}`;
+      lines.push(`- ${file.path} (${file.status}, ${counts})`);
+    }
+    if (files.length > CONTEXT_MAX_FILES) {
+      lines.push(`- … and ${files.length - CONTEXT_MAX_FILES} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
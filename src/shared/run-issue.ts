@@ -0,0 +1,15 @@
+import type { RepoIssueDetail } from './types';
+
+/** Prompt seeded from an issue: its title and body, followed by the discussion in its comments. */
+export function buildIssuePrompt(issue: RepoIssueDetail): string {
+  const sections = [`Resolve GitHub issue #${issue.number}: ${issue.title}`];
+  if (issue.body.trim()) sections.push(issue.body.trim());
+  if (issue.comments.length > 0) {
+    sections.push(
+      ['Comments on the issue:', ...issue.comments.map((comment) => `@${comment.author}:\n${comment.body.trim()}`)].join(
+        '\n\n'
+      )
+    );
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,8 @@
+import type { RunState } from './types';
+
+/** Queued runs in the order they will start; chain steps waiting for their trigger are left out. */
+export function sortQueuedRuns(runs: RunState[]): RunState[] {
+  return runs
+    .filter((run) => run.status === 'queued' && run.queue && !run.chain?.waiting)
+    .sort((a, b) => a.queue!.order - b.queue!.order);
+}
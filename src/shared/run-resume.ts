@@ -0,0 +1,33 @@
+import type { RunState } from './types';
+
+/**
+ * Phases a failed or stopped run can be resumed from: every phase after the first one,
+ * up to and including the first phase that did not finish.
+ */
+export function getResumablePhases(run: RunState): string[] {
+  if (!run.resumable || (run.status !== 'failed' && run.status !== 'stopped')) return [];
+
+  const phases: string[] = [];
+  for (const [index, phase] of run.workflowPhases.entries()) {
+    if (index > 0) phases.push(phase.id);
+    const status = run.phases[phase.id];
+    if (status !== 'completed' && status !== 'skipped') break;
+  }
+  return phases;
+}
+
+/** Phases that finish a run from its workspace as it is, e.g. after fixing it by hand. */
+export const CONTINUE_PHASES = ['COMMIT', 'PUSH', 'PR'];
+
+/**
+ * Phases a failed or stopped run can be continued from in place: the finishing phases of its
+ * workflow that were not skipped, whatever phase the run stopped in.
+ */
+export function getContinuePhases(run: RunState): string[] {
+  if (!run.resumable || (run.status !== 'failed' && run.status !== 'stopped')) return [];
+  if (run.phases.PR === 'completed') return [];
+
+  return run.workflowPhases
+    .map((phase) => phase.id)
+    .filter((id) => CONTINUE_PHASES.includes(id) && run.phases[id] !== 'skipped');
+}
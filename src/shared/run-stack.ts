@@ -0,0 +1,42 @@
+import type { RunState, WorkflowDefinition } from './types';
+
+export function supportsStackedRuns(workflow: WorkflowDefinition): boolean {
+  return workflow.stackable === true;
+}
+
+/** A run can be built on while its PR is open. */
+export function canStackOnRun(run: RunState): boolean {
+  return run.status === 'completed' && !!run.prUrl && !!run.prHeadRef && run.prMergeStatus !== 'merged';
+}
+
+/** Whether the run's PR still targets the PR branch of the run below it, i.e. that PR has not merged yet. */
+export function isStackedOnOpenPr(run: RunState, base: RunState | null | undefined): boolean {
+  return !!run.stack && !!base && run.stack.baseBranch === base.prHeadRef;
+}
+
+/**
+ * Runs of the stack the run belongs to, bottom first. Above every run only the latest run stacked
+ * on it is followed, so a resumed run replaces the one it resumed.
+ */
+export function getRunStack(runs: RunState[], run: RunState): RunState[] {
+  const runsById = new Map(runs.map((item) => [item.id, item]));
+  const seen = new Set<string>([run.id]);
+  let bottom = run;
+  while (bottom.stack) {
+    const base = runsById.get(bottom.stack.baseRunId);
+    if (!base || seen.has(base.id)) break;
+    seen.add(base.id);
+    bottom = base;
+  }
+
+  const stack = [bottom];
+  for (;;) {
+    const top = stack[stack.length - 1];
+    const above = runs
+      .filter((item) => item.stack?.baseRunId === top.id && !stack.includes(item))
+      .sort((a, b) => b.startedAt - a.startedAt)[0];
+    if (!above) break;
+    stack.push(above);
+  }
+  return stack;
+}
@@ -0,0 +1,18 @@
+import type { RunState, WorkflowDefinition } from './types';
+import { hasWorkflowParam } from './workflow-params';
+
+/** Phase a promoted variant is resumed from; everything before it already ran commit-only. */
+export const VARIANT_PROMOTE_PHASE = 'PUSH';
+
+/** Variants run commit-only and are promoted by resuming them at PUSH, so the workflow has to support both. */
+export function supportsRunVariants(workflow: WorkflowDefinition): boolean {
+  return (
+    workflow.resumable === true &&
+    hasWorkflowParam(workflow, 'skipPr') &&
+    workflow.phases.some((phase) => phase.id === VARIANT_PROMOTE_PHASE)
+  );
+}
+
+export function canPromoteVariant(run: RunState): boolean {
+  return !!run.variant && run.variant.outcome === null && run.status === 'completed' && run.skipPr;
+}
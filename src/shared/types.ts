@@ -1,20 +1,35 @@
-export const PIPELINE_PHASES = [
-  'CLONE',
-  'SETUP',
-  'PLAN',
-  'IMPLEMENT',
-  'REVIEW',
-  'FIX',
-  'COMMIT',
-  'PUSH',
-  'PR',
-] as const;
-
-export type PipelinePhase = (typeof PIPELINE_PHASES)[number];
+export interface WorkflowPhase {
+  /** Phase tag used in script log lines, e.g. `[PLAN]`. */
+  id: string;
+  label: string;
+  /** The script may finish without reaching this phase; it is shown as skipped instead of pending. */
+  optional?: boolean;
+  /** A `Skipped` log line for this phase marks it as skipped. */
+  skippable?: boolean;
+  /** Marks the phase as skipped up front when a run parameter matches. */
+  skipWhen?: WorkflowParameterCondition;
+}
+
+// Phases of the development pipeline, also used for user workflows that do not declare their own.
+export const DEFAULT_WORKFLOW_PHASES: WorkflowPhase[] = [
+  { id: 'CLONE', label: 'Clone' },
+  { id: 'SETUP', label: 'Setup' },
+  { id: 'PLAN', label: 'Plan', skippable: true, skipWhen: { key: 'skipPlan', equals: true } },
+  { id: 'IMPLEMENT', label: 'Implement' },
+  { id: 'REVIEW', label: 'Review' },
+  { id: 'FIX', label: 'Fix', skippable: true },
+  { id: 'VERIFY', label: 'Verify', skippable: true },
+  { id: 'COMMIT', label: 'Commit' },
+  { id: 'PUSH', label: 'Push', skippable: true, skipWhen: { key: 'skipPr', equals: true } },
+  { id: 'PR', label: 'PR', skippable: true, skipWhen: { key: 'skipPr', equals: true } },
+];
 
 export type PhaseStatus = 'pending' | 'active' | 'completed' | 'skipped' | 'failed';
 
-export type RunStatus = 'running' | 'completed' | 'failed' | 'stopped';
+export type RunStatus = 'queued' | 'running' | 'awaiting-approval' | 'completed' | 'failed' | 'stopped';
+
+/** Statuses of runs whose script is still alive. */
+export const ACTIVE_RUN_STATUSES: RunStatus[] = ['running', 'awaiting-approval'];
 export type PrMergeStatus =
   | 'none'
   | 'checking'
@@ -24,6 +39,153 @@ export type PrMergeStatus =
   | 'merged'
   | 'failed';
 
+export type RunArtifactKind = 'plan' | 'review' | 'diff';
+
+export type ReviewIterationStatus = 'reviewing' | 'lgtm' | 'fixing' | 'fixed' | 'failed';
+
+/** One review → fix pass of the review loop. */
+export interface ReviewIteration {
+  iteration: number;
+  status: ReviewIterationStatus;
+  findings: string | null;
+}
+
+export const MAX_REVIEW_ITERATIONS_LIMIT = 10;
+
+/** Result of one verification command in one attempt of the VERIFY phase. */
+export interface VerifyResult {
+  attempt: number;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  /** Duration in seconds. */
+  duration: number | null;
+  /** Tail of the command output. */
+  output: string | null;
+}
+
+export const MAX_VERIFY_ATTEMPTS_LIMIT = 10;
+
+/** Snapshot of the workspace taken when a phase completed, stored as a commit under `refs/codeloop/checkpoints/`. */
+export interface RunCheckpoint {
+  phase: string;
+  ref: string;
+  commit: string;
+  createdAt: number;
+}
+
+export interface RunCheckpointDiffResult {
+  ok: boolean;
+  diff?: string;
+  error?: string;
+}
+
+export type RunDiffFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface RunDiffFile {
+  path: string;
+  /** Previous path of a renamed file. */
+  oldPath: string | null;
+  status: RunDiffFileStatus;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  /** Unified diff of the file, starting at its first hunk. */
+  patch: string;
+}
+
+export interface RunDiffResult {
+  ok: boolean;
+  /** Where the diff was read from: the run's workspace, or the branch pushed to origin. */
+  source?: 'workspace' | 'remote';
+  base?: string;
+  files?: RunDiffFile[];
+  /** Set when the diff was too large and later files were left out. */
+  truncated?: boolean;
+  error?: string;
+}
+
+/** Links runs started for the same prompt with different model configurations. */
+export interface RunVariant {
+  groupId: string;
+  /** 1-based position of the variant in its group. */
+  index: number;
+  /** Set on every variant of the group once one of them has been promoted to a PR. */
+  outcome: 'promoted' | 'discarded' | null;
+}
+
+export const MAX_RUN_VARIANTS = 4;
+
+/** Links runs created together from a list of tasks. */
+export interface RunBatch {
+  batchId: string;
+  /** 1-based position of the task in the batch; a resumed task keeps it. */
+  index: number;
+  size: number;
+}
+
+export const MAX_BATCH_RUNS = 50;
+
+/** Condition on the previous step of a chain that starts the next one. */
+export type RunChainTrigger = 'completed' | 'pr-ready' | 'pr-merged';
+
+/** Links runs that start one after another, each once the step before it reached its trigger. */
+export interface RunChain {
+  chainId: string;
+  /** 1-based position of the step in the chain; a resumed step keeps it. */
+  index: number;
+  size: number;
+  /** Null for the first step. */
+  trigger: RunChainTrigger | null;
+  /** Adds the previous step's plan and diff summary to the prompt. */
+  includeContext: boolean;
+  /** Set while the trigger is unmet; the run stays queued but does not take a queue position. */
+  waiting: boolean;
+  /** Why a waiting step could not be released, kept until it is. */
+  message: string | null;
+}
+
+/** A follow-up run of a chain, as requested when the chain is started. */
+export interface RunChainStep {
+  options: RunOptions;
+  trigger: RunChainTrigger;
+  includeContext: boolean;
+}
+
+export const MAX_CHAIN_RUNS = 10;
+
+/** Places a run's PR on top of another run's PR. */
+export interface RunStack {
+  /** Run whose PR branch this run's branch was started from. */
+  baseRunId: string;
+  /**
+   * Branch this run's PR targets: the base run's PR branch, or the branch that PR merged into
+   * once it has merged and this run was moved onto it.
+   */
+  baseBranch: string;
+  /** Commit of `baseBranch` this run's branch builds on; null until the script reports it. */
+  baseCommit: string | null;
+  /** Outcome of the last update after the PR below changed, e.g. a rebase conflict. */
+  message: string | null;
+  /** Merge this run's PR once the PR below it has merged; set when the stack is merged bottom-up. */
+  mergeWhenReady: boolean;
+}
+
+/** GitHub issue a run was started from. */
+export interface RunIssue {
+  number: number;
+  title: string;
+  url: string;
+}
+
+/** A run waiting for a free slot under the concurrency limits. */
+export interface RunQueueEntry {
+  /** Options the run is started with once it leaves the queue. */
+  options: RunOptions;
+  /** Position in the queue; lower values start first. */
+  order: number;
+}
+
 export interface LogEntry {
   timestamp: string;
   phase: string;
@@ -39,9 +201,20 @@ export interface RunState {
   workflowName: string;
   prompt: string;
   branchName: string;
+  /** Branch the run's changes are based on, when the script reported it. */
+  baseBranch: string | null;
   status: RunStatus;
   currentPhase: string;
   phases: Record<string, PhaseStatus>;
+  workflowPhases: WorkflowPhase[];
+  /** Phase durations in seconds, as reported by the script's event stream. */
+  phaseDurations: Record<string, number>;
+  artifacts: Partial<Record<RunArtifactKind, string>>;
+  errorMessage: string | null;
+  maxReviewIterations: number;
+  reviewIterations: ReviewIteration[];
+  verifyResults: VerifyResult[];
+  checkpoints: RunCheckpoint[];
   logs: LogEntry[];
   prUrl: string | null;
   prTitle: string | null;
@@ -50,18 +223,55 @@ export interface RunState {
   prBaseRef: string | null;
   prMergeStatus: PrMergeStatus;
   prMergeMessage: string | null;
+  /** When the PR was merged, as GitHub reported it on the last PR status refresh. */
+  prMergedAt: number | null;
+  /** When the run was requested; a queued run keeps it when it starts. */
   startedAt: number;
+  /** When the script started, after any wait in the queue; null while the run is queued. */
+  runningAt: number | null;
   finishedAt: number | null;
   pid: number | null;
   skipPlan: boolean;
   background: boolean;
   modelOverrides: Partial<ModelConfig> | null;
+  /** Model each phase last ran with, as reported by the script. */
+  phaseModels: Record<string, string>;
+  modelFallbacks: ModelFallback[];
+  /** Agent calls the script reported, in the order they finished. */
+  usage: ModelUsage[];
   planText: string | null;
   runMode: 'foreground' | 'background';
   logFilePath: string | null;
   logFileOffset: number;
+  eventsFilePath: string | null;
+  eventsFileOffset: number;
+  /** Event protocol version announced by the script, or null when only legacy log parsing applies. */
+  eventProtocol: number | null;
+  scriptResult: 'completed' | 'failed' | null;
+  /** Pause after PLAN until the plan is approved or rejected in the app. */
+  requirePlanApproval: boolean;
+  /** Whether the workflow's script can resume from a phase. */
+  resumable: boolean;
+  /** The failed or stopped run this run resumes. */
+  parentRunId: string | null;
+  /** Phase the run was resumed or continued from. */
+  resumedFromPhase: string | null;
+  /** The workspace is exempt from the retention policy while the run is failed or stopped. */
+  keepWorkspace: boolean;
+  variant: RunVariant | null;
+  batch: RunBatch | null;
+  chain: RunChain | null;
+  stack: RunStack | null;
+  issue: RunIssue | null;
+  /** Comment that linked the run's PR on its issue, once posted. */
+  issueCommentUrl: string | null;
+  /** Schedule that started the run. */
+  scheduleId: string | null;
+  /** Set while the run is queued. */
+  queue: RunQueueEntry | null;
   autoMerge: boolean;
   skipPr: boolean;
+  params: Record<string, WorkflowParamValue>;
 }
 
 export interface RunOptions {
@@ -75,6 +285,29 @@ export interface RunOptions {
   modelOverrides?: Partial<ModelConfig>;
   autoMerge?: boolean;
   skipPr?: boolean;
+  /** Overrides `AppConfig.maxReviewIterations` for this run. */
+  maxReviewIterations?: number;
+  requirePlanApproval?: boolean;
+  /** Resume this failed or stopped run in its workspace instead of starting from scratch. */
+  resumeFromRunId?: string;
+  resumeFromPhase?: string;
+  /** Keep the workspace if the run fails, so it can be fixed by hand and the run continued. */
+  keepWorkspace?: boolean;
+  /**
+   * Starts one commit-only run per model configuration as a linked group instead of a single run;
+   * the variant chosen in the comparison view is then pushed and opened as a PR.
+   */
+  variants?: Partial<ModelConfig>[];
+  /** Starts one run per task with otherwise shared settings, tracked together as a batch. */
+  batchPrompts?: string[];
+  /** Follow-up runs started one after another, each once the run before it reached the step's trigger. */
+  chain?: RunChainStep[];
+  /** Branches from this run's PR branch and opens the PR against it instead of the default branch. */
+  stackOnRunId?: string;
+  /** Links the PR to this issue and comments the PR link on it when the run completes. */
+  issue?: RunIssue;
+  scheduleId?: string;
+  params?: Record<string, WorkflowParamValue>;
 }
 
 export interface PrStatusPayload {
@@ -94,30 +327,215 @@ export interface RunPrActionResult {
   payload?: PrStatusPayload;
 }
 
+/**
+ * Ordered fallback chain per model slot. A phase starts with the first model and moves down the
+ * chain when a model is unsupported, rate-limited or keeps failing.
+ */
 export interface ModelConfig {
-  modelPlan: string;
-  modelImplement: string;
-  modelReview: string;
-  modelFix: string;
-  modelCommit: string;
-  modelPr: string;
-  modelBranch: string;
+  modelPlan: string[];
+  modelImplement: string[];
+  modelReview: string[];
+  modelFix: string[];
+  modelCommit: string[];
+  modelPr: string[];
+  modelBranch: string[];
+}
+
+export type ModelFallbackReason = 'unsupported' | 'rate-limited' | 'failing';
+
+/** A model a run moved away from, or retried, while a phase ran. */
+export interface ModelFallback {
+  key: keyof ModelConfig;
+  /** Phase running when the model failed; null outside a phase, e.g. while naming the branch. */
+  phase: string | null;
+  from: string;
+  /** Model the slot continued with; equal to `from` for a retry, null when the chain was used up. */
+  to: string | null;
+  reason: ModelFallbackReason;
+  at: number;
+}
+
+/** One agent call of a run. */
+export interface ModelUsage {
+  /** Phase running when the call was made; null outside a phase, e.g. while naming the branch. */
+  phase: string | null;
+  key: keyof ModelConfig | null;
+  model: string;
+  status: 'completed' | 'failed';
+  /** Seconds the call took, including retries after network errors. */
+  duration: number;
+  /** Null when the agent output did not report token counts. */
+  inputTokens: number | null;
+  outputTokens: number | null;
+  /** Premium requests charged for the call; null when no cost multiplier matches the model. */
+  cost: number | null;
+  at: number;
+}
+
+/** Premium requests one agent call with a matching model costs; the first matching entry applies. */
+export interface CostMultiplier {
+  /** Case-insensitive model ID pattern where `*` matches any text and `?` one character. */
+  pattern: string;
+  label: string;
+  multiplier: number;
+}
+
+/** Caps on premium requests; null leaves the spend uncapped. */
+export interface CostBudget {
+  /** Runs that go over it are stopped. */
+  perRun: number | null;
+  /** Runs that go over it are stopped, and no runs start until the next day once it is spent. */
+  perDay: number | null;
+}
+
+/**
+ * How a run's workspace is created: a full clone, a `git worktree` of the local repository, or a
+ * clone that borrows objects from a bare mirror shared by all runs of the repository.
+ */
+export type WorkspaceStrategy = 'clone' | 'worktree' | 'mirror';
+
+/** Coding-agent CLI the workflow scripts and PR conflict resolution run prompts with. */
+export type AgentBackendId = 'opencode' | 'command';
+
+/** Any coding-agent CLI that takes the model and prompt as arguments. */
+export interface CommandAgentConfig {
+  /** Executable on the PATH, e.g. `claude`. */
+  command: string;
+  /**
+   * One argument per entry; `{model}`, `{prompt}` and `{promptFile}` are substituted. Without a prompt argument
+   * the prompt is written to stdin. Attachments are appended to the prompt.
+   */
+  args: string[];
+  /** Models offered in the model pickers, passed on as `{model}`. */
+  models: string[];
+}
+
+/** Days to keep finished workspaces by kind; 0 keeps them until they are deleted by hand. */
+export interface WorkspaceRetention {
+  /** Workspaces of failed and stopped runs. */
+  failedDays: number;
+  /** Workspaces whose branch was pushed. */
+  pushedDays: number;
+  /** Workspaces whose branch only exists locally, such as those of commit-only runs. */
+  localDays: number;
 }
 
 export interface AppConfig {
   workspaceRoot: string;
+  workspaceStrategy: WorkspaceStrategy;
+  workspaceRetention: WorkspaceRetention;
+  agentBackend: AgentBackendId;
+  /** Used when `agentBackend` is `command`. */
+  commandAgent: CommandAgentConfig;
+  /** OpenCode providers, e.g. `anthropic` or `ollama`, whose models are offered in the model pickers. */
+  modelProviders: string[];
   defaultWorkflowId: string;
   models: ModelConfig;
   lastModelOverrides: Partial<ModelConfig>;
+  costMultipliers: CostMultiplier[];
+  budget: CostBudget;
   postCloneCommands: string[];
   maxRetries: number;
   retryDelays: number[];
+  maxReviewIterations: number;
+  verifyCommands: string[];
+  maxVerifyAttempts: number;
   notificationSound: boolean;
   autoApproveExternalDirectory: boolean;
   launchChecksPassed: boolean;
   recentRepos: string[];
   branchPrefix: string;
   skipPr: boolean;
+  /** Runs active at the same time across all repositories; 0 means unlimited. */
+  maxConcurrentRuns: number;
+  /** Runs active at the same time in one repository; 0 means unlimited. */
+  maxConcurrentRunsPerRepo: number;
+  schedules: RunSchedule[];
+}
+
+/** What a schedule does with fire times that passed while the app was closed. */
+export type ScheduleMissedRunPolicy = 'skip' | 'catch-up';
+
+export interface RunSchedule {
+  id: string;
+  name: string;
+  /** Five-field cron expression (minute hour day-of-month month day-of-week) in local time. */
+  cron: string;
+  enabled: boolean;
+  missedRunPolicy: ScheduleMissedRunPolicy;
+  /** Options every run of the schedule is started with. */
+  options: RunOptions;
+  /**
+   * Starts one run per open PR whose branch uses the configured branch prefix, with the PR branch
+   * filled into the workflow's PR parameter.
+   */
+  forEachOpenPr: boolean;
+}
+
+export interface RunScheduleStatus {
+  lastFiredAt: number | null;
+  lastError: string | null;
+}
+
+export type WorkspaceKind = 'active' | 'failed' | 'pushed' | 'local';
+
+/** A directory in the workspace root. */
+export interface WorkspaceInfo {
+  path: string;
+  name: string;
+  /** Latest run that used the workspace; null for workspaces of runs no longer in the history. */
+  runId: string | null;
+  repoName: string | null;
+  branchName: string | null;
+  worktree: boolean;
+  /** The branch has an upstream or the owning run opened a PR. */
+  pushed: boolean;
+  kind: WorkspaceKind;
+  /** Null when the size could not be measured. */
+  sizeBytes: number | null;
+  /** When the owning run finished, or when the directory last changed. */
+  updatedAt: number;
+  /** When the retention policy deletes the workspace; null while it is kept. */
+  expiresAt: number | null;
+}
+
+export type WorkflowSource = 'builtin' | 'user';
+
+export type WorkflowParamValue = string | boolean;
+
+export type WorkflowParameterType = 'string' | 'boolean' | 'enum' | 'branch' | 'pr' | 'text';
+
+export interface WorkflowParameterCondition {
+  key: string;
+  equals: WorkflowParamValue;
+}
+
+export interface WorkflowParameterMapping {
+  /** CLI flag. Text values are passed as `<arg> <value>`; booleans pass the bare flag when true. */
+  arg?: string;
+  /** Boolean parameters only: bare flag passed when the value is false. */
+  argWhenFalse?: string;
+  /** Environment variable receiving the value (booleans as "true"/"false"). */
+  env?: string;
+  /** Append the value as a trailing positional argument. */
+  positional?: boolean;
+  /** Value passed instead when the field is left empty. */
+  emptyValue?: string;
+}
+
+export interface WorkflowParameter {
+  key: string;
+  type: WorkflowParameterType;
+  label: string;
+  description?: string;
+  placeholder?: string;
+  required?: boolean;
+  requiredWhen?: WorkflowParameterCondition;
+  visibleWhen?: WorkflowParameterCondition;
+  default?: WorkflowParamValue;
+  defaultFromConfig?: keyof AppConfig;
+  options?: { value: string; label: string }[];
+  mapping?: WorkflowParameterMapping;
 }
 
 export interface WorkflowDefinition {
@@ -125,7 +543,18 @@ export interface WorkflowDefinition {
   name: string;
   description: string;
   scriptFile: string;
-  requiresPrompt: boolean;
+  parameters: WorkflowParameter[];
+  /** Ordered phases reported by the script, driving progress tracking. */
+  phases: WorkflowPhase[];
+  /** Static arguments passed before parameter arguments. Supports `{repoPath}` and `{configPath}`. */
+  args?: string[];
+  /** Model roles the workflow uses. All roles when omitted. */
+  models?: (keyof ModelConfig)[];
+  /** The script honours `OPENCODE_LOOP_RESUME_FROM` and can continue in an existing workspace. */
+  resumable?: boolean;
+  /** The script honours `OPENCODE_LOOP_BASE_BRANCH`: it branches from that branch and opens its PR against it. */
+  stackable?: boolean;
+  source?: WorkflowSource;
 }
 
 export const PREDEFINED_WORKFLOWS: WorkflowDefinition[] = [
@@ -134,14 +563,96 @@ export const PREDEFINED_WORKFLOWS: WorkflowDefinition[] = [
     name: 'Development + Auto PR',
     description: 'Runs the full development pipeline: plan, implement, review, fix, commit, push, and PR.',
     scriptFile: 'development-auto-pr.sh',
-    requiresPrompt: true,
+    args: ['--log-opencode', '--config', '{configPath}', '--repo-dir', '{repoPath}'],
+    parameters: [
+      {
+        key: 'skipPlan',
+        type: 'boolean',
+        label: 'Skip Plan Phase',
+        description: 'Provide your own implementation plan',
+        default: false,
+        mapping: { arg: '--skip-plan' },
+      },
+      {
+        key: 'background',
+        type: 'boolean',
+        label: 'Run in Background',
+        description: 'Keeps running even after app quit; logs still stream while app is open',
+        default: false,
+        mapping: { arg: '--bg', argWhenFalse: '--fg' },
+      },
+      {
+        key: 'autoMerge',
+        type: 'boolean',
+        label: 'Auto Merge PR',
+        description: 'After PR creation, automatically merge when mergeable (default off)',
+        default: false,
+        visibleWhen: { key: 'skipPr', equals: false },
+      },
+      {
+        key: 'skipPr',
+        type: 'boolean',
+        label: 'Skip PR (Commit Only)',
+        description: 'Only commit changes locally — do not push or create a pull request',
+        defaultFromConfig: 'skipPr',
+        mapping: { arg: '--skip-pr', env: 'OPENCODE_LOOP_SKIP_PR' },
+      },
+      {
+        key: 'planText',
+        type: 'text',
+        label: 'Custom Plan',
+        placeholder: 'Paste your implementation plan here...',
+        required: true,
+        visibleWhen: { key: 'skipPlan', equals: true },
+        mapping: { env: 'OPENCODE_LOOP_PLAN_TEXT' },
+      },
+      {
+        key: 'prompt',
+        type: 'text',
+        label: 'Prompt',
+        placeholder: 'Describe the task you want to accomplish...',
+        requiredWhen: { key: 'skipPlan', equals: false },
+        mapping: { positional: true, emptyValue: 'Use the provided implementation plan.' },
+      },
+    ],
+    phases: DEFAULT_WORKFLOW_PHASES,
+    resumable: true,
+    stackable: true,
+    source: 'builtin',
   },
   {
     id: 'pr-autofix',
     name: 'PR Autofix',
     description: 'Finds CI review findings on the current PR, applies fixes, and updates the branch.',
     scriptFile: 'pr-autofix.sh',
-    requiresPrompt: false,
+    parameters: [
+      {
+        key: 'targetBranch',
+        type: 'pr',
+        label: 'PR Target',
+        description: 'PR Autofix runs on the selected PR branch and expects an open PR for that branch.',
+        required: true,
+        mapping: { arg: '--branch' },
+      },
+      {
+        key: 'autoMerge',
+        type: 'boolean',
+        label: 'Auto Merge PR',
+        description: 'Wait for required checks, then enable auto-merge (default off)',
+        default: false,
+        mapping: { argWhenFalse: '--skip-merge' },
+      },
+    ],
+    phases: [
+      { id: 'INIT', label: 'Init' },
+      { id: 'REVIEW', label: 'Review' },
+      { id: 'FIX', label: 'Fix' },
+      { id: 'COMMIT', label: 'Commit' },
+      { id: 'PUSH', label: 'Push', optional: true },
+      { id: 'PR', label: 'PR', optional: true },
+    ],
+    models: ['modelFix'],
+    source: 'builtin',
   },
 ];
 
@@ -162,6 +673,23 @@ export interface RepoOpenPr {
   baseRefName: string;
 }
 
+export interface RepoIssue {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+}
+
+export interface RepoIssueComment {
+  author: string;
+  body: string;
+}
+
+export interface RepoIssueDetail extends RepoIssue {
+  body: string;
+  comments: RepoIssueComment[];
+}
+
 export interface RepoBranchLookup {
   branch: string;
   exists: boolean;
@@ -177,10 +705,25 @@ export interface ToolReadiness {
   details: string | null;
 }
 
+export interface ModelProviderReadiness {
+  id: string;
+  ready: boolean;
+  modelCount: number;
+  details: string | null;
+}
+
+export interface AgentReadiness extends ToolReadiness {
+  backend: AgentBackendId;
+  name: string;
+  /** Readiness of each enabled model provider; empty for backends without providers. */
+  providers: ModelProviderReadiness[];
+}
+
 export interface LaunchRequirements {
   ready: boolean;
   checkedAt: number;
-  opencode: ToolReadiness;
+  /** Readiness of every enabled agent backend, starting with the one runs use. */
+  agents: AgentReadiness[];
   gh: ToolReadiness;
 }
 
@@ -200,14 +743,33 @@ export const IPC = {
   RUN_PR_REFRESH: 'run:pr:refresh',
   RUN_PR_MERGE: 'run:pr:merge',
   RUN_PR_RESOLVE_MERGE: 'run:pr:resolve-merge',
+  RUN_PR_BACKFILL: 'run:pr:backfill',
+  RUN_PLAN_APPROVE: 'run:plan:approve',
+  RUN_PLAN_REJECT: 'run:plan:reject',
+  RUN_CHECKPOINT_DIFF: 'run:checkpoint:diff',
+  RUN_CHECKPOINT_ROLLBACK: 'run:checkpoint:rollback',
+  RUN_DIFF: 'run:diff',
+  RUN_VARIANT_PROMOTE: 'run:variant:promote',
+  RUN_CHAIN_CANCEL: 'run:chain:cancel',
+  RUN_STACK_MERGE: 'run:stack:merge',
+  RUN_CONTINUE: 'run:continue',
+  RUN_QUEUE_MOVE: 'run:queue:move',
+  SCHEDULE_STATUS: 'schedule:status',
+  SCHEDULE_RUN_NOW: 'schedule:run-now',
+  WORKSPACE_LIST: 'workspace:list',
+  WORKSPACE_DELETE: 'workspace:delete',
   REPO_VALIDATE: 'repo:validate',
   REPO_META: 'repo:meta',
   REPO_BRANCHES: 'repo:branches',
   REPO_OPEN_PRS: 'repo:open-prs',
+  REPO_ISSUES: 'repo:issues',
+  REPO_ISSUE: 'repo:issue',
   REPO_BRANCH_LOOKUP: 'repo:branch-lookup',
   REPO_PICK_FOLDER: 'repo:pick-folder',
   SHELL_OPEN_URL: 'shell:open-url',
   SHELL_OPEN_IN_VSCODE: 'shell:open-in-vscode',
   MODELS_LIST: 'models:list',
+  MODEL_PROVIDERS_CHECK: 'models:check-providers',
+  WORKFLOWS_LIST: 'workflows:list',
   APP_LAUNCH_REQUIREMENTS: 'app:launch-requirements',
 } as const;
@@ -0,0 +1,107 @@
+import type {
+  AppConfig,
+  RunOptions,
+  WorkflowDefinition,
+  WorkflowParameter,
+  WorkflowParameterCondition,
+  WorkflowParamValue,
+} from './types';
+
+// Parameter keys that mirror first-class RunOptions fields. Values for these keys are
+// read from the legacy fields when `params` does not provide them (e.g. re-run presets).
+const RUN_OPTION_PARAM_KEYS = [
+  'prompt',
+  'skipPlan',
+  'planText',
+  'background',
+  'autoMerge',
+  'skipPr',
+  'targetBranch',
+] as const;
+
+type RunOptionParamKey = (typeof RUN_OPTION_PARAM_KEYS)[number];
+
+function isRunOptionParamKey(key: string): key is RunOptionParamKey {
+  return (RUN_OPTION_PARAM_KEYS as readonly string[]).includes(key);
+}
+
+function coerceParamValue(param: WorkflowParameter, value: unknown): WorkflowParamValue | undefined {
+  if (param.type === 'boolean') {
+    return typeof value === 'boolean' ? value : undefined;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function emptyParamValue(param: WorkflowParameter): WorkflowParamValue {
+  return param.type === 'boolean' ? false : '';
+}
+
+export function isEmptyParamValue(value: WorkflowParamValue | undefined): boolean {
+  return value === undefined || (typeof value === 'string' && !value.trim());
+}
+
+function matchesCondition(condition: WorkflowParameterCondition, values: Record<string, WorkflowParamValue>): boolean {
+  return values[condition.key] === condition.equals;
+}
+
+export function isParameterVisible(param: WorkflowParameter, values: Record<string, WorkflowParamValue>): boolean {
+  return !param.visibleWhen || matchesCondition(param.visibleWhen, values);
+}
+
+export function isParameterRequired(param: WorkflowParameter, values: Record<string, WorkflowParamValue>): boolean {
+  if (param.required) return true;
+  return !!param.requiredWhen && matchesCondition(param.requiredWhen, values);
+}
+
+/**
+ * Resolves a value for every parameter of the workflow, in order of precedence:
+ * explicit `params`, the matching legacy RunOptions field, the config default, then the
+ * parameter default.
+ */
+export function resolveWorkflowParams(
+  workflow: WorkflowDefinition,
+  options: Partial<RunOptions> | null | undefined,
+  config: AppConfig
+): Record<string, WorkflowParamValue> {
+  const values: Record<string, WorkflowParamValue> = {};
+
+  for (const param of workflow.parameters) {
+    const explicit = coerceParamValue(param, options?.params?.[param.key]);
+    const legacy = isRunOptionParamKey(param.key) ? coerceParamValue(param, options?.[param.key]) : undefined;
+    const fromConfig = param.defaultFromConfig ? coerceParamValue(param, config[param.defaultFromConfig]) : undefined;
+    const fallback = coerceParamValue(param, param.default);
+
+    values[param.key] = explicit ?? legacy ?? fromConfig ?? fallback ?? emptyParamValue(param);
+  }
+
+  return values;
+}
+
+/** Drops values of parameters hidden by their `visibleWhen` condition. */
+export function getActiveWorkflowParams(
+  workflow: WorkflowDefinition,
+  values: Record<string, WorkflowParamValue>
+): Record<string, WorkflowParamValue> {
+  const active: Record<string, WorkflowParamValue> = {};
+  for (const param of workflow.parameters) {
+    if (!isParameterVisible(param, values)) continue;
+    active[param.key] = values[param.key] ?? emptyParamValue(param);
+  }
+  return active;
+}
+
+/** Returns the first visible required parameter that has no value, if any. */
+export function findMissingRequiredParam(
+  workflow: WorkflowDefinition,
+  values: Record<string, WorkflowParamValue>
+): WorkflowParameter | null {
+  for (const param of workflow.parameters) {
+    if (!isParameterVisible(param, values) || !isParameterRequired(param, values)) continue;
+    if (isEmptyParamValue(values[param.key])) return param;
+  }
+  return null;
+}
+
+export function hasWorkflowParam(workflow: WorkflowDefinition, key: string): boolean {
+  return workflow.parameters.some((param) => param.key === key);
+}